@@ -2,17 +2,32 @@
 import { useCallback, useEffect, useState } from "react";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { WalletMultiButton } from "@solana/wallet-adapter-react-ui";
-import { useBundleState } from "@/hooks/useBundleState";
+import { SimulationStatus, useBundleState } from "@/hooks/useBundleState";
 import { useTransactionManager } from "@/hooks/useTransactionManager";
 import { useSimulationManager } from "@/hooks/useSimulationManager";
+import { useBundleOperations } from "@/hooks/useBundleOperations";
+import { useAnchorIdls } from "@/hooks/useAnchorIdls";
+import { useSecurityPolicy } from "@/hooks/useSecurityPolicy";
+import { useProgramRegistry } from "@/hooks/useProgramRegistry";
+import { useJitoTip } from "@/hooks/useJitoTip";
+import { useBundleTracker } from "@/hooks/useBundleTracker";
+import { useBlockEngine } from "@/hooks/useBlockEngine";
 import { TransactionList } from "./bundle/TransactionList";
 import { StatusAlerts } from "./bundle/StatusAlerts";
 import { TransactionControls } from "./bundle/TransactionControls";
 import { SimulationActions } from "./bundle/SimulationActions";
+import { BundleSecuritySummary } from "./bundle/BundleSecuritySummary";
+import { JitoTipPanel } from "./bundle/JitoTipPanel";
+import { BundleHistory } from "./bundle/BundleHistory";
+import { ExecuteBundleDialog } from "./bundle/ExecuteBundleDialog";
 import { lighthouseService } from "@/services/lighthouseService";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Terminal, AlertTriangle, Info, Lightbulb, Shield, CheckCircle, XCircle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { BundleTransaction } from "@/types/transaction";
+import { AssertionOverrides } from "@/types/lighthouse";
+import { inheritTransactionId } from "@/utils/bundleStorage";
+import { TransactionInstruction } from "@solana/web3.js";
 
 const BundleSimulator = () => {
   const {
@@ -20,19 +35,55 @@ const BundleSimulator = () => {
     setTransactions,
     simulationResults,
     setSimulationResults,
+    assertionOverrides,
+    setAssertionOverrides,
+    indexedAssertionOverrides,
     loading,
     setLoading,
     simulationStatus,
     setSimulationStatus,
+    simulationStrategy,
+    setSimulationStrategy,
   } = useBundleState();
 
-  const { publicKey, connected } = useWallet();
-  const { addTransaction, addMaliciousTransaction } = useTransactionManager(publicKey);
+  const { publicKey, connected, signTransaction } = useWallet();
+  const {
+    addTransaction,
+    addMaliciousTransaction,
+    importTransactions,
+    importFromChain,
+    buildTransaction
+  } = useTransactionManager(publicKey);
   const { simulateBundle } = useSimulationManager();
+  const { executeBundle } = useBundleOperations();
+  const { idls, uploadIdl, fetchIdl } = useAnchorIdls();
+  const { policy, policies, selectPolicy, loadPolicy } = useSecurityPolicy();
+  const { programs, saveProgram, removeProgram } = useProgramRegistry();
+  const {
+    tips,
+    tipLamports,
+    setTipLamports,
+    addTip,
+    tipFloor,
+    loadingTipFloor,
+    refreshTipFloor
+  } = useJitoTip(transactions);
+  const { bundles, trackBundle, removeBundle, clearHistory, refreshBundles } = useBundleTracker();
+  const {
+    blockEngineSettings,
+    blockEngineRegions,
+    latencies,
+    probing,
+    updateBlockEngineSettings,
+    probeLatency
+  } = useBlockEngine();
   const [lighthouseStatus, setLighthouseStatus] = useState<boolean | null>(null);
   const [simulationDetails, setSimulationDetails] = useState<any>(null);
   const [showExecutableStatus, setShowExecutableStatus] = useState(false);
   const [isExecutable, setIsExecutable] = useState(false);
+  const [executionStatus, setExecutionStatus] = useState<SimulationStatus>('idle');
+  // Guarded transactions of the last successful simulation, which execution signs as they are
+  const [guardedTransactions, setGuardedTransactions] = useState<BundleTransaction[][]>([]);
 
   useEffect(() => {
     const checkLighthouse = async () => {
@@ -94,23 +145,107 @@ const BundleSimulator = () => {
     }
   }, [addMaliciousTransaction, setTransactions, setSimulationResults, setSimulationStatus]);
 
-  const handleSimulate = useCallback(async () => {
+  const handleImportTransactions = useCallback(async (input: string) => {
+    const imported = await importTransactions(input);
+    if (imported.length > 0) {
+      setTransactions(prev => [...prev, ...imported]);
+      setSimulationResults([]);
+      setSimulationStatus('idle');
+      setSimulationDetails(null);
+      setShowExecutableStatus(false);
+    }
+    return imported.length;
+  }, [importTransactions, setTransactions, setSimulationResults, setSimulationStatus]);
+
+  const handleBuildTransaction = useCallback((instructions: TransactionInstruction[]) => {
+    const newTransaction = buildTransaction(instructions);
+    if (!newTransaction) return false;
+
+    setTransactions(prev => [...prev, newTransaction]);
+    setSimulationResults([]);
+    setSimulationStatus('idle');
+    setSimulationDetails(null);
+    setShowExecutableStatus(false);
+    return true;
+  }, [buildTransaction, setTransactions, setSimulationResults, setSimulationStatus]);
+
+  // The tip is paid from the last transaction, which is replaced by its tipped copy
+  const handleAddTip = useCallback(async () => {
+    const tipped = await addTip();
+    if (!tipped) return;
+
+    setTransactions(prev => [...prev.slice(0, -1), inheritTransactionId(tipped, prev[prev.length - 1])]);
+    setSimulationResults([]);
+    setSimulationStatus('idle');
+    setSimulationDetails(null);
+    setShowExecutableStatus(false);
+  }, [addTip, setTransactions, setSimulationResults, setSimulationStatus]);
+
+  const runSimulation = useCallback(async (bundle: BundleTransaction[]) => {
     if (!publicKey) return;
     
     setShowExecutableStatus(false);
+    setExecutionStatus('idle');
+    setGuardedTransactions([]);
     
-    const { results, details } = await simulateBundle(
-      transactions,
+    const { results, details, guarded } = await simulateBundle(
+      bundle,
       publicKey.toString(),
       setLoading,
-      setSimulationStatus
+      setSimulationStatus,
+      indexedAssertionOverrides,
+      simulationStrategy
     );
     
     if (results) {
       setSimulationResults(results);
       setSimulationDetails(details);
+      setGuardedTransactions(guarded ?? []);
     }
-  }, [transactions, publicKey, setLoading, setSimulationStatus, simulateBundle, setSimulationResults]);
+  }, [publicKey, setLoading, setSimulationStatus, simulateBundle, setSimulationResults, indexedAssertionOverrides, simulationStrategy]);
+
+  // Edited assertions change what gets protected, so earlier results no longer apply
+  const handleAssertionOverridesChange = useCallback((transactionId: string, overrides: AssertionOverrides) => {
+    setAssertionOverrides(prev => ({ ...prev, [transactionId]: overrides }));
+    setSimulationStatus('idle');
+    setShowExecutableStatus(false);
+  }, [setAssertionOverrides, setSimulationStatus]);
+
+  const handleSimulate = useCallback(async () => {
+    await runSimulation(transactions);
+  }, [transactions, runSimulation]);
+
+  // Submitted transactions are signed for good, so executing again needs a fresh simulation
+  const handleExecute = useCallback(async () => {
+    if (!publicKey) return null;
+
+    const executed = await executeBundle(
+      guardedTransactions,
+      publicKey.toString(),
+      signTransaction,
+      setLoading,
+      setExecutionStatus
+    );
+    if (!executed) return null;
+
+    trackBundle(executed.bundleId, executed.signatures);
+    setGuardedTransactions([]);
+    setSimulationStatus('idle');
+    return executed.bundleId;
+  }, [publicKey, guardedTransactions, executeBundle, signTransaction, setLoading, trackBundle, setSimulationStatus]);
+
+  // Landed transactions are replayed straight away against current state
+  const handleImportFromChain = useCallback(async (input: string) => {
+    const imported = await importFromChain(input);
+    if (imported.length > 0) {
+      const nextTransactions = [...transactions, ...imported];
+      setTransactions(nextTransactions);
+      setSimulationResults([]);
+      setSimulationDetails(null);
+      await runSimulation(nextTransactions);
+    }
+    return imported.length;
+  }, [importFromChain, transactions, setTransactions, setSimulationResults, runSimulation]);
 
   return (
     <div className="container mx-auto p-4">
@@ -214,20 +349,74 @@ const BundleSimulator = () => {
                 transactions={transactions}
                 simulationResults={simulationResults}
                 lighthouseStatus={lighthouseStatus}
+                idls={idls}
+                walletAddress={publicKey?.toBase58()}
+                assertionOverrides={assertionOverrides}
+                onAssertionOverridesChange={handleAssertionOverridesChange}
+                disabled={loading || !connected}
               />
+              {transactions.length > 0 && (
+                <JitoTipPanel
+                  tips={tips}
+                  tipLamports={tipLamports}
+                  onTipLamportsChange={setTipLamports}
+                  onAddTip={handleAddTip}
+                  tipFloor={tipFloor}
+                  loadingTipFloor={loadingTipFloor}
+                  onRefreshTipFloor={() => refreshTipFloor(true)}
+                  disabled={loading || !connected}
+                />
+              )}
               <TransactionControls
                 onAddTransaction={handleAddTransaction}
                 onAddMaliciousTransaction={handleAddMaliciousTransaction}
+                onImportTransactions={handleImportTransactions}
+                onImportFromChain={handleImportFromChain}
+                onBuildTransaction={handleBuildTransaction}
+                idls={idls}
+                onUploadIdl={uploadIdl}
+                onFetchIdl={fetchIdl}
+                walletAddress={publicKey?.toBase58()}
+                securityPolicy={policy}
+                securityPolicies={policies}
+                onSelectSecurityPolicy={selectPolicy}
+                onLoadSecurityPolicy={loadPolicy}
+                programs={programs}
+                onSaveProgram={saveProgram}
+                onRemoveProgram={removeProgram}
+                blockEngineSettings={blockEngineSettings}
+                blockEngineRegions={blockEngineRegions}
+                latencies={latencies}
+                probing={probing}
+                onUpdateBlockEngineSettings={updateBlockEngineSettings}
+                onProbeLatency={probeLatency}
                 disabled={loading || !connected}
               />
             </div>
           </div>
 
+          <BundleSecuritySummary results={simulationResults} bundleReport={simulationDetails?.securityReport} />
+
           <SimulationActions
             onSimulate={handleSimulate}
             loading={loading}
             disabled={transactions.length === 0 || !connected}
             simulationStatus={simulationStatus}
+            strategy={simulationStrategy}
+            onStrategyChange={setSimulationStrategy}
+          />
+
+          <ExecuteBundleDialog
+            simulationResults={simulationResults}
+            bundleReport={simulationDetails?.securityReport}
+            estimatedFees={simulationDetails?.estimatedFees}
+            tips={tips}
+            walletAddress={publicKey?.toBase58()}
+            bundles={bundles}
+            executionStatus={executionStatus}
+            onExecute={handleExecute}
+            loading={loading}
+            disabled={loading || !connected || simulationStatus !== 'success' || !isExecutable || guardedTransactions.length === 0}
           />
           
           {simulationStatus === 'success' && simulationDetails && (
@@ -280,6 +469,14 @@ const BundleSimulator = () => {
               </div>
             </div>
           )}
+
+          <BundleHistory
+            bundles={bundles}
+            onTrackBundle={trackBundle}
+            onRemoveBundle={removeBundle}
+            onClearHistory={clearHistory}
+            onRefresh={refreshBundles}
+          />
         </div>
       </div>
     </div>
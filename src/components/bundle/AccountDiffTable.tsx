@@ -0,0 +1,124 @@
+import { ChevronDown } from "lucide-react";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMintDecimals } from "@/hooks/useMintDecimals";
+import { AccountDiff } from "@/types/simulation";
+import { summarizeTokenDeltas } from "@/utils/accountDiff";
+
+interface AccountDiffTableProps {
+  diffs: AccountDiff[];
+  walletAddress?: string;
+}
+
+const shorten = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+const deltaClass = (negative: boolean, zero: boolean) =>
+  zero ? 'text-white/40' : negative ? 'text-red-400' : 'text-green-400';
+
+const formatSol = (lamports: number) => {
+  const sol = lamports / LAMPORTS_PER_SOL;
+  return `${sol > 0 ? '+' : ''}${sol.toLocaleString(undefined, { maximumFractionDigits: 9 })} SOL`;
+};
+
+const formatTokenAmount = (amount: bigint, decimals?: number) => {
+  const sign = amount < BigInt(0) ? '-' : amount > BigInt(0) ? '+' : '';
+  const absolute = amount < BigInt(0) ? -amount : amount;
+  if (decimals === undefined || decimals === 0) return `${sign}${absolute.toString()}`;
+
+  const digits = absolute.toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, -decimals);
+  const fraction = digits.slice(-decimals).replace(/0+$/, '');
+  return `${sign}${whole}${fraction ? `.${fraction}` : ''}`;
+};
+
+export const AccountDiffTable = ({ diffs, walletAddress }: AccountDiffTableProps) => {
+  const mintDecimals = useMintDecimals(diffs.flatMap(diff => diff.token ? [diff.token.mint] : []));
+  const tokenChanges = summarizeTokenDeltas(diffs);
+
+  const label = (address: string) =>
+    address === walletAddress ? <Badge variant="outline" className="text-[10px] h-4 ml-1">you</Badge> : null;
+
+  return (
+    <Collapsible defaultOpen>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-white/50 hover:text-white/80">
+        <ChevronDown className="h-3 w-3" />
+        {diffs.length} account{diffs.length === 1 ? '' : 's'} changed
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-1 space-y-2">
+        <Table className="text-[10px] font-mono">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-6">Account</TableHead>
+              <TableHead className="h-6">SOL</TableHead>
+              <TableHead className="h-6">Token</TableHead>
+              <TableHead className="h-6">Changes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {diffs.map(diff => {
+              const token = diff.token;
+              const notes: string[] = [];
+              if (diff.ownerBefore !== diff.ownerAfter) {
+                notes.push(`program owner ${shorten(diff.ownerBefore)} → ${shorten(diff.ownerAfter)}`);
+              }
+              if (diff.dataLengthBefore !== diff.dataLengthAfter) {
+                notes.push(`data ${diff.dataLengthBefore} → ${diff.dataLengthAfter} bytes`);
+              }
+              if (token && token.ownerBefore !== token.ownerAfter) {
+                notes.push(`token owner ${shorten(token.ownerBefore)} → ${shorten(token.ownerAfter)}`);
+              }
+              if (token && (token.delegateBefore !== token.delegateAfter ||
+                  token.delegatedAmountBefore !== token.delegatedAmountAfter)) {
+                notes.push(token.delegateAfter
+                  ? `delegate ${shorten(token.delegateAfter)} (${formatTokenAmount(token.delegatedAmountAfter, mintDecimals[token.mint]).replace('+', '')})`
+                  : 'delegate revoked');
+              }
+
+              return (
+                <TableRow key={diff.address}>
+                  <TableCell className="py-1">
+                    <span title={diff.address}>{shorten(diff.address)}</span>
+                    {label(diff.address)}
+                    {token && label(token.ownerAfter)}
+                  </TableCell>
+                  <TableCell className={`py-1 ${deltaClass(diff.lamportsDelta < 0, diff.lamportsDelta === 0)}`}>
+                    {diff.lamportsDelta === 0 ? '—' : formatSol(diff.lamportsDelta)}
+                  </TableCell>
+                  <TableCell className="py-1">
+                    {token ? (
+                      <span className={deltaClass(token.amountDelta < BigInt(0), token.amountDelta === BigInt(0))}>
+                        {token.amountDelta === BigInt(0) ? '—' : formatTokenAmount(token.amountDelta, mintDecimals[token.mint])}
+                        <span className="text-white/40"> {shorten(token.mint)}</span>
+                      </span>
+                    ) : '—'}
+                  </TableCell>
+                  <TableCell className="py-1 text-amber-300">
+                    {notes.join(', ')}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {tokenChanges.length > 0 && (
+          <div className="space-y-0.5 font-mono text-[10px]">
+            <div className="text-white/50">Net token balance changes</div>
+            {tokenChanges.map(change => (
+              <div key={`${change.mint}:${change.owner}`} className="flex gap-2">
+                <span className={deltaClass(change.delta < BigInt(0), false)}>
+                  {formatTokenAmount(change.delta, mintDecimals[change.mint])}
+                </span>
+                <span className="text-white/40">mint {shorten(change.mint)}</span>
+                <span className="text-white/40">owner {shorten(change.owner)}</span>
+                {label(change.owner)}
+              </div>
+            ))}
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,309 @@
+import { useMemo, useState } from "react";
+import { ChevronDown, Plus, RefreshCw, RotateCcw, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { lighthouseService } from "@/services/lighthouseService";
+import { AssertionCheck, AssertionField, AssertionOperator, AssertionOverrides, AssertionPlacement } from "@/types/lighthouse";
+import { BundlePostState } from "@/types/simulation";
+import { BundleTransaction } from "@/types/transaction";
+import {
+  applyAssertionOverrides,
+  isIntegerField,
+  validateAssertionCheck
+} from "@/integrations/lighthouse/assertions";
+
+interface AssertionEditorProps {
+  transaction: BundleTransaction;
+  // The transaction's result in the last bundle simulation, previews pin that instead of a lone run
+  bundleState?: BundlePostState;
+  // Where the last simulation put the assertions, unknown until the bundle is simulated
+  placement?: AssertionPlacement;
+  overrides?: AssertionOverrides;
+  onChange: (overrides: AssertionOverrides) => void;
+  disabled?: boolean;
+}
+
+const FIELD_LABELS: Record<AssertionField, string> = {
+  lamports: 'Lamports',
+  dataLength: 'Data length',
+  owner: 'Program owner',
+  dataHash: 'Data hash',
+  tokenAmount: 'Token amount',
+  tokenOwner: 'Token owner',
+  tokenDelegate: 'Token delegate'
+};
+
+const OPERATOR_LABELS: Record<AssertionOperator, string> = {
+  eq: '==',
+  ne: '!=',
+  gt: '>',
+  lt: '<',
+  gte: '>=',
+  lte: '<=',
+  within: '± %'
+};
+
+// Data hashes need the hashed length as well, so they can only come from simulation
+const CUSTOM_FIELDS: AssertionField[] = ['lamports', 'dataLength', 'owner', 'tokenAmount', 'tokenOwner', 'tokenDelegate'];
+
+const operatorsFor = (field: AssertionField): AssertionOperator[] => {
+  if (isIntegerField(field)) return ['eq', 'ne', 'gt', 'lt', 'gte', 'lte', 'within'];
+  return field === 'dataHash' ? ['eq'] : ['eq', 'ne'];
+};
+
+const shorten = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+const EMPTY_OVERRIDES: AssertionOverrides = { checks: [], removed: [] };
+
+const PLACEMENT_LABELS: Record<AssertionPlacement, { label: string; title: string; className: string }> = {
+  inline: {
+    label: 'inline',
+    title: 'Assertions were appended to this transaction',
+    className: 'text-green-400 border-green-800'
+  },
+  separate: {
+    label: 'separate transaction',
+    title: 'Assertions did not fit and run in their own transaction right after this one',
+    className: 'text-amber-400 border-amber-800'
+  },
+  none: {
+    label: 'unguarded',
+    title: 'No assertions were added to the simulated bundle for this transaction',
+    className: 'text-red-400 border-red-800'
+  },
+};
+
+export const AssertionEditor = ({
+  transaction,
+  bundleState,
+  placement,
+  overrides = EMPTY_OVERRIDES,
+  onChange,
+  disabled
+}: AssertionEditorProps) => {
+  const { toast } = useToast();
+  const [generated, setGenerated] = useState<AssertionCheck[] | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [draft, setDraft] = useState<Omit<AssertionCheck, 'id' | 'source'>>({
+    account: '',
+    field: 'tokenAmount',
+    operator: 'gte',
+    value: ''
+  });
+
+  const checks = useMemo(
+    () => applyAssertionOverrides(generated ?? [], overrides),
+    [generated, overrides]
+  );
+  const editedIds = new Set(overrides.checks.map(check => check.id));
+  const draftError = draft.account || draft.value
+    ? validateAssertionCheck({ ...draft, id: '', source: 'custom' })
+    : null;
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const previews = await lighthouseService.previewAssertions(transaction, undefined, bundleState);
+      setGenerated(previews);
+    } catch (error) {
+      console.error("Error generating assertions:", error);
+      toast({
+        title: "Could not generate assertions",
+        description: error instanceof Error ? error.message : "Simulation failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const updateCheck = (check: AssertionCheck) => {
+    onChange({
+      ...overrides,
+      checks: [...overrides.checks.filter(existing => existing.id !== check.id), check]
+    });
+  };
+
+  const removeCheck = (check: AssertionCheck) => {
+    onChange({
+      checks: overrides.checks.filter(existing => existing.id !== check.id),
+      removed: check.source === 'auto' ? [...overrides.removed, check.id] : overrides.removed
+    });
+  };
+
+  const addCustomCheck = () => {
+    const check: AssertionCheck = {
+      ...draft,
+      id: `custom:${draft.account}:${draft.field}:${Date.now()}`,
+      source: 'custom'
+    };
+    if (validateAssertionCheck(check)) return;
+    onChange({ ...overrides, checks: [...overrides.checks, check] });
+    setDraft({ ...draft, value: '' });
+  };
+
+  const changeOperator = (check: AssertionCheck, operator: AssertionOperator) =>
+    updateCheck({ ...check, operator, tolerance: operator === 'within' ? check.tolerance ?? 1 : undefined });
+
+  const editCount = overrides.checks.length + overrides.removed.length;
+
+  return (
+    <Collapsible>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-white/50 hover:text-white/80">
+        <ChevronDown className="h-3 w-3" />
+        Lighthouse assertions
+        {generated && ` (${checks.length})`}
+        {editCount > 0 && (
+          <Badge variant="outline" className="text-[10px] h-4 ml-1">{editCount} edited</Badge>
+        )}
+        {placement && (
+          <Badge
+            variant="outline"
+            className={`text-[10px] h-4 ml-1 ${PLACEMENT_LABELS[placement].className}`}
+            title={PLACEMENT_LABELS[placement].title}
+          >
+            {PLACEMENT_LABELS[placement].label}
+          </Badge>
+        )}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-1 space-y-2 text-[10px]">
+        <div className="flex gap-2">
+          <Button size="sm" variant="ghost" className="h-6 px-2 text-[10px]" onClick={handleGenerate} disabled={disabled || isGenerating}>
+            <RefreshCw className={`h-3 w-3 mr-1 ${isGenerating ? 'animate-spin' : ''}`} />
+            {generated ? 'Regenerate from simulation' : 'Generate from simulation'}
+          </Button>
+          {editCount > 0 && (
+            <Button size="sm" variant="ghost" className="h-6 px-2 text-[10px]" onClick={() => onChange(EMPTY_OVERRIDES)} disabled={disabled}>
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Reset edits
+            </Button>
+          )}
+        </div>
+
+        {!generated && (
+          <div className="text-white/40">
+            Generated assertions pin each writable account to its simulated post-state. Edits below are applied when the bundle is protected.
+          </div>
+        )}
+
+        {checks.map(check => {
+          const error = validateAssertionCheck(check);
+          return (
+            <div key={check.id} className="space-y-0.5">
+              <div className="flex items-center gap-2 font-mono">
+                <span className="w-20 shrink-0 text-white/70" title={check.account}>{shorten(check.account)}</span>
+                <span className="w-24 shrink-0 text-white/50">{FIELD_LABELS[check.field]}</span>
+                <Select
+                  value={check.operator}
+                  onValueChange={value => changeOperator(check, value as AssertionOperator)}
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="w-20 h-6 text-[10px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {operatorsFor(check.field).map(operator => (
+                      <SelectItem key={operator} value={operator}>{OPERATOR_LABELS[operator]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="h-6 text-[10px] font-mono"
+                  value={check.value}
+                  placeholder={check.field === 'tokenDelegate' ? 'none' : undefined}
+                  onChange={event => updateCheck({ ...check, value: event.target.value.trim() })}
+                  disabled={disabled || check.field === 'dataHash'}
+                />
+                {check.operator === 'within' && (
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    className="w-16 h-6 text-[10px] font-mono"
+                    value={check.tolerance ?? 0}
+                    onChange={event => updateCheck({ ...check, tolerance: Number(event.target.value) })}
+                    disabled={disabled}
+                  />
+                )}
+                {check.source === 'custom' ? (
+                  <Badge variant="outline" className="text-[10px] h-4">custom</Badge>
+                ) : editedIds.has(check.id) && (
+                  <Badge variant="outline" className="text-[10px] h-4 text-amber-300">edited</Badge>
+                )}
+                <Button size="icon" variant="ghost" className="h-6 w-6 shrink-0" onClick={() => removeCheck(check)} disabled={disabled}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+              {error && <div className="text-red-400">{error}</div>}
+            </div>
+          );
+        })}
+
+        <div className="flex items-center gap-2 pt-1 border-t border-white/10">
+          <Input
+            className="h-6 text-[10px] font-mono"
+            placeholder="Account address"
+            value={draft.account}
+            onChange={event => setDraft({ ...draft, account: event.target.value.trim() })}
+            disabled={disabled}
+          />
+          <Select
+            value={draft.field}
+            onValueChange={value => {
+              const field = value as AssertionField;
+              setDraft({ ...draft, field, operator: operatorsFor(field).includes(draft.operator) ? draft.operator : 'eq' });
+            }}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-32 h-6 text-[10px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CUSTOM_FIELDS.map(field => (
+                <SelectItem key={field} value={field}>{FIELD_LABELS[field]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={draft.operator}
+            onValueChange={value => {
+              const operator = value as AssertionOperator;
+              setDraft({ ...draft, operator, tolerance: operator === 'within' ? 1 : undefined });
+            }}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-20 h-6 text-[10px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {operatorsFor(draft.field).map(operator => (
+                <SelectItem key={operator} value={operator}>{OPERATOR_LABELS[operator]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            className="h-6 text-[10px] font-mono"
+            placeholder={isIntegerField(draft.field) ? 'Value' : 'Address'}
+            value={draft.value}
+            onChange={event => setDraft({ ...draft, value: event.target.value.trim() })}
+            disabled={disabled}
+          />
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6 shrink-0"
+            onClick={addCustomCheck}
+            disabled={disabled || !draft.account || draftError !== null}
+          >
+            <Plus className="h-3 w-3" />
+          </Button>
+        </div>
+        {draftError && <div className="text-red-400">{draftError}</div>}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
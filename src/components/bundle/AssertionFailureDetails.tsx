@@ -0,0 +1,99 @@
+import { ShieldAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AssertionCheck, AssertionField, AssertionOperator } from "@/types/lighthouse";
+import { AssertionFailure } from "@/types/simulation";
+
+interface AssertionFailureDetailsProps {
+  failure: AssertionFailure;
+}
+
+const FIELD_LABELS: Record<AssertionField, string> = {
+  lamports: 'Lamports',
+  dataLength: 'Data length',
+  owner: 'Program owner',
+  dataHash: 'Data hash',
+  tokenAmount: 'Token amount',
+  tokenOwner: 'Token owner',
+  tokenDelegate: 'Token delegate'
+};
+
+const OPERATOR_LABELS: Record<AssertionOperator, string> = {
+  eq: '==',
+  ne: '!=',
+  gt: '>',
+  lt: '<',
+  gte: '>=',
+  lte: '<=',
+  within: '±'
+};
+
+const shorten = (value: string) => value.length > 12 ? `${value.slice(0, 4)}...${value.slice(-4)}` : value;
+
+const formatValue = (check: AssertionCheck, value: string) =>
+  check.field === 'tokenDelegate' && value === '' ? 'none' : shorten(value);
+
+const formatExpected = (check: AssertionCheck) =>
+  check.operator === 'within'
+    ? `${formatValue(check, check.value)} ± ${check.tolerance ?? 0}%`
+    : `${OPERATOR_LABELS[check.operator]} ${formatValue(check, check.value)}`;
+
+export const AssertionFailureDetails = ({ failure }: AssertionFailureDetailsProps) => (
+  <div className="space-y-2 rounded border border-red-900/50 bg-red-950/20 p-2 text-[10px]">
+    <div className="flex items-center gap-2 text-xs text-red-400">
+      <ShieldAlert className="h-3 w-3" />
+      Lighthouse assertion failed
+      <Badge variant="outline" className="text-[10px] h-4 border-red-800 text-red-300">
+        {failure.errorName} ({failure.errorCode})
+      </Badge>
+    </div>
+    <div className="text-white/60">
+      Instruction {failure.instructionIndex}
+      {failure.account && (
+        <> on <span className="font-mono" title={failure.account}>{shorten(failure.account)}</span></>
+      )}
+    </div>
+    {failure.reason && <div className="text-amber-300">{failure.reason}</div>}
+
+    {failure.checks.length > 0 && (
+      <Table className="text-[10px] font-mono">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="h-6">Check</TableHead>
+            <TableHead className="h-6">Expected</TableHead>
+            <TableHead className="h-6">Actual</TableHead>
+            <TableHead className="h-6">Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {failure.checks.map(({ check, actual, passed }) => (
+            <TableRow key={check.id}>
+              <TableCell className="py-1">{FIELD_LABELS[check.field]}</TableCell>
+              <TableCell className="py-1" title={check.value}>{formatExpected(check)}</TableCell>
+              <TableCell className="py-1" title={actual}>
+                {actual === undefined ? <span className="text-white/40">unknown</span> : formatValue(check, actual)}
+              </TableCell>
+              <TableCell className={`py-1 ${passed === undefined ? 'text-white/40' : passed ? 'text-green-400' : 'text-red-400'}`}>
+                {passed === undefined ? '—' : passed ? 'passed' : 'failed'}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    )}
+    {failure.checks.length > 0 && failure.checks.every(outcome => outcome.actual === undefined) && (
+      <div className="text-white/40">
+        The account state at the time of the assertion isn't known, see the Lighthouse output for actual values.
+      </div>
+    )}
+
+    {failure.logs.length > 0 && (
+      <div className="space-y-0.5 font-mono">
+        <div className="text-white/50">Lighthouse output</div>
+        {failure.logs.map((line, lineIndex) => (
+          <div key={lineIndex} className="break-all text-white/70">{line}</div>
+        ))}
+      </div>
+    )}
+  </div>
+);
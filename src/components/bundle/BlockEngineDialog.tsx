@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { Globe, Loader2, Radar } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CUSTOM_REGION_ID } from "@/config/jito";
+import { BlockEngineRegion, BlockEngineSettings, RegionLatency } from "@/types/jito";
+
+interface BlockEngineDialogProps {
+  settings: BlockEngineSettings;
+  regions: BlockEngineRegion[];
+  latencies: RegionLatency[];
+  probing: boolean;
+  onUpdateSettings: (changes: Partial<BlockEngineSettings>) => boolean;
+  onProbeLatency: () => void;
+  disabled: boolean;
+}
+
+export const BlockEngineDialog = ({
+  settings,
+  regions,
+  latencies,
+  probing,
+  onUpdateSettings,
+  onProbeLatency,
+  disabled
+}: BlockEngineDialogProps) => {
+  const [customUrl, setCustomUrl] = useState(settings.customUrl);
+  // Custom is only applied once a URL is entered
+  const [editingCustom, setEditingCustom] = useState(false);
+
+  const pinned = regions.find(region => region.id === settings.regionId);
+  const label = settings.mode === 'fastest' ? 'Fastest' : pinned?.name ?? settings.regionId;
+
+  const handleRegionChange = (regionId: string) => {
+    if (regionId === CUSTOM_REGION_ID && !settings.customUrl) {
+      setEditingCustom(true);
+      return;
+    }
+    setEditingCustom(false);
+    onUpdateSettings({ regionId });
+  };
+
+  const handleUseCustomUrl = () => {
+    if (onUpdateSettings({ regionId: CUSTOM_REGION_ID, customUrl })) {
+      setEditingCustom(false);
+    }
+  };
+
+  const regionValue = editingCustom ? CUSTOM_REGION_ID : settings.regionId;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex-1" disabled={disabled}>
+          <Globe className="mr-2 h-4 w-4" />
+          Block Engine: {label}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Block Engine</DialogTitle>
+          <DialogDescription>
+            Where bundles, tips and status lookups are sent. Pin a region next to your bots, or let requests go to the
+            region that answered the latency probe fastest.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Selection</Label>
+            <Select
+              value={settings.mode}
+              onValueChange={value => onUpdateSettings({ mode: value as BlockEngineSettings['mode'] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fastest">Fastest by latency</SelectItem>
+                <SelectItem value="pinned">Pinned region</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Pinned region</Label>
+            <Select value={regionValue} onValueChange={handleRegionChange} disabled={settings.mode !== 'pinned'}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {regions.filter(region => region.id !== CUSTOM_REGION_ID).map(region => (
+                  <SelectItem key={region.id} value={region.id}>{region.name}</SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_REGION_ID}>Custom URL</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {settings.mode === 'pinned' && regionValue === CUSTOM_REGION_ID && (
+          <div className="flex items-center gap-2">
+            <Input
+              className="h-8 font-mono text-xs"
+              placeholder="https://ny.mainnet.block-engine.jito.wtf"
+              value={customUrl}
+              onChange={event => setCustomUrl(event.target.value)}
+            />
+            <Button size="sm" variant="outline" onClick={handleUseCustomUrl} disabled={!customUrl.trim()}>
+              Use URL
+            </Button>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="block-engine-failover"
+            checked={settings.failover}
+            onCheckedChange={failover => onUpdateSettings({ failover })}
+          />
+          <Label htmlFor="block-engine-failover" className="text-xs">
+            Fail over to the next region when one errors or rate-limits
+          </Label>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center">
+            <h3 className="text-sm">Latency</h3>
+            <Button size="sm" variant="outline" className="ml-auto" onClick={onProbeLatency} disabled={probing}>
+              {probing ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Radar className="mr-1 h-3 w-3" />}
+              Probe regions
+            </Button>
+          </div>
+          <Table className="text-xs">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Region</TableHead>
+                <TableHead>URL</TableHead>
+                <TableHead className="text-right">Latency</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {regions.map(region => {
+                const latency = latencies.find(entry => entry.regionId === region.id);
+                return (
+                  <TableRow key={region.id}>
+                    <TableCell className="py-1">{region.name}</TableCell>
+                    <TableCell className="py-1 font-mono text-[10px] text-muted-foreground">{region.url}</TableCell>
+                    <TableCell className="py-1 text-right font-mono">
+                      {!latency && <span className="text-muted-foreground">-</span>}
+                      {latency?.latencyMs != null && `${latency.latencyMs} ms`}
+                      {latency && latency.latencyMs === null && (
+                        <span className="text-red-400" title={latency.error}>unreachable</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
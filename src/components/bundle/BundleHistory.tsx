@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { History, Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { TrackedBundle, TrackedBundleStatus } from "@/types/jito";
+
+interface BundleHistoryProps {
+  bundles: TrackedBundle[];
+  onTrackBundle: (bundleId: string) => boolean;
+  onRemoveBundle: (bundleId: string) => void;
+  onClearHistory: () => void;
+  onRefresh: () => void;
+}
+
+const STATUS_CLASSES: Record<TrackedBundleStatus, string> = {
+  Pending: 'bg-blue-900/20 text-blue-300 border-blue-800',
+  Landed: 'bg-green-900/20 text-green-400 border-green-800',
+  Failed: 'bg-red-900/20 text-red-400 border-red-800',
+  Invalid: 'bg-gray-800 text-gray-400 border-gray-700',
+};
+
+const shorten = (value: string) => `${value.slice(0, 8)}...${value.slice(-8)}`;
+
+// Submitted bundles and what the block engine reported for them, newest first
+export const BundleHistory = ({ bundles, onTrackBundle, onRemoveBundle, onClearHistory, onRefresh }: BundleHistoryProps) => {
+  const [bundleId, setBundleId] = useState('');
+
+  const handleTrack = () => {
+    if (onTrackBundle(bundleId)) setBundleId('');
+  };
+
+  return (
+    <div className="bg-black/50 p-4 rounded-md space-y-3">
+      <div className="flex items-center gap-2">
+        <History className="h-4 w-4 text-secondary" />
+        <h2 className="text-secondary font-mono">Bundle History</h2>
+        <Button size="icon" variant="ghost" className="ml-auto h-7 w-7" title="Refresh statuses" onClick={onRefresh}>
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+        {bundles.length > 0 && (
+          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={onClearHistory}>
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {bundles.length === 0 ? (
+        <p className="text-xs text-white/50">No bundles submitted yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {bundles.map(bundle => (
+            <div key={bundle.bundleId} className="border border-white/10 rounded-md p-2 text-xs space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline" className={STATUS_CLASSES[bundle.status]}>
+                  {bundle.status === 'Pending' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                  {bundle.status}
+                </Badge>
+                <span className="font-mono" title={bundle.bundleId}>{shorten(bundle.bundleId)}</span>
+                {bundle.slot !== undefined && <span className="text-white/50">slot {bundle.slot}</span>}
+                {bundle.confirmationStatus && <span className="text-white/50">{bundle.confirmationStatus}</span>}
+                <span className="ml-auto text-white/40">{new Date(bundle.submittedAt).toLocaleString()}</span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  title="Remove from history"
+                  onClick={() => onRemoveBundle(bundle.bundleId)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+              {bundle.error && <p className="text-red-400 break-all">{bundle.error}</p>}
+              {bundle.transactions.length > 0 && (
+                <div className="flex flex-wrap gap-2 text-[10px] text-white/50">
+                  {bundle.transactions.map((signature, index) => (
+                    <span key={signature} className="font-mono" title={signature}>
+                      {index + 1}. {shorten(signature)}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Input
+          className="h-8 font-mono text-xs"
+          placeholder="Track a bundle ID submitted elsewhere"
+          value={bundleId}
+          onChange={event => setBundleId(event.target.value)}
+        />
+        <Button size="sm" variant="outline" onClick={handleTrack} disabled={!bundleId.trim()}>
+          <Plus className="mr-1 h-3 w-3" />
+          Track
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import { ShieldAlert } from "lucide-react";
+import { SimulationResult } from "@/types/simulation";
+import { SecurityReport, SecuritySeverity } from "@/types/security";
+import { SecurityFindingRow, SeverityBadge } from "./SecurityFindings";
+
+interface BundleSecuritySummaryProps {
+  results: SimulationResult[];
+  // Findings of the bundle-wide rules, e.g. wallet outflow
+  bundleReport?: SecurityReport;
+}
+
+const SEVERITIES: SecuritySeverity[] = ['high', 'medium', 'low'];
+
+// Every finding across the bundle in one place, so all of them can be fixed before simulating again
+export const BundleSecuritySummary = ({ results, bundleReport }: BundleSecuritySummaryProps) => {
+  const findings = [
+    ...results.flatMap((result, index) =>
+      (result?.securityReport?.findings ?? []).map(finding => ({ finding, transactionIndex: index }))
+    ),
+    ...(bundleReport?.findings ?? []).map(finding => ({ finding, transactionIndex: finding.transactionIndex }))
+  ];
+  if (findings.length === 0) return null;
+
+  const blocking = findings.filter(({ finding }) => finding.blocking);
+  const policyId = bundleReport?.policyId ?? results.find(result => result?.securityReport)?.securityReport?.policyId;
+
+  return (
+    <div className="bg-black/50 p-4 rounded-md space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <ShieldAlert className={`h-4 w-4 ${blocking.length > 0 ? 'text-red-400' : 'text-amber-300'}`} />
+        <h2 className="text-secondary font-mono">Security Report</h2>
+        {SEVERITIES.map(severity => {
+          const count = findings.filter(({ finding }) => finding.severity === severity).length;
+          return count > 0 && (
+            <SeverityBadge key={severity} severity={severity}>
+              {count} {severity}
+            </SeverityBadge>
+          );
+        })}
+        {policyId && <span className="text-xs text-white/40">policy {policyId}</span>}
+      </div>
+      <p className="text-xs text-white/50">
+        {blocking.length > 0
+          ? `${blocking.length} finding${blocking.length === 1 ? '' : 's'} block the bundle under the active policy.`
+          : 'No finding blocks the bundle under the active policy.'}
+      </p>
+      <div className="space-y-1 text-[10px]">
+        {[...blocking, ...findings.filter(({ finding }) => !finding.blocking)].map(({ finding, transactionIndex }, index) => (
+          <SecurityFindingRow
+            key={index}
+            finding={finding}
+            prefix={transactionIndex === undefined ? 'Bundle' : `Transaction ${transactionIndex + 1}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { Loader2, Send } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useMintDecimals } from "@/hooks/useMintDecimals";
+import { SimulationStatus } from "@/hooks/useBundleState";
+import { TrackedBundle } from "@/types/jito";
+import { SecurityFinding, SecurityReport, SecuritySeverity } from "@/types/security";
+import { SimulationResult } from "@/types/simulation";
+import { summarizeTokenDeltas } from "@/utils/accountDiff";
+import { TipTransfer } from "@/utils/jitoTips";
+
+interface ExecuteBundleDialogProps {
+  simulationResults: SimulationResult[];
+  bundleReport?: SecurityReport;
+  // SOL, as estimated by the last simulation
+  estimatedFees?: string;
+  tips: TipTransfer[];
+  walletAddress?: string;
+  bundles: TrackedBundle[];
+  executionStatus: SimulationStatus;
+  // Resolves to the submitted bundle's ID, or null when submission failed
+  onExecute: () => Promise<string | null>;
+  loading: boolean;
+  disabled: boolean;
+}
+
+const SEVERITY_CLASSES: Record<SecuritySeverity, string> = {
+  low: 'bg-blue-900/20 text-blue-300 border-blue-800',
+  medium: 'bg-amber-900/20 text-amber-400 border-amber-800',
+  high: 'bg-red-900/20 text-red-400 border-red-800',
+};
+
+const shorten = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+const deltaClass = (negative: boolean) => negative ? 'text-red-400' : 'text-green-400';
+
+const formatSol = (lamports: number | bigint) => {
+  const sol = Number(lamports) / LAMPORTS_PER_SOL;
+  return `${sol > 0 ? '+' : ''}${sol.toLocaleString(undefined, { maximumFractionDigits: 9 })} SOL`;
+};
+
+const formatTokenAmount = (amount: bigint, decimals?: number) => {
+  const sign = amount < BigInt(0) ? '-' : '+';
+  const absolute = amount < BigInt(0) ? -amount : amount;
+  if (decimals === undefined || decimals === 0) return `${sign}${absolute.toString()}`;
+
+  const digits = absolute.toString().padStart(decimals + 1, '0');
+  const fraction = digits.slice(-decimals).replace(/0+$/, '');
+  return `${sign}${digits.slice(0, -decimals)}${fraction ? `.${fraction}` : ''}`;
+};
+
+// Last chance to review what the bundle does before it is signed and sent to the block engine
+export const ExecuteBundleDialog = ({
+  simulationResults,
+  bundleReport,
+  estimatedFees,
+  tips,
+  walletAddress,
+  bundles,
+  executionStatus,
+  onExecute,
+  loading,
+  disabled
+}: ExecuteBundleDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [bundleId, setBundleId] = useState<string | null>(null);
+
+  const diffs = simulationResults.flatMap(result => result.accountDiffs ?? []);
+  const solDelta = diffs
+    .filter(diff => diff.address === walletAddress)
+    .reduce((total, diff) => total + diff.lamportsDelta, 0);
+  const tokenChanges = summarizeTokenDeltas(diffs).filter(change => change.owner === walletAddress);
+  const mintDecimals = useMintDecimals(tokenChanges.map(change => change.mint));
+  const totalTip = tips.reduce((total, tip) => total + tip.lamports, BigInt(0));
+
+  const findings: { label: string; finding: SecurityFinding }[] = [
+    ...(bundleReport?.findings ?? []).map(finding => ({
+      label: finding.transactionIndex !== undefined ? `Transaction ${finding.transactionIndex + 1}` : 'Bundle',
+      finding
+    })),
+    ...simulationResults.flatMap((result, index) =>
+      (result.securityReport?.findings ?? []).map(finding => ({ label: `Transaction ${index + 1}`, finding }))
+    )
+  ];
+
+  const submitted = bundleId ? bundles.find(bundle => bundle.bundleId === bundleId) : undefined;
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Keep the dialog up while the wallet is signing
+    if (loading) return;
+    setOpen(nextOpen);
+    if (nextOpen) setBundleId(null);
+  };
+
+  const handleExecute = async () => {
+    setBundleId(await onExecute());
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button className="w-full" variant="secondary" disabled={disabled}>
+          <Send className="mr-2 h-4 w-4" />
+          Execute Bundle
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Execute Bundle</DialogTitle>
+          <DialogDescription>
+            The simulated transactions, assertions included, are signed by your wallet, simulated and checked against
+            the security policy once more, then submitted to Jito. Nothing below can be undone once the bundle lands.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 text-xs">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="rounded-md border border-white/10 p-2">
+              <p className="text-white/50">Transactions</p>
+              <p className="font-mono">{simulationResults.length}</p>
+            </div>
+            <div className="rounded-md border border-white/10 p-2">
+              <p className="text-white/50">Estimated fees</p>
+              <p className="font-mono">{estimatedFees ?? '-'} SOL</p>
+            </div>
+            <div className="rounded-md border border-white/10 p-2">
+              <p className="text-white/50">Jito tip</p>
+              <p className={`font-mono ${totalTip === BigInt(0) ? 'text-amber-400' : ''}`}>
+                {totalTip === BigInt(0) ? 'None' : formatSol(totalTip).replace('+', '')}
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <h3 className="text-sm">Net balance changes</h3>
+            <div className="flex justify-between font-mono">
+              <span>SOL</span>
+              <span className={deltaClass(solDelta < 0)}>{formatSol(solDelta)}</span>
+            </div>
+            {tokenChanges.map(change => (
+              <div key={change.mint} className="flex justify-between font-mono">
+                <span title={change.mint}>{shorten(change.mint)}</span>
+                <span className={deltaClass(change.delta < BigInt(0))}>
+                  {formatTokenAmount(change.delta, mintDecimals[change.mint])}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <h3 className="text-sm">Security findings</h3>
+            {findings.length === 0 ? (
+              <p className="text-white/50">The active policy raised no findings.</p>
+            ) : (
+              findings.map(({ label, finding }, index) => (
+                <div key={`${label}-${finding.ruleId}-${index}`} className="flex items-start gap-2">
+                  <Badge variant="outline" className={SEVERITY_CLASSES[finding.severity]}>{finding.severity}</Badge>
+                  <span className="text-white/50 whitespace-nowrap">{label}</span>
+                  <span>{finding.message}</span>
+                </div>
+              ))
+            )}
+          </div>
+
+          {bundleId && (
+            <div className="rounded-md border border-white/10 p-2 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-white/50">Bundle</span>
+                <span className="font-mono" title={bundleId}>{shorten(bundleId)}</span>
+                <Badge variant="outline" className="ml-auto">
+                  {submitted?.status === 'Pending' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                  {submitted?.status ?? 'Pending'}
+                </Badge>
+              </div>
+              {submitted?.slot !== undefined && (
+                <p className="text-white/50">
+                  Slot {submitted.slot}{submitted.confirmationStatus ? `, ${submitted.confirmationStatus}` : ''}
+                </p>
+              )}
+              {submitted?.error && <p className="text-red-400 break-all">{submitted.error}</p>}
+            </div>
+          )}
+          {!bundleId && executionStatus === 'failed' && (
+            <p className="text-red-400">Submission failed. Simulate the bundle again before retrying.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          {bundleId ? (
+            <Button variant="outline" onClick={() => setOpen(false)}>Close</Button>
+          ) : (
+            <Button onClick={handleExecute} disabled={loading || executionStatus === 'failed'}>
+              {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              Sign and Submit
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
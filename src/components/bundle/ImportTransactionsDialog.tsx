@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+type ImportSource = 'serialized' | 'onchain';
+
+interface ImportTransactionsDialogProps {
+  onImport: (input: string) => Promise<number>;
+  onImportFromChain: (input: string) => Promise<number>;
+  disabled: boolean;
+}
+
+export const ImportTransactionsDialog = ({ onImport, onImportFromChain, disabled }: ImportTransactionsDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState<ImportSource>('serialized');
+  const [inputs, setInputs] = useState<Record<ImportSource, string>>({ serialized: "", onchain: "" });
+  const [importing, setImporting] = useState(false);
+
+  const input = inputs[source];
+  const setInput = (value: string) => setInputs(prev => ({ ...prev, [source]: value }));
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const importedCount = source === 'serialized'
+        ? await onImport(input)
+        : await onImportFromChain(input);
+      if (importedCount > 0) {
+        setInput("");
+        setOpen(false);
+      }
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex-1" disabled={disabled}>
+          <Upload className="mr-2 h-4 w-4" />
+          Import Transactions
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+          <DialogDescription>
+            Add transactions from serialized payloads or replay transactions that already landed on chain.
+          </DialogDescription>
+        </DialogHeader>
+        <Tabs value={source} onValueChange={(value) => setSource(value as ImportSource)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="serialized">Serialized</TabsTrigger>
+            <TabsTrigger value="onchain">Signature / Bundle ID</TabsTrigger>
+          </TabsList>
+          <TabsContent value="serialized" className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Base64 or base58, one per line. Legacy and v0 transactions are supported.
+            </p>
+            <Textarea
+              value={inputs.serialized}
+              onChange={(event) => setInput(event.target.value)}
+              placeholder="AQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA..."
+              className="min-h-[200px] font-mono text-xs"
+              spellCheck={false}
+            />
+          </TabsContent>
+          <TabsContent value="onchain" className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Transaction signatures or Jito bundle IDs, separated by spaces or new lines. The bundle is re-simulated against current state.
+            </p>
+            <Textarea
+              value={inputs.onchain}
+              onChange={(event) => setInput(event.target.value)}
+              placeholder="5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW"
+              className="min-h-[200px] font-mono text-xs"
+              spellCheck={false}
+            />
+          </TabsContent>
+        </Tabs>
+        <DialogFooter>
+          <Button onClick={handleImport} disabled={importing || input.trim().length === 0}>
+            {importing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,446 @@
+import { ChangeEvent, useRef, useState } from "react";
+import { TransactionInstruction } from "@solana/web3.js";
+import { Download, FileJson, Plus, Trash2, Wrench } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { INSTRUCTION_TEMPLATES, PROGRAM_PRESETS } from "@/config/programs";
+import { AccountMetaDraft, DataField, DataFieldType, InstructionDataMode, InstructionDraft } from "@/types/instruction";
+import { StoredIdl } from "@/types/idl";
+import { buildInstruction } from "@/utils/instructionEncoding";
+import { describeIdlType, findIdlInstruction, flattenIdlAccounts } from "@/utils/anchorCoder";
+
+const CUSTOM_PROGRAM = 'custom';
+const FIELD_TYPES: DataFieldType[] = ['u8', 'u16', 'u32', 'u64', 'i64', 'bool', 'pubkey', 'string', 'utf8'];
+
+const emptyDraft = (): InstructionDraft => ({
+  programId: PROGRAM_PRESETS[0].programId.toBase58(),
+  accounts: [],
+  dataMode: 'fields',
+  rawData: '',
+  fields: [],
+});
+
+interface InstructionBuilderDialogProps {
+  onBuildTransaction: (instructions: TransactionInstruction[]) => boolean;
+  idls: Record<string, StoredIdl>;
+  onUploadIdl: (programId: string, json: string) => boolean;
+  onFetchIdl: (programId: string) => Promise<boolean>;
+  walletAddress?: string;
+  disabled: boolean;
+}
+
+export const InstructionBuilderDialog = ({
+  onBuildTransaction,
+  idls,
+  onUploadIdl,
+  onFetchIdl,
+  walletAddress,
+  disabled
+}: InstructionBuilderDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [presetId, setPresetId] = useState(PROGRAM_PRESETS[0].id);
+  const [draft, setDraft] = useState<InstructionDraft>(emptyDraft);
+  const [staged, setStaged] = useState<{ draft: InstructionDraft; instruction: TransactionInstruction }[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isFetchingIdl, setIsFetchingIdl] = useState(false);
+  const idlFileInput = useRef<HTMLInputElement>(null);
+
+  const templates = INSTRUCTION_TEMPLATES.filter(template => template.presetId === presetId);
+  const idl = idls[draft.programId.trim()]?.idl;
+  const anchorInstruction = idl && draft.anchorInstruction
+    ? idl.instructions.find(instruction => instruction.name === draft.anchorInstruction)
+    : undefined;
+
+  const updateDraft = (changes: Partial<InstructionDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setError(null);
+  };
+
+  const handlePresetChange = (value: string) => {
+    setPresetId(value);
+    const preset = PROGRAM_PRESETS.find(p => p.id === value);
+    updateDraft({ programId: preset ? preset.programId.toBase58() : '', accounts: [], fields: [] });
+  };
+
+  const applyTemplate = (index: string) => {
+    const template = templates[Number(index)];
+    if (!template) return;
+    updateDraft({
+      dataMode: 'fields',
+      accounts: template.accounts.map(account => ({
+        pubkey: account.defaultPubkey ?? (account.isSigner && walletAddress ? walletAddress : ''),
+        isSigner: account.isSigner,
+        isWritable: account.isWritable,
+        label: account.label,
+      })),
+      fields: template.fields.map(field => ({ ...field })),
+    });
+  };
+
+  const applyIdlInstruction = (name: string) => {
+    if (!idl) return;
+    const instruction = findIdlInstruction(idl, name);
+    updateDraft({
+      dataMode: 'anchor',
+      anchorInstruction: name,
+      anchorArgs: {},
+      accounts: flattenIdlAccounts(instruction.accounts).map(account => ({
+        // Anchor reads the program ID in place of an omitted optional account
+        pubkey: account.address
+          ?? (account.isSigner && walletAddress ? walletAddress : account.optional ? draft.programId.trim() : ''),
+        isSigner: account.isSigner,
+        isWritable: account.isWritable,
+        label: account.name,
+      })),
+    });
+  };
+
+  const handleFetchIdl = async () => {
+    setIsFetchingIdl(true);
+    try {
+      if (await onFetchIdl(draft.programId)) updateDraft({ dataMode: 'anchor' });
+    } finally {
+      setIsFetchingIdl(false);
+    }
+  };
+
+  const handleIdlFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (onUploadIdl(draft.programId, await file.text())) {
+      updateDraft({ dataMode: 'anchor' });
+    }
+  };
+
+  const updateAccount = (index: number, changes: Partial<AccountMetaDraft>) => {
+    updateDraft({
+      accounts: draft.accounts.map((account, i) => i === index ? { ...account, ...changes } : account)
+    });
+  };
+
+  const updateField = (index: number, changes: Partial<DataField>) => {
+    updateDraft({
+      fields: draft.fields.map((field, i) => i === index ? { ...field, ...changes } : field)
+    });
+  };
+
+  const handleAddInstruction = () => {
+    try {
+      const instruction = buildInstruction(draft, idl);
+      setStaged(prev => [...prev, { draft, instruction }]);
+      setDraft({
+        ...emptyDraft(),
+        programId: draft.programId,
+        dataMode: draft.dataMode === 'anchor' ? 'anchor' : 'fields'
+      });
+      setError(null);
+    } catch (buildError) {
+      setError(buildError instanceof Error ? buildError.message : "Invalid instruction");
+    }
+  };
+
+  const handleCreate = () => {
+    const created = onBuildTransaction(staged.map(item => item.instruction));
+    if (created) {
+      setStaged([]);
+      setDraft(emptyDraft());
+      setPresetId(PROGRAM_PRESETS[0].id);
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex-1" disabled={disabled}>
+          <Wrench className="mr-2 h-4 w-4" />
+          Build Transaction
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Instruction Builder</DialogTitle>
+          <DialogDescription>
+            Compose instructions for any program. The transaction is paid by the connected wallet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Program</Label>
+              <Select value={presetId} onValueChange={handlePresetChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROGRAM_PRESETS.map(preset => (
+                    <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM_PROGRAM}>Custom program</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {templates.length > 0 && (
+              <div className="space-y-1">
+                <Label>Template</Label>
+                <Select onValueChange={applyTemplate}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Start from a template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template, index) => (
+                      <SelectItem key={template.name} value={String(index)}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label>Program ID</Label>
+            <Input
+              value={draft.programId}
+              onChange={(event) => updateDraft({ programId: event.target.value })}
+              disabled={presetId !== CUSTOM_PROGRAM}
+              className="font-mono text-xs"
+              placeholder="Program public key"
+            />
+            {presetId === CUSTOM_PROGRAM && (
+              <div className="flex items-center gap-2 pt-1">
+                <Button size="sm" variant="ghost" onClick={handleFetchIdl} disabled={isFetchingIdl}>
+                  <Download className="mr-1 h-3 w-3" />
+                  {isFetchingIdl ? 'Fetching...' : 'Fetch on-chain IDL'}
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => idlFileInput.current?.click()}>
+                  <FileJson className="mr-1 h-3 w-3" /> Upload IDL
+                </Button>
+                <input
+                  ref={idlFileInput}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={handleIdlFile}
+                />
+                {idl && (
+                  <Badge variant="outline" className="text-[10px] h-5">
+                    IDL: {idl.metadata?.name ?? idl.name ?? 'loaded'}
+                  </Badge>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Accounts</Label>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => updateDraft({ accounts: [...draft.accounts, { pubkey: '', isSigner: false, isWritable: false }] })}
+              >
+                <Plus className="mr-1 h-3 w-3" /> Add account
+              </Button>
+            </div>
+            {draft.accounts.length === 0 && (
+              <p className="text-xs text-muted-foreground">No accounts</p>
+            )}
+            {draft.accounts.map((account, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={account.pubkey}
+                  onChange={(event) => updateAccount(index, { pubkey: event.target.value })}
+                  placeholder={account.label || `Account ${index + 1}`}
+                  className="font-mono text-xs"
+                />
+                <label className="flex items-center gap-1 text-xs whitespace-nowrap">
+                  <Checkbox
+                    checked={account.isSigner}
+                    onCheckedChange={(checked) => updateAccount(index, { isSigner: checked === true })}
+                  />
+                  Signer
+                </label>
+                <label className="flex items-center gap-1 text-xs whitespace-nowrap">
+                  <Checkbox
+                    checked={account.isWritable}
+                    onCheckedChange={(checked) => updateAccount(index, { isWritable: checked === true })}
+                  />
+                  Writable
+                </label>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => updateDraft({ accounts: draft.accounts.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Data</Label>
+              <Select
+                value={draft.dataMode}
+                onValueChange={(value) => updateDraft({ dataMode: value as InstructionDataMode })}
+              >
+                <SelectTrigger className="w-40 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fields">Typed fields</SelectItem>
+                  <SelectItem value="hex">Hex</SelectItem>
+                  <SelectItem value="base58">Base58</SelectItem>
+                  {idl && <SelectItem value="anchor">Anchor IDL</SelectItem>}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {draft.dataMode === 'anchor' ? (
+              idl ? (
+                <div className="space-y-2">
+                  <Select value={draft.anchorInstruction} onValueChange={applyIdlInstruction}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an instruction" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {idl.instructions.map(instruction => (
+                        <SelectItem key={instruction.name} value={instruction.name}>{instruction.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {anchorInstruction?.args.map(arg => (
+                    <div key={arg.name} className="space-y-1">
+                      <Label className="text-xs font-mono">
+                        {arg.name}: <span className="text-white/50">{describeIdlType(arg.type)}</span>
+                      </Label>
+                      <Input
+                        value={draft.anchorArgs?.[arg.name] ?? ''}
+                        onChange={(event) => updateDraft({
+                          anchorArgs: { ...draft.anchorArgs, [arg.name]: event.target.value }
+                        })}
+                        className="font-mono text-xs"
+                      />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">Load an IDL for this program to encode instructions by name</p>
+              )
+            ) : draft.dataMode === 'fields' ? (
+              <div className="space-y-2">
+                {draft.fields.map((field, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select
+                      value={field.type}
+                      onValueChange={(value) => updateField(index, { type: value as DataFieldType })}
+                    >
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FIELD_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={field.value}
+                      onChange={(event) => updateField(index, { value: event.target.value })}
+                      placeholder={field.label || 'Value'}
+                      className="font-mono text-xs"
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => updateDraft({ fields: draft.fields.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => updateDraft({ fields: [...draft.fields, { type: 'u8', value: '0' }] })}
+                >
+                  <Plus className="mr-1 h-3 w-3" /> Add field
+                </Button>
+              </div>
+            ) : (
+              <Textarea
+                value={draft.rawData}
+                onChange={(event) => updateDraft({ rawData: event.target.value })}
+                placeholder={draft.dataMode === 'hex' ? '02400d0300' : '3DdGGhkhJbjm'}
+                className="font-mono text-xs"
+                spellCheck={false}
+              />
+            )}
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <Button variant="secondary" onClick={handleAddInstruction} className="w-full">
+            <Plus className="mr-2 h-4 w-4" /> Add Instruction
+          </Button>
+
+          {staged.length > 0 && (
+            <div className="space-y-1">
+              <Label>Instructions ({staged.length})</Label>
+              {staged.map((item, index) => (
+                <div key={index} className="flex items-center justify-between bg-black/30 rounded px-3 py-2">
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="text-white/70">#{index + 1}</span>
+                    <code className="font-mono">
+                      {PROGRAM_PRESETS.find(p => p.programId.equals(item.instruction.programId))?.name
+                        ?? `${item.instruction.programId.toBase58().slice(0, 4)}...${item.instruction.programId.toBase58().slice(-4)}`}
+                    </code>
+                    {item.draft.dataMode === 'anchor' && (
+                      <span className="text-white/70">{item.draft.anchorInstruction}</span>
+                    )}
+                    <Badge variant="outline" className="text-[10px] h-5">
+                      {item.instruction.keys.length} accounts
+                    </Badge>
+                    <Badge variant="outline" className="text-[10px] h-5">
+                      {item.instruction.data.length} bytes
+                    </Badge>
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setStaged(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleCreate} disabled={staged.length === 0}>
+            Create Transaction
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,66 @@
+import { ChevronDown } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { DecodedInstruction } from "@/types/instruction";
+
+interface InstructionDetailsProps {
+  index: number;
+  instruction: DecodedInstruction;
+}
+
+export const InstructionDetails = ({ index, instruction }: InstructionDetailsProps) => {
+  const params = Object.entries(instruction.params);
+
+  return (
+    <Collapsible className="bg-black/20 rounded px-2 py-1">
+      <CollapsibleTrigger className="flex w-full items-center gap-2 text-xs text-white/70 hover:text-white">
+        <ChevronDown className="h-3 w-3" />
+        <span className="text-white/50">#{index + 1}</span>
+        <span>{instruction.programName}</span>
+        <Badge
+          variant="outline"
+          className={`text-[10px] h-5 ${instruction.known ? 'text-purple-300 border-purple-800' : 'text-white/50'}`}
+        >
+          {instruction.type}
+        </Badge>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-2 space-y-2 font-mono text-[10px] text-white/60">
+        <div className="break-all">
+          <span className="text-white/80">program</span>: {instruction.programId}
+        </div>
+
+        {params.length > 0 && (
+          <div className="space-y-0.5">
+            {params.map(([name, value]) => (
+              <div key={name} className="break-all">
+                <span className="text-white/80">{name}</span>: {value === null ? 'none' : String(value)}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {instruction.accounts.length > 0 && (
+          <table className="w-full">
+            <tbody>
+              {instruction.accounts.map((account, accountIndex) => (
+                <tr key={accountIndex} className="align-top">
+                  <td className="pr-2 text-white/40">{accountIndex}</td>
+                  <td className="pr-2 text-blue-300 whitespace-nowrap">{account.name ?? ''}</td>
+                  <td className="break-all">{account.pubkey}</td>
+                  <td className="pl-2 whitespace-nowrap">
+                    {account.isSigner && <span className="text-green-400">s</span>}
+                    {account.isWritable && <span className="text-amber-400">w</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="break-all">
+          <span className="text-white/80">data</span>: {instruction.data || '(empty)'}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,123 @@
+import { AlertTriangle, Coins, Loader2, Plus, RefreshCw } from "lucide-react";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MIN_TIP_LAMPORTS } from "@/config/jito";
+import { TipFloor } from "@/types/jito";
+import { TIP_PERCENTILES, TipTransfer, getTipPercentile } from "@/utils/jitoTips";
+
+interface JitoTipPanelProps {
+  // null while the bundle is being checked
+  tips: TipTransfer[] | null;
+  tipLamports: number;
+  onTipLamportsChange: (lamports: number) => void;
+  onAddTip: () => void;
+  tipFloor: TipFloor | null;
+  loadingTipFloor: boolean;
+  onRefreshTipFloor: () => void;
+  disabled: boolean;
+}
+
+const shorten = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+const formatSol = (lamports: number | bigint) => `${Number(lamports) / LAMPORTS_PER_SOL} SOL`;
+
+// Bundles that don't pay a tip account are never picked up by the block engine
+export const JitoTipPanel = ({
+  tips,
+  tipLamports,
+  onTipLamportsChange,
+  onAddTip,
+  tipFloor,
+  loadingTipFloor,
+  onRefreshTipFloor,
+  disabled
+}: JitoTipPanelProps) => {
+  if (tips === null) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-white/50">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Checking bundle for a Jito tip...
+      </div>
+    );
+  }
+
+  const totalTip = tips.reduce((total, tip) => total + tip.lamports, BigInt(0));
+  const percentile = tipFloor && tips.length > 0 ? getTipPercentile(totalTip, tipFloor) : null;
+
+  return (
+    <div className="border border-white/10 rounded-md p-3 space-y-2">
+      {tips.length > 0 ? (
+        <div className="space-y-1 text-xs text-green-400">
+          {tips.map(tip => (
+            <div key={`${tip.transactionIndex}-${tip.instructionIndex}`} className="flex items-center gap-2">
+              <Coins className="h-3 w-3" />
+              <span>
+                Transaction {tip.transactionIndex + 1} tips {formatSol(tip.lamports)} to{" "}
+                <span className="font-mono" title={tip.tipAccount}>{shorten(tip.tipAccount)}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 text-xs text-amber-300">
+          <AlertTriangle className="h-3 w-3" />
+          The bundle pays no Jito tip and will not land when submitted.
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-white/50">Landed tips</span>
+        {tipFloor ? (
+          TIP_PERCENTILES.map(level => {
+            const lamports = Math.max(tipFloor.percentiles[level], MIN_TIP_LAMPORTS);
+            return (
+              <Button
+                key={level}
+                size="sm"
+                variant={tipLamports === lamports ? "secondary" : "ghost"}
+                className="h-6 px-2 font-mono text-[10px]"
+                title={`Use the ${level}th percentile as the tip amount`}
+                onClick={() => onTipLamportsChange(lamports)}
+              >
+                p{level} {formatSol(lamports)}
+              </Button>
+            );
+          })
+        ) : (
+          <span className="text-white/40">{loadingTipFloor ? "loading..." : "unavailable"}</span>
+        )}
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          title="Refresh tip floor"
+          onClick={onRefreshTipFloor}
+          disabled={loadingTipFloor}
+        >
+          <RefreshCw className={`h-3 w-3 ${loadingTipFloor ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+      {tipFloor && tips.length > 0 && (
+        <p className={`text-xs ${percentile === null ? "text-amber-300" : "text-white/50"}`}>
+          {percentile === null
+            ? `The bundle's tip of ${formatSol(totalTip)} is below the 25th percentile of recently landed tips.`
+            : `The bundle's tip of ${formatSol(totalTip)} reaches the ${percentile}th percentile of recently landed tips.`}
+        </p>
+      )}
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          min={0}
+          className="h-8 w-40 font-mono text-xs"
+          value={tipLamports}
+          onChange={event => onTipLamportsChange(Number(event.target.value))}
+        />
+        <span className="text-xs text-white/50">lamports ({formatSol(tipLamports)})</span>
+        <Button size="sm" variant="outline" className="ml-auto" onClick={onAddTip} disabled={disabled}>
+          <Plus className="mr-1 h-3 w-3" />
+          {tips.length > 0 ? "Add Another Tip" : "Add Tip"}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { BookMarked, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ProgramEntry, ProgramStatus, SecuritySeverity } from "@/types/security";
+import { programRegistryService } from "@/services/programRegistryService";
+
+interface ProgramRegistryDialogProps {
+  programs: ProgramEntry[];
+  onSaveProgram: (entry: Omit<ProgramEntry, 'builtIn'>) => boolean;
+  onRemoveProgram: (programId: string) => void;
+  disabled: boolean;
+}
+
+const STATUSES: ProgramStatus[] = ['allow', 'deny'];
+const RISKS: SecuritySeverity[] = ['low', 'medium', 'high'];
+
+const shorten = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+const EMPTY_DRAFT = { programId: '', name: '', labels: '', status: 'allow' as ProgramStatus, risk: 'medium' as SecuritySeverity };
+
+export const ProgramRegistryDialog = ({ programs, onSaveProgram, onRemoveProgram, disabled }: ProgramRegistryDialogProps) => {
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+
+  const update = (entry: ProgramEntry, changes: Partial<ProgramEntry>) => {
+    const { builtIn, ...rest } = { ...entry, ...changes };
+    onSaveProgram(rest);
+  };
+
+  const handleAdd = () => {
+    const saved = onSaveProgram({
+      programId: draft.programId,
+      name: draft.name,
+      labels: draft.labels.split(','),
+      status: draft.status,
+      risk: draft.risk
+    });
+    if (saved) setDraft(EMPTY_DRAFT);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex-1" disabled={disabled}>
+          <BookMarked className="mr-2 h-4 w-4" />
+          Program Registry
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Program Registry</DialogTitle>
+          <DialogDescription>
+            Known programs with their names and risk labels. Denied programs always fail the security check; programs
+            missing here are denied by strict policies and reported as warnings otherwise.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[400px] overflow-y-auto">
+          <Table className="text-xs">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Program</TableHead>
+                <TableHead>Labels</TableHead>
+                <TableHead>Risk</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {programs.map(entry => (
+                <TableRow key={entry.programId}>
+                  <TableCell className="py-1">
+                    <div>{entry.name}</div>
+                    <div className="font-mono text-[10px] text-muted-foreground" title={entry.programId}>
+                      {shorten(entry.programId)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="py-1">
+                    <div className="flex flex-wrap gap-1">
+                      {entry.labels.map(label => (
+                        <Badge key={label} variant="outline" className="text-[10px] h-4">{label}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="py-1">
+                    <Select value={entry.risk} onValueChange={value => update(entry, { risk: value as SecuritySeverity })}>
+                      <SelectTrigger className="h-7 w-24 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RISKS.map(risk => <SelectItem key={risk} value={risk}>{risk}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="py-1">
+                    <Select value={entry.status} onValueChange={value => update(entry, { status: value as ProgramStatus })}>
+                      <SelectTrigger className={`h-7 w-24 text-xs ${entry.status === 'deny' ? 'text-red-400' : ''}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STATUSES.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="py-1">
+                    {entry.builtIn ? (
+                      programRegistryService.isEdited(entry.programId) && (
+                        <Button size="icon" variant="ghost" className="h-7 w-7" title="Reset to default" onClick={() => onRemoveProgram(entry.programId)}>
+                          <RotateCcw className="h-3 w-3" />
+                        </Button>
+                      )
+                    ) : (
+                      <Button size="icon" variant="ghost" className="h-7 w-7" title="Remove" onClick={() => onRemoveProgram(entry.programId)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 border-t pt-3">
+          <Input
+            className="h-8 flex-[2] font-mono text-xs"
+            placeholder="Program ID"
+            value={draft.programId}
+            onChange={event => setDraft({ ...draft, programId: event.target.value.trim() })}
+          />
+          <Input
+            className="h-8 flex-1 text-xs"
+            placeholder="Name"
+            value={draft.name}
+            onChange={event => setDraft({ ...draft, name: event.target.value })}
+          />
+          <Input
+            className="h-8 flex-1 text-xs"
+            placeholder="Labels, comma separated"
+            value={draft.labels}
+            onChange={event => setDraft({ ...draft, labels: event.target.value })}
+          />
+          <Select value={draft.risk} onValueChange={value => setDraft({ ...draft, risk: value as SecuritySeverity })}>
+            <SelectTrigger className="h-8 w-24 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RISKS.map(risk => <SelectItem key={risk} value={risk}>{risk}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={draft.status} onValueChange={value => setDraft({ ...draft, status: value as ProgramStatus })}>
+            <SelectTrigger className="h-8 w-24 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUSES.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={handleAdd} disabled={!draft.programId}>
+            <Plus className="mr-1 h-3 w-3" />
+            Add
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,68 @@
+import { ReactNode } from "react";
+import { ChevronDown } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { SecurityFinding, SecurityReport, SecuritySeverity } from "@/types/security";
+
+interface SecurityFindingsProps {
+  report: SecurityReport;
+}
+
+const SEVERITY_CLASSES: Record<SecuritySeverity, string> = {
+  low: 'border-white/20 text-white/60',
+  medium: 'border-amber-800 text-amber-300',
+  high: 'border-red-800 text-red-400'
+};
+
+export const SeverityBadge = ({ severity, children }: { severity: SecuritySeverity; children?: ReactNode }) => (
+  <Badge variant="outline" className={`text-[10px] h-4 ${SEVERITY_CLASSES[severity]}`}>
+    {children ?? severity}
+  </Badge>
+);
+
+const shorten = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+export const SecurityFindingRow = ({ finding, prefix }: { finding: SecurityFinding; prefix?: string }) => (
+  <div className="space-y-0.5">
+    <div className="flex flex-wrap items-center gap-2">
+      <SeverityBadge severity={finding.severity} />
+      {prefix && <span className="text-white/50">{prefix}</span>}
+      <span className="font-mono text-white/50">{finding.ruleId}</span>
+      {finding.instructionIndex !== undefined && (
+        <span className="text-white/50">instruction {finding.instructionIndex}</span>
+      )}
+      <span className={finding.blocking ? 'text-red-300' : 'text-white/80'}>{finding.message}</span>
+    </div>
+    {finding.accounts.length > 0 && (
+      <div className="pl-2 font-mono text-white/40">
+        {finding.accounts.map(account => (
+          <span key={account} className="mr-2" title={account}>{shorten(account)}</span>
+        ))}
+      </div>
+    )}
+    {finding.remediation && <div className="pl-2 text-white/50">Fix: {finding.remediation}</div>}
+  </div>
+);
+
+export const SecurityFindings = ({ report }: SecurityFindingsProps) => {
+  const blockingCount = report.findings.filter(finding => finding.blocking).length;
+
+  return (
+    <Collapsible defaultOpen={blockingCount > 0}>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-white/50 hover:text-white/80">
+        <ChevronDown className="h-3 w-3" />
+        {report.findings.length} security finding{report.findings.length === 1 ? '' : 's'}
+        {blockingCount > 0 && (
+          <Badge variant="outline" className="text-[10px] h-4 ml-1 border-red-800 text-red-400">
+            {blockingCount} blocking
+          </Badge>
+        )}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-1 space-y-1 text-[10px]">
+        {report.findings.map((finding, findingIndex) => (
+          <SecurityFindingRow key={findingIndex} finding={finding} />
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
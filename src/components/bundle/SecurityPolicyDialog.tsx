@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { SecurityPolicy } from "@/types/security";
+
+interface SecurityPolicyDialogProps {
+  policy: SecurityPolicy;
+  policies: SecurityPolicy[];
+  onSelectPolicy: (policyId: string) => void;
+  onLoadPolicy: (json: string) => boolean;
+  disabled: boolean;
+}
+
+const toJson = (policy: SecurityPolicy) => JSON.stringify(policy, null, 2);
+
+export const SecurityPolicyDialog = ({
+  policy,
+  policies,
+  onSelectPolicy,
+  onLoadPolicy,
+  disabled
+}: SecurityPolicyDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [json, setJson] = useState("");
+  const isBuiltIn = policies.some(candidate => candidate.id === policy.id);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) setJson(toJson(policy));
+    setOpen(nextOpen);
+  };
+
+  const handleSelect = (policyId: string) => {
+    onSelectPolicy(policyId);
+    const selected = policies.find(candidate => candidate.id === policyId);
+    if (selected) setJson(toJson(selected));
+  };
+
+  const handleApply = () => {
+    if (onLoadPolicy(json)) {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex-1" disabled={disabled}>
+          <ShieldCheck className="mr-2 h-4 w-4" />
+          Policy: {policy.name}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Security Policy</DialogTitle>
+          <DialogDescription>
+            Rules, thresholds and severities applied to every transaction before simulation. Findings at or above the
+            policy's failOn severity block the bundle.
+          </DialogDescription>
+        </DialogHeader>
+        <Select value={isBuiltIn ? policy.id : undefined} onValueChange={handleSelect}>
+          <SelectTrigger>
+            <SelectValue placeholder={`${policy.name} (custom)`} />
+          </SelectTrigger>
+          <SelectContent>
+            {policies.map(candidate => (
+              <SelectItem key={candidate.id} value={candidate.id}>
+                {candidate.name}{candidate.description ? ` - ${candidate.description}` : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Textarea
+          value={json}
+          onChange={(event) => setJson(event.target.value)}
+          className="min-h-[300px] font-mono text-xs"
+          spellCheck={false}
+        />
+        <DialogFooter>
+          <Button onClick={handleApply} disabled={json.trim().length === 0}>
+            Apply JSON
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
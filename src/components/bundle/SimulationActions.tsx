@@ -1,20 +1,32 @@
 
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2, Play } from "lucide-react";
 import { SimulationStatus } from "@/hooks/useBundleState";
+import { SimulationStrategy } from "@/types/simulation";
 
 interface SimulationActionsProps {
   onSimulate: () => void;
   loading: boolean;
   disabled: boolean;
   simulationStatus: SimulationStatus;
+  strategy: SimulationStrategy;
+  onStrategyChange: (strategy: SimulationStrategy) => void;
 }
 
+const STRATEGY_LABELS: Partial<Record<SimulationStrategy, string>> = {
+  auto: 'Bundle, sequential fallback',
+  bundle: 'Bundle endpoint only',
+  sequential: 'Sequential (simulateTransaction)',
+};
+
 export const SimulationActions = ({
   onSimulate,
   loading,
   disabled,
-  simulationStatus
+  simulationStatus,
+  strategy,
+  onStrategyChange
 }: SimulationActionsProps) => {
   return (
     <div className="flex space-x-4">
@@ -31,6 +43,20 @@ export const SimulationActions = ({
         )}
         Simulate Bundle
       </Button>
+      <Select
+        value={strategy}
+        onValueChange={value => onStrategyChange(value as SimulationStrategy)}
+        disabled={loading}
+      >
+        <SelectTrigger className="w-64" title="Simulation strategy">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(STRATEGY_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
     </div>
   );
 };
@@ -0,0 +1,96 @@
+import { useMemo, useState } from "react";
+import { AlertTriangle, CheckCircle, ChevronDown, Clock, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ProgramInvocation } from "@/types/simulation";
+import { StoredIdl } from "@/types/idl";
+import { getTotalUnitsConsumed, parseSimulationLogs } from "@/utils/logParser";
+import { getProgramName } from "@/utils/instructionDecoder";
+
+interface SimulationLogViewerProps {
+  logs: string[];
+  unitsConsumed?: number;
+  idls?: Record<string, StoredIdl>;
+}
+
+const StatusIcon = ({ status }: { status: ProgramInvocation['status'] }) => {
+  if (status === 'success') return <CheckCircle className="h-3 w-3 text-green-500" />;
+  if (status === 'failed') return <XCircle className="h-3 w-3 text-red-500" />;
+  return <Clock className="h-3 w-3 text-amber-400" />;
+};
+
+const InvocationNode = ({ node, idls }: { node: ProgramInvocation; idls: Record<string, StoredIdl> }) => (
+  <Collapsible defaultOpen={node.status !== 'success'}>
+    <CollapsibleTrigger className="flex items-center gap-1 text-left hover:text-white">
+      <ChevronDown className="h-3 w-3 shrink-0" />
+      <StatusIcon status={node.status} />
+      <span className={node.status === 'failed' ? 'text-red-400' : 'text-white/80'}>
+        {getProgramName(node.programId, idls)}
+      </span>
+      {node.unitsConsumed !== undefined && (
+        <span className="text-white/40">
+          {node.unitsConsumed.toLocaleString()} / {node.unitsBudget?.toLocaleString()} CU
+        </span>
+      )}
+    </CollapsibleTrigger>
+    <CollapsibleContent className="ml-2 pl-3 border-l border-white/10 space-y-0.5">
+      {node.entries.map((entry, index) =>
+        entry.kind === 'invoke'
+          ? <InvocationNode key={index} node={entry.node} idls={idls} />
+          : (
+            <div key={index} className={`break-all ${entry.isError ? 'text-red-400' : 'text-white/50'}`}>
+              {entry.text}
+            </div>
+          )
+      )}
+      {node.error && (
+        <div className="break-all text-red-400">failed: {node.error}</div>
+      )}
+    </CollapsibleContent>
+  </Collapsible>
+);
+
+export const SimulationLogViewer = ({ logs, unitsConsumed, idls = {} }: SimulationLogViewerProps) => {
+  const [showRaw, setShowRaw] = useState(false);
+  const parsed = useMemo(() => parseSimulationLogs(logs), [logs]);
+  const totalUnits = unitsConsumed ?? getTotalUnitsConsumed(parsed);
+
+  return (
+    <Collapsible defaultOpen={parsed.errors.length > 0}>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-white/50 hover:text-white/80">
+        <ChevronDown className="h-3 w-3" />
+        Logs ({logs.length} lines, {totalUnits.toLocaleString()} CU)
+        {parsed.errors.length > 0 && (
+          <span className="flex items-center gap-1 text-red-400">
+            <AlertTriangle className="h-3 w-3" />
+            {parsed.errors.length} error{parsed.errors.length === 1 ? '' : 's'}
+          </span>
+        )}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-1 bg-black/40 rounded p-2 font-mono text-[10px] space-y-1">
+        <div className="flex justify-end">
+          <Button size="sm" variant="ghost" className="h-5 px-2 text-[10px]" onClick={() => setShowRaw(!showRaw)}>
+            {showRaw ? 'Call tree' : 'Raw logs'}
+          </Button>
+        </div>
+        {showRaw ? (
+          logs.map((line, index) => (
+            <div key={index} className="break-all text-white/60">{line}</div>
+          ))
+        ) : (
+          <>
+            {parsed.invocations.map((node, index) => (
+              <InvocationNode key={index} node={node} idls={idls} />
+            ))}
+            {parsed.orphanLogs.map((line, index) => (
+              <div key={`orphan-${index}`} className="break-all text-white/50">{line}</div>
+            ))}
+            {parsed.truncated && (
+              <div className="text-amber-400">Logs were truncated by the runtime</div>
+            )}
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
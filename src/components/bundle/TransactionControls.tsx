@@ -1,19 +1,68 @@
 
+import { TransactionInstruction } from "@solana/web3.js";
 import { Button } from "@/components/ui/button";
+import { StoredIdl } from "@/types/idl";
+import { BlockEngineRegion, BlockEngineSettings, RegionLatency } from "@/types/jito";
+import { ProgramEntry, SecurityPolicy } from "@/types/security";
+import { ImportTransactionsDialog } from "./ImportTransactionsDialog";
+import { InstructionBuilderDialog } from "./InstructionBuilderDialog";
+import { SecurityPolicyDialog } from "./SecurityPolicyDialog";
+import { ProgramRegistryDialog } from "./ProgramRegistryDialog";
+import { BlockEngineDialog } from "./BlockEngineDialog";
 
 interface TransactionControlsProps {
   onAddTransaction: () => void;
   onAddMaliciousTransaction: () => void;
+  onImportTransactions: (input: string) => Promise<number>;
+  onImportFromChain: (input: string) => Promise<number>;
+  onBuildTransaction: (instructions: TransactionInstruction[]) => boolean;
+  idls: Record<string, StoredIdl>;
+  onUploadIdl: (programId: string, json: string) => boolean;
+  onFetchIdl: (programId: string) => Promise<boolean>;
+  walletAddress?: string;
+  securityPolicy: SecurityPolicy;
+  securityPolicies: SecurityPolicy[];
+  onSelectSecurityPolicy: (policyId: string) => void;
+  onLoadSecurityPolicy: (json: string) => boolean;
+  programs: ProgramEntry[];
+  onSaveProgram: (entry: Omit<ProgramEntry, 'builtIn'>) => boolean;
+  onRemoveProgram: (programId: string) => void;
+  blockEngineSettings: BlockEngineSettings;
+  blockEngineRegions: BlockEngineRegion[];
+  latencies: RegionLatency[];
+  probing: boolean;
+  onUpdateBlockEngineSettings: (changes: Partial<BlockEngineSettings>) => boolean;
+  onProbeLatency: () => void;
   disabled: boolean;
 }
 
 export const TransactionControls = ({
   onAddTransaction,
   onAddMaliciousTransaction,
+  onImportTransactions,
+  onImportFromChain,
+  onBuildTransaction,
+  idls,
+  onUploadIdl,
+  onFetchIdl,
+  walletAddress,
+  securityPolicy,
+  securityPolicies,
+  onSelectSecurityPolicy,
+  onLoadSecurityPolicy,
+  programs,
+  onSaveProgram,
+  onRemoveProgram,
+  blockEngineSettings,
+  blockEngineRegions,
+  latencies,
+  probing,
+  onUpdateBlockEngineSettings,
+  onProbeLatency,
   disabled
 }: TransactionControlsProps) => {
   return (
-    <div className="flex gap-2">
+    <div className="flex flex-wrap gap-2">
       <Button
         onClick={onAddTransaction}
         variant="outline"
@@ -30,6 +79,41 @@ export const TransactionControls = ({
       >
         Add High Compute Attack
       </Button>
+      <ImportTransactionsDialog
+        onImport={onImportTransactions}
+        onImportFromChain={onImportFromChain}
+        disabled={disabled}
+      />
+      <InstructionBuilderDialog
+        onBuildTransaction={onBuildTransaction}
+        idls={idls}
+        onUploadIdl={onUploadIdl}
+        onFetchIdl={onFetchIdl}
+        walletAddress={walletAddress}
+        disabled={disabled}
+      />
+      <SecurityPolicyDialog
+        policy={securityPolicy}
+        policies={securityPolicies}
+        onSelectPolicy={onSelectSecurityPolicy}
+        onLoadPolicy={onLoadSecurityPolicy}
+        disabled={disabled}
+      />
+      <ProgramRegistryDialog
+        programs={programs}
+        onSaveProgram={onSaveProgram}
+        onRemoveProgram={onRemoveProgram}
+        disabled={disabled}
+      />
+      <BlockEngineDialog
+        settings={blockEngineSettings}
+        regions={blockEngineRegions}
+        latencies={latencies}
+        probing={probing}
+        onUpdateSettings={onUpdateBlockEngineSettings}
+        onProbeLatency={onProbeLatency}
+        disabled={disabled}
+      />
     </div>
   );
 };
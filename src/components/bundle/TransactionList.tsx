@@ -1,20 +1,48 @@
 
-import { Transaction } from "@solana/web3.js";
-import { CheckCircle, XCircle, Info, AlertTriangle, Shield } from "lucide-react";
+import { CheckCircle, XCircle, Info, AlertTriangle, Shield, ChevronDown } from "lucide-react";
 import { SimulationResult } from "@/hooks/useBundleState";
+import { useResolvedTransactions } from "@/hooks/useResolvedTransactions";
 import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { BundleTransaction } from "@/types/transaction";
+import { StoredIdl } from "@/types/idl";
+import { AssertionOverrides } from "@/types/lighthouse";
+import { getProgramInstructions, isVersionedTransaction } from "@/utils/transactionUtils";
+import { getTransactionId } from "@/utils/bundleStorage";
+import { decodeInstruction, getProgramName } from "@/utils/instructionDecoder";
+import { programRegistryService } from "@/services/programRegistryService";
+import { toBundlePostState } from "@/integrations/lighthouse/assertions";
+import { InstructionDetails } from "./InstructionDetails";
+import { SimulationLogViewer } from "./SimulationLogViewer";
+import { AccountDiffTable } from "./AccountDiffTable";
+import { AssertionEditor } from "./AssertionEditor";
+import { AssertionFailureDetails } from "./AssertionFailureDetails";
+import { SecurityFindings } from "./SecurityFindings";
 
 interface TransactionListProps {
-  transactions: Transaction[];
-  simulationResults?: Array<{ success: boolean; message?: string }>;
+  transactions: BundleTransaction[];
+  simulationResults?: SimulationResult[];
   lighthouseStatus?: boolean;
+  idls?: Record<string, StoredIdl>;
+  walletAddress?: string;
+  // Keyed by transaction id, see getTransactionId
+  assertionOverrides?: Record<string, AssertionOverrides>;
+  onAssertionOverridesChange?: (transactionId: string, overrides: AssertionOverrides) => void;
+  disabled?: boolean;
 }
 
 export const TransactionList = ({ 
   transactions, 
   simulationResults = [],
-  lighthouseStatus
+  lighthouseStatus,
+  idls = {},
+  walletAddress,
+  assertionOverrides = {},
+  onAssertionOverridesChange,
+  disabled
 }: TransactionListProps) => {
+  const resolvedTransactions = useResolvedTransactions(transactions);
+
   return (
     <div className="space-y-2">
       {transactions.length === 0 ? (
@@ -26,6 +54,12 @@ export const TransactionList = ({
           const result = simulationResults[index];
           const isHighComputeError = result?.message && result.message.includes("Excessive compute units");
           const isLighthouseProtected = lighthouseStatus && !isHighComputeError;
+          const programIds = [...new Set(getProgramInstructions(tx).map(ix => ix.programId.toBase58()))];
+          const resolved = resolvedTransactions[index];
+          const staticKeyCount = resolved ? resolved.accountKeys.length - resolved.lookupTableKeyCount : 0;
+          const decodedInstructions = (resolved?.instructions ?? []).map(instruction =>
+            decodeInstruction(instruction, idls)
+          );
           
           return (
             <div key={index} className="bg-black/30 p-4 rounded-lg space-y-2">
@@ -33,11 +67,22 @@ export const TransactionList = ({
                 <div className="space-y-1">
                   <div className="flex items-center gap-2">
                     <code className="text-xs text-white/70">Transaction {index + 1}</code>
-                    {tx.instructions.length > 0 && tx.instructions[0].programId && (
-                      <Badge variant="outline" className="text-[10px] h-5">
-                        {tx.instructions[0].programId.toString().slice(0, 4)}...{tx.instructions[0].programId.toString().slice(-4)}
-                      </Badge>
-                    )}
+                    {programIds.map(programId => {
+                      const entry = programRegistryService.getEntry(programId);
+                      return (
+                        <Badge
+                          key={programId}
+                          variant="outline"
+                          title={entry ? `${programId} (${entry.status}, ${entry.risk} risk)` : `${programId} (not in registry)`}
+                          className={`text-[10px] h-5 ${entry?.status === 'deny' ? 'border-red-800 text-red-400' : entry ? '' : 'border-amber-800 text-amber-300'}`}
+                        >
+                          {getProgramName(programId, idls)}
+                        </Badge>
+                      );
+                    })}
+                    <Badge variant="outline" className="text-[10px] h-5">
+                      {isVersionedTransaction(tx) ? `v${tx.version}` : 'legacy'}
+                    </Badge>
                     
                     {/* Show high compute badge for malicious transactions */}
                     {isHighComputeError && (
@@ -64,6 +109,79 @@ export const TransactionList = ({
                 )}
               </div>
               
+              {resolved && (
+                <Collapsible>
+                  <CollapsibleTrigger className="flex items-center gap-1 text-xs text-white/50 hover:text-white/80">
+                    <ChevronDown className="h-3 w-3" />
+                    {resolved.accountKeys.length} accounts
+                    {resolved.lookupTableKeyCount > 0 && ` (${resolved.lookupTableKeyCount} from ${resolved.lookupTables.length} lookup tables)`}
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="mt-1 space-y-0.5">
+                    {resolved.accountKeys.map((key, keyIndex) => (
+                      <div key={key.toString() + keyIndex} className="flex items-center gap-2 font-mono text-[10px] text-white/60">
+                        <span className="break-all">{key.toString()}</span>
+                        {resolved.writableAccounts.some(writable => writable.equals(key)) && (
+                          <span className="text-amber-400">w</span>
+                        )}
+                        {keyIndex >= staticKeyCount && (
+                          <span className="text-blue-400">lookup</span>
+                        )}
+                      </div>
+                    ))}
+                  </CollapsibleContent>
+                </Collapsible>
+              )}
+
+              {decodedInstructions.length > 0 && (
+                <Collapsible>
+                  <CollapsibleTrigger className="flex items-center gap-1 text-xs text-white/50 hover:text-white/80">
+                    <ChevronDown className="h-3 w-3" />
+                    {decodedInstructions.length} instruction{decodedInstructions.length === 1 ? '' : 's'}:{' '}
+                    {decodedInstructions.map(instruction => instruction.type).join(', ')}
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="mt-1 space-y-1">
+                    {decodedInstructions.map((instruction, instructionIndex) => (
+                      <InstructionDetails key={instructionIndex} index={instructionIndex} instruction={instruction} />
+                    ))}
+                  </CollapsibleContent>
+                </Collapsible>
+              )}
+
+              {lighthouseStatus && onAssertionOverridesChange && (
+                <AssertionEditor
+                  transaction={tx}
+                  bundleState={toBundlePostState(result, index)}
+                  placement={result?.assertionPlacement}
+                  overrides={assertionOverrides[getTransactionId(tx)]}
+                  onChange={overrides => onAssertionOverridesChange(getTransactionId(tx), overrides)}
+                  disabled={disabled}
+                />
+              )}
+
+              {result?.dependsOn && result.dependsOn.length > 0 && (
+                <p className="text-xs text-white/50">
+                  Simulated sequentially on top of transaction
+                  {result.dependsOn.length === 1 ? '' : 's'} {result.dependsOn.map(dependency => dependency + 1).join(', ')},
+                  which write accounts it loads.
+                </p>
+              )}
+
+              {result?.securityReport && result.securityReport.findings.length > 0 && (
+                <SecurityFindings report={result.securityReport} />
+              )}
+
+              {result?.assertionFailure && (
+                <AssertionFailureDetails failure={result.assertionFailure} />
+              )}
+
+              {result?.accountDiffs && result.accountDiffs.length > 0 && (
+                <AccountDiffTable diffs={result.accountDiffs} walletAddress={walletAddress} />
+              )}
+
+              {result?.logs && result.logs.length > 0 && (
+                <SimulationLogViewer logs={result.logs} unitsConsumed={result.unitsConsumed} idls={idls} />
+              )}
+
               {result && (
                 <div className="mt-2">
                   <div className="flex items-center space-x-2">
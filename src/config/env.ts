@@ -2,6 +2,10 @@ interface EnvConfig {
   JITO_API_KEY: string;
   SOLANA_RPC_URL: string;
   LIGHTHOUSE_API_KEY: string;
+  JITO_SIMULATION_URL: string;
+  SECURITY_POLICY: string;
+  JITO_TIP_FLOOR_URL: string;
+  JITO_BLOCK_ENGINE: string;
 }
 
 const getEnvVar = (key: keyof EnvConfig): string => {
@@ -13,10 +17,21 @@ const getEnvVar = (key: keyof EnvConfig): string => {
   return value;
 };
 
+// Optional variables have a documented fallback, so leaving them unset is not worth a warning
+const getOptionalEnvVar = (key: keyof EnvConfig): string => import.meta.env[key] || '';
+
 export const env = {
   JITO_API_KEY: getEnvVar('JITO_API_KEY'),
   SOLANA_RPC_URL: getEnvVar('SOLANA_RPC_URL'),
   LIGHTHOUSE_API_KEY: getEnvVar('LIGHTHOUSE_API_KEY'),
+  // Jito-Solana RPC exposing simulateBundle, tried before the main RPC
+  JITO_SIMULATION_URL: getOptionalEnvVar('JITO_SIMULATION_URL'),
+  // Built-in security policy id ('production' or 'manual-testing'), production when unset
+  SECURITY_POLICY: getOptionalEnvVar('SECURITY_POLICY'),
+  // Tip floor endpoint, e.g. a local mock; the public block engine endpoint when unset
+  JITO_TIP_FLOOR_URL: getOptionalEnvVar('JITO_TIP_FLOOR_URL'),
+  // Block engine to pin: a region id (e.g. 'ny') or a URL; regions are raced by latency when unset
+  JITO_BLOCK_ENGINE: getOptionalEnvVar('JITO_BLOCK_ENGINE'),
 } as const;
 
 // Validate required environment variables
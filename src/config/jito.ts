@@ -0,0 +1,41 @@
+import { BlockEngineRegion } from "@/types/jito";
+
+// Mainnet tip payment accounts, used until getTipAccounts answers and to recognise tips
+export const JITO_TIP_ACCOUNTS = [
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT',
+];
+
+// The block engine ignores bundles tipping less than this
+export const MIN_TIP_LAMPORTS = 1_000;
+
+export const DEFAULT_TIP_LAMPORTS = 10_000;
+
+export const TIP_FLOOR_URL = 'https://bundles.jito.wtf/api/v1/bundles/tip_floor';
+
+// The tip floor is recomputed about once a minute
+export const TIP_FLOOR_CACHE_MS = 60_000;
+
+// Jito bundle IDs are hex encoded SHA-256 hashes
+export const BUNDLE_ID_PATTERN = /^[0-9a-f]{64}$/i;
+
+export const CUSTOM_REGION_ID = 'custom';
+
+export const BLOCK_ENGINE_REGIONS: BlockEngineRegion[] = [
+  { id: 'mainnet', name: 'Global', url: 'https://mainnet.block-engine.jito.wtf' },
+  { id: 'amsterdam', name: 'Amsterdam', url: 'https://amsterdam.mainnet.block-engine.jito.wtf' },
+  { id: 'frankfurt', name: 'Frankfurt', url: 'https://frankfurt.mainnet.block-engine.jito.wtf' },
+  { id: 'ny', name: 'New York', url: 'https://ny.mainnet.block-engine.jito.wtf' },
+  { id: 'tokyo', name: 'Tokyo', url: 'https://tokyo.mainnet.block-engine.jito.wtf' },
+  { id: 'slc', name: 'Salt Lake City', url: 'https://slc.mainnet.block-engine.jito.wtf' },
+];
+
+// How long a region is tried last after it failed or rate-limited a request
+export const REGION_ERROR_COOLDOWN_MS = 10_000;
+export const REGION_RATE_LIMIT_COOLDOWN_MS = 30_000;
@@ -0,0 +1,34 @@
+import { ComputeBudgetProgram, SystemProgram } from "@solana/web3.js";
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { ProgramEntry } from "@/types/security";
+import { LIGHTHOUSE_PROGRAM_ID } from "@/integrations/lighthouse/instructions";
+import { MEMO_PROGRAM_ID } from "./programs";
+
+const known = (
+  programId: string,
+  name: string,
+  risk: ProgramEntry['risk'],
+  labels: string[]
+): ProgramEntry => ({ programId, name, status: 'allow', risk, labels, builtIn: true });
+
+// Programs every policy recognises; users can relabel or deny them in the registry
+export const KNOWN_PROGRAMS: ProgramEntry[] = [
+  known(SystemProgram.programId.toBase58(), 'System Program', 'medium', ['native', 'transfers']),
+  known(TOKEN_PROGRAM_ID.toBase58(), 'SPL Token', 'medium', ['native', 'token']),
+  known(TOKEN_2022_PROGRAM_ID.toBase58(), 'Token-2022', 'medium', ['native', 'token']),
+  known(ASSOCIATED_TOKEN_PROGRAM_ID.toBase58(), 'Associated Token Account', 'low', ['native', 'token']),
+  known(ComputeBudgetProgram.programId.toBase58(), 'Compute Budget', 'low', ['native']),
+  known('AddressLookupTab1e1111111111111111111111111', 'Address Lookup Table', 'low', ['native']),
+  known('Stake11111111111111111111111111111111111111', 'Stake Program', 'medium', ['native', 'staking']),
+  known('BPFLoaderUpgradeab1e11111111111111111111111', 'BPF Upgradeable Loader', 'high', ['native', 'deploy']),
+  known(MEMO_PROGRAM_ID.toBase58(), 'Memo', 'low', ['utility']),
+  known('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s', 'Metaplex Token Metadata', 'medium', ['nft']),
+  known('JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4', 'Jupiter Aggregator v6', 'medium', ['dex', 'aggregator']),
+  known('675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8', 'Raydium AMM v4', 'medium', ['dex']),
+  known('CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK', 'Raydium CLMM', 'medium', ['dex']),
+  known('CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C', 'Raydium CPMM', 'medium', ['dex']),
+  known('whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc', 'Orca Whirlpool', 'medium', ['dex']),
+  known(LIGHTHOUSE_PROGRAM_ID.toBase58(), 'Lighthouse', 'low', ['assertions']),
+  known('T1pyyaTNZsKv2WcRAB8oVnk93mLJw2XzjtVYqCsaHqt', 'Jito Tip Payment', 'low', ['jito', 'tips']),
+  known('4R3gSG8BpU4t19KYj8CfnbtRpnT8gtk4dvTHxVRwc2r7', 'Jito Tip Distribution', 'low', ['jito', 'tips']),
+];
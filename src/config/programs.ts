@@ -0,0 +1,115 @@
+import { ComputeBudgetProgram, PublicKey, SystemProgram } from "@solana/web3.js";
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { DataField } from "@/types/instruction";
+import { LIGHTHOUSE_PROGRAM_ID } from "@/integrations/lighthouse/instructions";
+
+export const MEMO_PROGRAM_ID = new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr");
+
+export interface ProgramPreset {
+  id: string;
+  name: string;
+  programId: PublicKey;
+}
+
+// Programs offered by the instruction builder
+export const PROGRAM_PRESETS: ProgramPreset[] = [
+  { id: 'system', name: 'System Program', programId: SystemProgram.programId },
+  { id: 'token', name: 'SPL Token', programId: TOKEN_PROGRAM_ID },
+  { id: 'token-2022', name: 'Token-2022', programId: TOKEN_2022_PROGRAM_ID },
+  { id: 'ata', name: 'Associated Token Account', programId: ASSOCIATED_TOKEN_PROGRAM_ID },
+  { id: 'compute-budget', name: 'Compute Budget', programId: ComputeBudgetProgram.programId },
+  { id: 'memo', name: 'Memo', programId: MEMO_PROGRAM_ID },
+  { id: 'lighthouse', name: 'Lighthouse', programId: LIGHTHOUSE_PROGRAM_ID },
+];
+
+export interface InstructionTemplate {
+  name: string;
+  presetId: string;
+  accounts: { label: string; isSigner: boolean; isWritable: boolean; defaultPubkey?: string }[];
+  fields: DataField[];
+}
+
+// Common instructions pre-filled with their account layout and data fields
+export const INSTRUCTION_TEMPLATES: InstructionTemplate[] = [
+  {
+    name: 'Transfer',
+    presetId: 'system',
+    accounts: [
+      { label: 'From', isSigner: true, isWritable: true },
+      { label: 'To', isSigner: false, isWritable: true },
+    ],
+    fields: [
+      { type: 'u32', value: '2', label: 'Instruction' },
+      { type: 'u64', value: '0', label: 'Lamports' },
+    ],
+  },
+  {
+    name: 'Transfer',
+    presetId: 'token',
+    accounts: [
+      { label: 'Source', isSigner: false, isWritable: true },
+      { label: 'Destination', isSigner: false, isWritable: true },
+      { label: 'Owner', isSigner: true, isWritable: false },
+    ],
+    fields: [
+      { type: 'u8', value: '3', label: 'Instruction' },
+      { type: 'u64', value: '0', label: 'Amount' },
+    ],
+  },
+  {
+    name: 'TransferChecked',
+    presetId: 'token-2022',
+    accounts: [
+      { label: 'Source', isSigner: false, isWritable: true },
+      { label: 'Mint', isSigner: false, isWritable: false },
+      { label: 'Destination', isSigner: false, isWritable: true },
+      { label: 'Owner', isSigner: true, isWritable: false },
+    ],
+    fields: [
+      { type: 'u8', value: '12', label: 'Instruction' },
+      { type: 'u64', value: '0', label: 'Amount' },
+      { type: 'u8', value: '0', label: 'Decimals' },
+    ],
+  },
+  {
+    name: 'CreateIdempotent',
+    presetId: 'ata',
+    accounts: [
+      { label: 'Payer', isSigner: true, isWritable: true },
+      { label: 'Associated Account', isSigner: false, isWritable: true },
+      { label: 'Wallet', isSigner: false, isWritable: false },
+      { label: 'Mint', isSigner: false, isWritable: false },
+      { label: 'System Program', isSigner: false, isWritable: false, defaultPubkey: SystemProgram.programId.toBase58() },
+      { label: 'Token Program', isSigner: false, isWritable: false, defaultPubkey: TOKEN_PROGRAM_ID.toBase58() },
+    ],
+    fields: [
+      { type: 'u8', value: '1', label: 'Instruction' },
+    ],
+  },
+  {
+    name: 'SetComputeUnitLimit',
+    presetId: 'compute-budget',
+    accounts: [],
+    fields: [
+      { type: 'u8', value: '2', label: 'Instruction' },
+      { type: 'u32', value: '200000', label: 'Units' },
+    ],
+  },
+  {
+    name: 'SetComputeUnitPrice',
+    presetId: 'compute-budget',
+    accounts: [],
+    fields: [
+      { type: 'u8', value: '3', label: 'Instruction' },
+      { type: 'u64', value: '1000', label: 'Micro-lamports' },
+    ],
+  },
+  {
+    name: 'Memo',
+    presetId: 'memo',
+    accounts: [],
+    fields: [
+      { type: 'utf8', value: '', label: 'Memo' },
+    ],
+  },
+];
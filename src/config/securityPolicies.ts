@@ -0,0 +1,42 @@
+import { SecurityPolicy } from "@/types/security";
+
+// Built-in policies, written in the same JSON shape a custom policy is loaded from
+
+// The default, for unattended bots: the compute, account, instruction, transfer and rate limits
+// SecurityService enforced before policies existed, plus the wallet outflow limits. Programs
+// missing from the registry only warn, denying them is an opt-in ('deny' in a custom policy)
+export const PRODUCTION_POLICY: SecurityPolicy = {
+  id: 'production',
+  name: 'Production bots',
+  description: 'Strict limits, every finding except warnings blocks the bundle',
+  failOn: 'low',
+  rules: {
+    'blockhash-age': { thresholds: { maxAgeSlots: 100 } },
+    'compute-budget': { thresholds: { maxComputeUnits: 200_000 } },
+    'account-count': { thresholds: { maxAccounts: 10 } },
+    'instruction-count': { thresholds: { maxInstructions: 20 } },
+    'program-invocations': { unknownPrograms: 'warn' },
+    'fee-manipulation': { thresholds: { maxSystemTransfers: 1 } },
+    'rate-limit': { thresholds: { windowMs: 60_000, maxTransactions: 10 } },
+    'wallet-outflow': { thresholds: { maxSolOutflowLamports: 100_000_000, maxTokenOutflowPercent: 50 } },
+  },
+};
+
+// Relaxed limits for building and simulating bundles by hand
+export const MANUAL_TESTING_POLICY: SecurityPolicy = {
+  id: 'manual-testing',
+  name: 'Manual testing',
+  description: 'Loose limits, only high severity findings block the bundle',
+  failOn: 'high',
+  rules: {
+    'compute-budget': { thresholds: { maxComputeUnits: 1_400_000 } },
+    'account-count': { thresholds: { maxAccounts: 64 } },
+    'instruction-count': { thresholds: { maxInstructions: 64 } },
+    'program-invocations': { unknownPrograms: 'warn' },
+    'fee-manipulation': { severity: 'low' },
+    'rate-limit': { enabled: false },
+    'wallet-outflow': { thresholds: { maxSolOutflowLamports: 1_000_000_000, maxTokenOutflowPercent: 90 } },
+  },
+};
+
+export const SECURITY_POLICIES: SecurityPolicy[] = [PRODUCTION_POLICY, MANUAL_TESTING_POLICY];
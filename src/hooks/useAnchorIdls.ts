@@ -0,0 +1,94 @@
+import { useCallback, useState } from "react";
+import { PublicKey } from "@solana/web3.js";
+import { useToast } from "@/hooks/use-toast";
+import { anchorIdlService } from "@/services/anchorIdlService";
+import { AnchorIdl, StoredIdl } from "@/types/idl";
+
+const parseProgramId = (programId: string): PublicKey | null => {
+  try {
+    return new PublicKey(programId.trim());
+  } catch (error) {
+    return null;
+  }
+};
+
+export const useAnchorIdls = () => {
+  const { toast } = useToast();
+  const [idls, setIdls] = useState<Record<string, StoredIdl>>(() => anchorIdlService.getStoredIdls());
+
+  const getIdl = useCallback((programId: string): AnchorIdl | undefined =>
+    idls[programId]?.idl, [idls]);
+
+  const storeIdl = useCallback((programId: PublicKey, idl: AnchorIdl, source: StoredIdl['source']) => {
+    const entry = anchorIdlService.saveIdl(programId.toBase58(), idl, source);
+    setIdls(prev => ({ ...prev, [entry.programId]: entry }));
+    toast({
+      title: "IDL Loaded",
+      description: `${idl.instructions.length} instructions available for ${idl.metadata?.name ?? idl.name ?? programId.toBase58()}`,
+    });
+  }, [toast]);
+
+  const uploadIdl = useCallback((programId: string, json: string): boolean => {
+    try {
+      const idl = anchorIdlService.parseIdl(json);
+      // Newer IDLs carry their program address, use it when none was entered
+      const key = parseProgramId(programId) ?? (idl.address ? parseProgramId(idl.address) : null);
+      if (!key) {
+        throw new Error("Enter the program ID this IDL belongs to");
+      }
+      storeIdl(key, idl, 'upload');
+      return true;
+    } catch (error) {
+      console.error("Error loading IDL:", error);
+      toast({
+        title: "Invalid IDL",
+        description: error instanceof Error ? error.message : "Failed to load IDL",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [storeIdl, toast]);
+
+  const fetchIdl = useCallback(async (programId: string): Promise<boolean> => {
+    const key = parseProgramId(programId);
+    if (!key) {
+      toast({
+        title: "Invalid Program ID",
+        description: "Enter a valid program ID to fetch its IDL",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    try {
+      const idl = await anchorIdlService.fetchOnChainIdl(key);
+      storeIdl(key, idl, 'onchain');
+      return true;
+    } catch (error) {
+      console.error("Error fetching on-chain IDL:", error);
+      toast({
+        title: "IDL Fetch Failed",
+        description: error instanceof Error ? error.message : "Failed to fetch IDL",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [storeIdl, toast]);
+
+  const removeIdl = useCallback((programId: string) => {
+    anchorIdlService.removeIdl(programId);
+    setIdls(prev => {
+      const next = { ...prev };
+      delete next[programId];
+      return next;
+    });
+  }, []);
+
+  return {
+    idls,
+    getIdl,
+    uploadIdl,
+    fetchIdl,
+    removeIdl
+  };
+};
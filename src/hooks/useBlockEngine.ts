@@ -0,0 +1,44 @@
+import { useCallback, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { blockEngineService } from "@/services/blockEngineService";
+import { BlockEngineSettings, RegionLatency } from "@/types/jito";
+
+export const useBlockEngine = () => {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<BlockEngineSettings>(() => blockEngineService.getSettings());
+  const [latencies, setLatencies] = useState<RegionLatency[]>(() => blockEngineService.getLatencies());
+  const [probing, setProbing] = useState(false);
+
+  const updateSettings = useCallback((changes: Partial<BlockEngineSettings>): boolean => {
+    try {
+      setSettings(blockEngineService.updateSettings(changes));
+      return true;
+    } catch (error) {
+      console.error("Error updating block engine settings:", error);
+      toast({
+        title: "Invalid Block Engine",
+        description: "Enter a full URL, e.g. https://ny.mainnet.block-engine.jito.wtf",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [toast]);
+
+  const probeLatency = useCallback(async () => {
+    setProbing(true);
+    try {
+      setLatencies(await blockEngineService.probeLatency());
+    } finally {
+      setProbing(false);
+    }
+  }, []);
+
+  return {
+    blockEngineSettings: settings,
+    blockEngineRegions: blockEngineService.getRegions(),
+    latencies,
+    probing,
+    updateBlockEngineSettings: updateSettings,
+    probeLatency
+  };
+};
@@ -1,93 +1,135 @@
 
-import { Transaction } from "@solana/web3.js";
 import { jitoService } from "@/services/jitoService";
 import { useToast } from "@/hooks/use-toast";
 import { connection } from "@/lib/solana";
 import { SimulationResult } from "./useBundleState";
 import { lighthouseService } from "@/services/lighthouseService";
+import { securityService } from "@/services/securityService";
+import { fitBundleLimit, PlacedAssertions, placeAssertions } from "@/integrations/lighthouse";
+import { toBundlePostState } from "@/integrations/lighthouse/assertions";
 import { setWalletContext } from "@/utils/bundleStorage";
+import { BundleTransaction } from "@/types/transaction";
+import { AssertionOverrides } from "@/types/lighthouse";
+import {
+  getFeePayer,
+  getRecentBlockhash,
+  fetchLatestBlockhash,
+  getSignature,
+  hasFeePayerSignature,
+  isVersionedTransaction,
+  setRecentBlockhash
+} from "@/utils/transactionUtils";
 
 export const useBundleOperations = () => {
   const { toast } = useToast();
 
-  const synchronizeTransactions = async (transactions: Transaction[]) => {
+  const synchronizeTransactions = async (
+    transactions: BundleTransaction[],
+    assertionOverrides: Record<number, AssertionOverrides> = {}
+  ): Promise<BundleTransaction[][]> => {
     try {
       // Get latest blockhash for transaction validity
-      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash({
-        commitment: 'confirmed'
-      });
+      const { blockhash, lastValidBlockHeight } = await fetchLatestBlockhash('confirmed');
       console.log('Synchronizing transactions with blockhash:', blockhash);
       
-      return Promise.all(transactions.map(async (tx) => {
-        // Update original transaction with new blockhash
-        tx.recentBlockhash = blockhash;
-        tx.lastValidBlockHeight = lastValidBlockHeight;
-        
-        // First validate the original transaction
-        const validationResult = await jitoService.simulateTransactions([tx], { skipLighthouseCheck: true });
-        if (!validationResult.isValid && !validationResult.normalErrors) {
-          console.error(`Transaction validation failed: ${validationResult.error}`);
+      // Work on copies with the new blockhash, the originals stay in bundle state
+      const synced = transactions.map(original => setRecentBlockhash(original, blockhash, lastValidBlockHeight));
+
+      // Assertions pin each transaction's result within the unguarded bundle
+      const baseline = await jitoService.simulateTransactions(synced, { skipLighthouseCheck: true });
+      
+      const groups = await Promise.all(synced.map(async (tx, index): Promise<PlacedAssertions> => {
+        const unguarded: PlacedAssertions = { transactions: [tx], placement: 'none' };
+        const baselineResult = baseline.results?.[index];
+        if (!baselineResult?.success) {
+          console.error(`Transaction validation failed: ${baselineResult?.message || baseline.error}`);
           // Return the transaction by itself, without assertion if it's invalid
-          return [tx];
+          return unguarded;
         }
         
         // Build assertions for the transaction only if transaction is valid
-        const assertionResult = await lighthouseService.buildAssertions(tx);
+        const assertionResult = await lighthouseService.buildAssertions(
+          tx,
+          undefined,
+          assertionOverrides[index],
+          toBundlePostState(baselineResult, index)
+        );
         
         // Check if Lighthouse program is available
         if (!assertionResult.isProgramAvailable) {
           console.log("Lighthouse program not found on mainnet - continuing without assertions");
-          return [tx]; // Continue without assertion
+          return unguarded; // Continue without assertion
         }
         
         // If there's an assertion transaction, update it with the same blockhash
         if (assertionResult.success && assertionResult.assertionTransaction) {
           assertionResult.assertionTransaction.recentBlockhash = blockhash;
           assertionResult.assertionTransaction.lastValidBlockHeight = lastValidBlockHeight;
-          if (tx.feePayer) {
-            assertionResult.assertionTransaction.feePayer = tx.feePayer;
+          const feePayer = getFeePayer(tx);
+          if (feePayer) {
+            assertionResult.assertionTransaction.feePayer = feePayer;
           }
           
-          // Only include assertion transaction if it was successfully created
-          return [tx, assertionResult.assertionTransaction];
+          // Inline the assertions when they fit, otherwise add the assertion transaction after the original
+          const placed = await placeAssertions(tx, assertionResult.assertionTransaction, {
+            unitsConsumed: assertionResult.unitsConsumed
+          });
+          console.log(`Assertions placed ${placed.placement} for transaction`);
+          return placed;
         }
         
         console.log('Transaction synchronized with blockhash:', blockhash);
-        return [tx]; // If no assertion created, return only the original tx
+        return unguarded; // If no assertion created, return only the original tx
       }));
+
+      // Separate assertion transactions can push the bundle past the Jito limit
+      return fitBundleLimit(groups).placed.map(group => group.transactions);
     } catch (error) {
       console.error("Error synchronizing transactions:", error);
       throw error;
     }
   };
 
-  const verifyBlockhash = (transactions: Transaction[]) => {
+  const verifyBlockhash = (transactions: BundleTransaction[]) => {
     for (const tx of transactions) {
-      if (!tx.recentBlockhash) {
+      const recentBlockhash = getRecentBlockhash(tx);
+      if (!recentBlockhash) {
         throw new Error('Transaction missing recentBlockhash after synchronization');
       }
-      console.log('Verified blockhash for transaction:', tx.recentBlockhash);
+      console.log('Verified blockhash for transaction:', recentBlockhash);
     }
   };
 
-  const verifyAccounts = async (transactions: Transaction[]) => {
+  // Simulation replaces blockhashes, so one that expired after the review has to be caught here
+  const verifyBlockhashValid = async (transactions: BundleTransaction[]) => {
+    const blockhashes = [...new Set(transactions.map(tx => getRecentBlockhash(tx) ?? ''))];
+    for (const blockhash of blockhashes) {
+      const { value: isValid } = await connection.isBlockhashValid(blockhash, { commitment: 'confirmed' });
+      if (!isValid) {
+        throw new Error('The bundle\'s blockhash has expired since it was simulated, simulate it again before executing');
+      }
+    }
+  };
+
+  const verifyAccounts = async (transactions: BundleTransaction[]) => {
     try {
       // Check if accounts referenced in transactions exist
       for (const tx of transactions) {
         // Check the fee payer account
-        if (tx.feePayer) {
-          const feePayerInfo = await connection.getAccountInfo(tx.feePayer);
+        const feePayer = getFeePayer(tx);
+        if (feePayer) {
+          const feePayerInfo = await connection.getAccountInfo(feePayer);
           if (!feePayerInfo) {
-            console.error(`Fee payer account ${tx.feePayer.toString()} does not exist`);
+            console.error(`Fee payer account ${feePayer.toString()} does not exist`);
             return {
               valid: false,
-              error: `Fee payer account ${tx.feePayer.toString()} not found or has no balance`
+              error: `Fee payer account ${feePayer.toString()} not found or has no balance`
             };
           }
           
           // Check if fee payer has sufficient balance (minimum 0.01 SOL)
           if (feePayerInfo.lamports < 10_000_000) {
-            console.error(`Fee payer account ${tx.feePayer.toString()} has insufficient balance`);
+            console.error(`Fee payer account ${feePayer.toString()} has insufficient balance`);
             return {
               valid: false,
               error: `Fee payer account has insufficient balance (needs at least 0.01 SOL)`
@@ -107,10 +149,11 @@ export const useBundleOperations = () => {
   };
 
   const simulateBundle = async (
-    transactions: Transaction[],
+    transactions: BundleTransaction[],
     publicKey: string,
     setLoading: (loading: boolean) => void,
-    setSimulationStatus: (status: 'idle' | 'success' | 'failed') => void
+    setSimulationStatus: (status: 'idle' | 'success' | 'failed') => void,
+    assertionOverrides: Record<number, AssertionOverrides> = {}
   ): Promise<SimulationResult[]> => {
     if (transactions.length === 0) {
       toast({
@@ -150,7 +193,7 @@ export const useBundleOperations = () => {
 
       // Synchronize transactions with latest blockhash
       // This already includes validation, so we don't need a separate validation step
-      const synchronizedTransactionGroups = await synchronizeTransactions(transactions);
+      const synchronizedTransactionGroups = await synchronizeTransactions(transactions, assertionOverrides);
       const flattenedTransactions = synchronizedTransactionGroups.flat();
       verifyBlockhash(flattenedTransactions);
       
@@ -211,29 +254,41 @@ export const useBundleOperations = () => {
     }
   };
 
+  // Result of each transaction the user added, skipping the assertion transactions placed after it
+  const toOriginalResults = (guarded: BundleTransaction[][], results: SimulationResult[] = []) => {
+    let offset = 0;
+    return guarded.map(group => {
+      const result = results[offset];
+      offset += group.length;
+      return result;
+    });
+  };
+
+  // Signs and submits the guarded transactions of the last successful simulation as they are,
+  // one group per transaction the user added, so the wallet signs what the user reviewed
   const executeBundle = async (
-    transactions: Transaction[],
+    guarded: BundleTransaction[][],
     publicKey: string,
-    signTransaction: ((transaction: Transaction) => Promise<Transaction>) | undefined,
+    signTransaction: (<T extends BundleTransaction>(transaction: T) => Promise<T>) | undefined,
     setLoading: (loading: boolean) => void,
     setExecutionStatus: (status: 'idle' | 'success' | 'failed') => void
-  ): Promise<string[]> => {
+  ): Promise<{ bundleId: string; signatures: string[] } | null> => {
     if (!signTransaction) {
       toast({
         title: "Error",
         description: "Please connect your wallet first",
         variant: "destructive",
       });
-      return [];
+      return null;
     }
 
-    if (transactions.length === 0) {
+    if (guarded.length === 0) {
       toast({
         title: "Error",
         description: "No transactions to execute",
         variant: "destructive",
       });
-      return [];
+      return null;
     }
 
     setLoading(true);
@@ -245,30 +300,21 @@ export const useBundleOperations = () => {
       
       console.log('Starting bundle execution process');
       
-      // First, verify accounts exist before any synchronization
-      const accountVerification = await verifyAccounts(transactions);
+      const flattenedTransactions = guarded.flat();
+      const accountVerification = await verifyAccounts(flattenedTransactions);
       if (!accountVerification.valid) {
         throw new Error(accountVerification.error || 'Account verification failed');
       }
-      
-      // Synchronize transactions with latest blockhash
-      const synchronizedTransactionGroups = await synchronizeTransactions(transactions);
-      const flattenedTransactions = synchronizedTransactionGroups.flat();
       verifyBlockhash(flattenedTransactions);
-      console.log('Transactions synchronized and verified before signing');
+      await verifyBlockhashValid(flattenedTransactions);
 
       // Sign all transactions
       console.log("Signing all transactions...");
       const signedTransactions = await Promise.all(
         flattenedTransactions.map(async (tx) => {
-          console.log('Signing transaction with feePayer:', tx.feePayer?.toBase58());
+          console.log('Signing transaction with feePayer:', getFeePayer(tx)?.toBase58());
           const signedTx = await signTransaction(tx);
-          console.log('Transaction signed, signatures:', 
-            signedTx.signatures.map(sig => ({
-              pubkey: sig.publicKey.toBase58(),
-              signature: sig.signature?.toString('base64') || 'null'
-            }))
-          );
+          console.log('Transaction signed, version:', isVersionedTransaction(signedTx) ? signedTx.version : 'legacy');
           return signedTx;
         })
       );
@@ -276,7 +322,7 @@ export const useBundleOperations = () => {
       // Verify all transactions are properly signed
       console.log("Verifying signatures for all transactions...");
       signedTransactions.forEach((tx, index) => {
-        if (!tx.signatures.some(sig => sig.signature)) {
+        if (!hasFeePayerSignature(tx)) {
           throw new Error(`Transaction ${index} is missing signatures after signing`);
         }
       });
@@ -287,9 +333,19 @@ export const useBundleOperations = () => {
         throw new Error(`Bundle simulation failed: ${simulationResult.error}`);
       }
 
+      // The policy or the chain may have changed since the bundle was reviewed
+      const bundleReport = await securityService.validateBundle(
+        publicKey,
+        toOriginalResults(guarded, simulationResult.results)
+      );
+      if (!bundleReport.isValid) {
+        throw new Error(`Bundle failed the security check: ${bundleReport.reason}`);
+      }
+
       console.log("All transactions signed and verified, submitting bundle to Jito...");
-      const result = await jitoService.submitBundle(signedTransactions);
-      const signatures = result.signatures || [];
+      const bundleId = await jitoService.submitBundle(signedTransactions);
+      securityService.recordSubmitted(signedTransactions);
+      const signatures = signedTransactions.flatMap(tx => getSignature(tx) ?? []);
 
       setExecutionStatus('success');
       toast({
@@ -297,7 +353,7 @@ export const useBundleOperations = () => {
         description: "Bundle executed successfully via Jito",
       });
 
-      return signatures;
+      return { bundleId, signatures };
     } catch (error) {
       console.error("Execution error:", error);
       setExecutionStatus('failed');
@@ -306,7 +362,7 @@ export const useBundleOperations = () => {
         description: error instanceof Error ? error.message : "Unknown error occurred",
         variant: "destructive",
       });
-      return [];
+      return null;
     } finally {
       setLoading(false);
     }
@@ -1,28 +1,68 @@
 
-import { useState, useEffect } from "react";
-import { Transaction } from "@solana/web3.js";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { toast } from "sonner";
+import { SimulationResult, SimulationStrategy } from "@/types/simulation";
+import { BundleTransaction } from "@/types/transaction";
+import { AssertionOverrides } from "@/types/lighthouse";
+import { getTransactionId, loadBundle, saveBundle } from "@/utils/bundleStorage";
 
-export type SimulationStatus = 'idle' | 'success' | 'failed';
+export type { SimulationResult };
 
-export interface SimulationResult {
-  success: boolean;
-  message?: string;
-}
+export type SimulationStatus = 'idle' | 'success' | 'failed';
 
 export const useBundleState = () => {
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [transactions, setTransactions] = useState<BundleTransaction[]>([]);
   const [simulationResults, setSimulationResults] = useState<SimulationResult[]>([]);
+  // Lighthouse assertion edits keyed by transaction id, so they stay with their transaction
+  const [assertionOverrides, setAssertionOverrides] = useState<Record<string, AssertionOverrides>>({});
   const [loading, setLoading] = useState(false);
   const [simulationStatus, setSimulationStatus] = useState<SimulationStatus>('idle');
+  const [simulationStrategy, setSimulationStrategy] = useState<SimulationStrategy>('auto');
   const [isExecutable, setIsExecutable] = useState<boolean | null>(null);
-  const { connected, connecting } = useWallet();
+  const { connected, connecting, publicKey } = useWallet();
+  const walletAddress = publicKey?.toBase58() ?? null;
+  // Wallet whose saved bundle the state holds
+  const restoredWallet = useRef<string | null>(null);
+  // State rendered before the restore lands must not overwrite the saved bundle
+  const restorePending = useRef(false);
+
+  // The bundle is stored per wallet and restored when that wallet connects
+  useEffect(() => {
+    restoredWallet.current = walletAddress;
+    if (!walletAddress) return;
+
+    const saved = loadBundle(walletAddress);
+    restorePending.current = true;
+    setTransactions(saved?.transactions ?? []);
+    setAssertionOverrides(saved?.assertionOverrides ?? {});
+  }, [walletAddress]);
+
+  useEffect(() => {
+    if (restorePending.current) {
+      restorePending.current = false;
+      return;
+    }
+    if (restoredWallet.current) {
+      saveBundle(restoredWallet.current, transactions, assertionOverrides);
+    }
+  }, [transactions, assertionOverrides]);
+
+  // Positional view of the edits for the simulation and execution hooks
+  const indexedAssertionOverrides = useMemo(
+    () => transactions.reduce<Record<number, AssertionOverrides>>((indexed, tx, index) => {
+      const overrides = assertionOverrides[getTransactionId(tx)];
+      if (overrides) indexed[index] = overrides;
+      return indexed;
+    }, {}),
+    [transactions, assertionOverrides]
+  );
 
   useEffect(() => {
     if (!connected && !connecting) {
       setTransactions([]);
       setSimulationResults([]);
+      setAssertionOverrides({});
       setSimulationStatus('idle');
       setIsExecutable(null);
       toast.info('Wallet disconnected. Please connect your wallet to continue.');
@@ -62,10 +102,15 @@ export const useBundleState = () => {
     setTransactions,
     simulationResults,
     setSimulationResults,
+    assertionOverrides,
+    setAssertionOverrides,
+    indexedAssertionOverrides,
     loading,
     setLoading,
     simulationStatus,
     setSimulationStatus,
+    simulationStrategy,
+    setSimulationStrategy,
     isExecutable,
     setIsExecutable,
     isBundleExecutable
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { bundleTrackerService } from "@/services/bundleTrackerService";
+import { TrackedBundle } from "@/types/jito";
+
+const POLL_INTERVAL_MS = 2_000;
+
+export const useBundleTracker = () => {
+  const { toast } = useToast();
+  const [bundles, setBundles] = useState<TrackedBundle[]>(() => bundleTrackerService.getHistory());
+  const polling = useRef(false);
+
+  const refresh = useCallback(async () => {
+    // A slow block engine must not stack up overlapping polls
+    if (polling.current) return;
+    polling.current = true;
+    try {
+      setBundles([...await bundleTrackerService.refresh()]);
+    } finally {
+      polling.current = false;
+    }
+  }, []);
+
+  const hasActive = bundles.some(bundle => bundleTrackerService.isActive(bundle));
+  useEffect(() => {
+    if (!hasActive) return;
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActive, refresh]);
+
+  const trackBundle = useCallback((bundleId: string, transactions: string[] = []): boolean => {
+    try {
+      bundleTrackerService.track(bundleId.trim(), transactions);
+      setBundles([...bundleTrackerService.getHistory()]);
+      return true;
+    } catch (error) {
+      console.error("Error tracking bundle:", error);
+      toast({
+        title: "Invalid Bundle ID",
+        description: error instanceof Error ? error.message : "Enter a valid bundle ID",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [toast]);
+
+  const removeBundle = useCallback((bundleId: string) => {
+    bundleTrackerService.remove(bundleId);
+    setBundles([...bundleTrackerService.getHistory()]);
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    bundleTrackerService.clear();
+    setBundles([]);
+  }, []);
+
+  return {
+    bundles,
+    trackBundle,
+    removeBundle,
+    clearHistory,
+    refreshBundles: refresh
+  };
+};
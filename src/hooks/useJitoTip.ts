@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { jitoService } from "@/services/jitoService";
+import { tipFloorService } from "@/services/tipFloorService";
+import { DEFAULT_TIP_LAMPORTS, MIN_TIP_LAMPORTS } from "@/config/jito";
+import { BundleTransaction } from "@/types/transaction";
+import { TipFloor } from "@/types/jito";
+import { TipTransfer, canAppendTip, createTipInstruction, findBundleTips } from "@/utils/jitoTips";
+import { appendInstructions, getFeePayer, validateBundleTransaction } from "@/utils/transactionUtils";
+
+export const useJitoTip = (transactions: BundleTransaction[]) => {
+  const { toast } = useToast();
+  // null while the bundle is being checked
+  const [tips, setTips] = useState<TipTransfer[] | null>(null);
+  const [tipLamports, setTipLamports] = useState(DEFAULT_TIP_LAMPORTS);
+  const [tipFloor, setTipFloor] = useState<TipFloor | null>(null);
+  const [loadingTipFloor, setLoadingTipFloor] = useState(false);
+
+  const refreshTipFloor = useCallback(async (force: boolean = false) => {
+    setLoadingTipFloor(true);
+    try {
+      setTipFloor(await tipFloorService.getTipFloor(force));
+    } catch (error) {
+      console.error("Error fetching tip floor:", error);
+      if (force) {
+        toast({
+          title: "Tip Floor Unavailable",
+          description: error instanceof Error ? error.message : "Failed to fetch the tip floor",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setLoadingTipFloor(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    refreshTipFloor();
+  }, [refreshTipFloor]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setTips(null);
+    findBundleTips(transactions)
+      .then(found => {
+        if (!cancelled) setTips(found);
+      })
+      .catch(error => {
+        console.error("Error checking bundle for Jito tips:", error);
+        if (!cancelled) setTips([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [transactions]);
+
+  // Copy of the last transaction paying the tip to the next tip account, or null when it can't take one
+  const addTip = useCallback(async (): Promise<BundleTransaction | null> => {
+    const last = transactions[transactions.length - 1];
+    const feePayer = last && getFeePayer(last);
+    if (!last || !feePayer) {
+      toast({
+        title: "Error",
+        description: "Add a transaction with a fee payer before adding a tip",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    if (!Number.isInteger(tipLamports) || tipLamports < MIN_TIP_LAMPORTS) {
+      toast({
+        title: "Invalid Tip",
+        description: `Tips must be at least ${MIN_TIP_LAMPORTS} lamports`,
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    if (!canAppendTip(last)) {
+      toast({
+        title: "Cannot Add Tip",
+        description: "The last transaction has signers besides the fee payer and can't be rewritten",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    try {
+      const tipAccount = await jitoService.getNextTipAccount();
+      const tipped = await appendInstructions(last, [createTipInstruction(feePayer, tipAccount, tipLamports)]);
+
+      const validationError = validateBundleTransaction(tipped);
+      if (validationError) {
+        toast({
+          title: "Cannot Add Tip",
+          description: validationError,
+          variant: "destructive",
+        });
+        return null;
+      }
+
+      console.log(`Added ${tipLamports} lamport tip to ${tipAccount.toBase58()}`);
+      toast({
+        title: "Tip Added",
+        description: `The last transaction now tips ${tipLamports} lamports to ${tipAccount.toBase58().slice(0, 8)}...`,
+      });
+      return tipped;
+    } catch (error) {
+      console.error("Error adding Jito tip:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add tip",
+        variant: "destructive",
+      });
+      return null;
+    }
+  }, [toast, transactions, tipLamports]);
+
+  return {
+    tips,
+    tipLamports,
+    setTipLamports,
+    addTip,
+    tipFloor,
+    loadingTipFloor,
+    refreshTipFloor
+  };
+};
@@ -1,6 +1,8 @@
 
 import { useState, useEffect, useCallback } from 'react';
-import { Transaction, PublicKey } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
+import { BundleTransaction } from '@/types/transaction';
+import { AssertionPlacement, GuardrailOptions } from '@/types/lighthouse';
 import { lighthouseService } from '@/services/lighthouseService';
 import { createLighthouseGuardrail, analyzeBundleSecurity } from '@/integrations/lighthouse';
 import { getLighthouseStatus, setLighthouseStatus } from '@/integrations/lighthouse/storage';
@@ -57,8 +59,9 @@ export const useLighthouse = () => {
   
   // Protect a bundle of transactions with Lighthouse assertions
   const protectBundle = useCallback(async (
-    transactions: Transaction[], 
-    feePayer: PublicKey
+    transactions: BundleTransaction[], 
+    feePayer: PublicKey,
+    options?: GuardrailOptions
   ) => {
     if (!isAvailable) {
       console.warn("Lighthouse not available, returning original transactions");
@@ -66,15 +69,16 @@ export const useLighthouse = () => {
         success: true,
         protectedTransactions: transactions,
         assertionCount: 0,
+        assertionPlacements: transactions.map((): AssertionPlacement => 'none'),
         error: "Lighthouse not available on this network"
       };
     }
     
-    return await createLighthouseGuardrail(transactions, feePayer);
+    return await createLighthouseGuardrail(transactions, feePayer, options);
   }, [isAvailable]);
   
   // Analyze a bundle for security issues
-  const analyzeBundle = useCallback(async (transactions: Transaction[]) => {
+  const analyzeBundle = useCallback(async (transactions: BundleTransaction[]) => {
     return await analyzeBundleSecurity(transactions);
   }, []);
 
@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+import { PublicKey } from "@solana/web3.js";
+import { MINT_SIZE, MintLayout } from "@solana/spl-token";
+import { connection } from "@/lib/solana";
+
+// Mint accounts are read-only in most transactions, so their decimals are fetched separately
+export const useMintDecimals = (mints: string[]) => {
+  const [decimals, setDecimals] = useState<Record<string, number>>({});
+  const mintKey = [...new Set(mints)].sort().join(',');
+
+  useEffect(() => {
+    const addresses = mintKey ? mintKey.split(',') : [];
+    if (addresses.length === 0) return;
+    let cancelled = false;
+
+    connection.getMultipleAccountsInfo(addresses.map(address => new PublicKey(address)))
+      .then(infos => {
+        if (cancelled) return;
+        const loaded: Record<string, number> = {};
+        infos.forEach((info, index) => {
+          if (info && info.data.length >= MINT_SIZE) {
+            loaded[addresses[index]] = MintLayout.decode(info.data.subarray(0, MINT_SIZE)).decimals;
+          }
+        });
+        setDecimals(prev => ({ ...prev, ...loaded }));
+      })
+      .catch(error => console.error("Error fetching mint decimals:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mintKey]);
+
+  return decimals;
+};
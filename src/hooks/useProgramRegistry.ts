@@ -0,0 +1,37 @@
+import { useCallback, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { programRegistryService } from "@/services/programRegistryService";
+import { ProgramEntry } from "@/types/security";
+
+export const useProgramRegistry = () => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<ProgramEntry[]>(() => programRegistryService.getEntries());
+
+  const saveProgram = useCallback((entry: Omit<ProgramEntry, 'builtIn'>): boolean => {
+    try {
+      const saved = programRegistryService.saveEntry(entry);
+      setEntries(programRegistryService.getEntries());
+      console.log(`Program registry entry saved: ${saved.name} (${saved.status})`);
+      return true;
+    } catch (error) {
+      console.error("Error saving program registry entry:", error);
+      toast({
+        title: "Invalid Program",
+        description: "Enter a valid program ID",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [toast]);
+
+  const removeProgram = useCallback((programId: string) => {
+    programRegistryService.removeEntry(programId);
+    setEntries(programRegistryService.getEntries());
+  }, []);
+
+  return {
+    programs: entries,
+    saveProgram,
+    removeProgram
+  };
+};
@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import { BundleTransaction, ResolvedTransaction } from "@/types/transaction";
+import { resolveTransaction } from "@/utils/transactionUtils";
+
+// Resolves address lookup tables for every transaction in the bundle
+export const useResolvedTransactions = (transactions: BundleTransaction[]) => {
+  const [resolved, setResolved] = useState<(ResolvedTransaction | null)[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(transactions.map(async tx => {
+      try {
+        return await resolveTransaction(tx);
+      } catch (error) {
+        console.error("Error resolving transaction accounts:", error);
+        return null;
+      }
+    })).then(results => {
+      if (!cancelled) setResolved(results);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [transactions]);
+
+  return resolved;
+};
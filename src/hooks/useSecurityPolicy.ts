@@ -0,0 +1,44 @@
+import { useCallback, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { SECURITY_POLICIES } from "@/config/securityPolicies";
+import { securityService } from "@/services/securityService";
+import { SecurityPolicy } from "@/types/security";
+
+export const useSecurityPolicy = () => {
+  const { toast } = useToast();
+  const [policy, setPolicy] = useState<SecurityPolicy>(() => securityService.getPolicy());
+
+  const selectPolicy = useCallback((policyId: string) => {
+    const selected = SECURITY_POLICIES.find(candidate => candidate.id === policyId);
+    if (!selected) return;
+    securityService.setPolicy(selected);
+    setPolicy(selected);
+  }, []);
+
+  const loadPolicy = useCallback((json: string): boolean => {
+    try {
+      const loaded = securityService.loadPolicy(json);
+      setPolicy(loaded);
+      toast({
+        title: "Security Policy Loaded",
+        description: `${loaded.name} is now applied to every simulation`,
+      });
+      return true;
+    } catch (error) {
+      console.error("Error loading security policy:", error);
+      toast({
+        title: "Invalid Security Policy",
+        description: error instanceof Error ? error.message : "Failed to load policy",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [toast]);
+
+  return {
+    policy,
+    policies: SECURITY_POLICIES,
+    selectPolicy,
+    loadPolicy
+  };
+};
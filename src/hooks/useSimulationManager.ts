@@ -1,29 +1,51 @@
-import { Transaction, ComputeBudgetProgram } from "@solana/web3.js";
+import { ComputeBudgetProgram } from "@solana/web3.js";
 import { jitoService } from "@/services/jitoService";
 import { useToast } from "@/hooks/use-toast";
-import { connection } from "@/lib/solana";
 import { SimulationResult } from "./useBundleState";
 import { lighthouseService } from "@/services/lighthouseService";
+import { securityService } from "@/services/securityService";
+import { fitBundleLimit, MAX_BUNDLE_TRANSACTIONS, placeAssertions } from "@/integrations/lighthouse";
+import { toBundlePostState } from "@/integrations/lighthouse/assertions";
 import { setWalletContext } from "@/utils/bundleStorage";
+import { BundleTransaction } from "@/types/transaction";
+import { AssertionOverrides, AssertionPlacement } from "@/types/lighthouse";
+import { SecurityReport } from "@/types/security";
+import { SimulationStrategy } from "@/types/simulation";
+import { fetchLatestBlockhash, getFeePayer, getProgramInstructions, setRecentBlockhash } from "@/utils/transactionUtils";
+import { decodeInstruction, getNumericParam } from "@/utils/instructionDecoder";
+
+// An original transaction and what it was expanded to (assertions inline or trailing)
+interface SynchronizedGroup {
+  transactions: BundleTransaction[];
+  index: number;
+  malicious: boolean;
+  error?: string;
+  assertionPlacement: AssertionPlacement;
+  securityReport?: SecurityReport;
+}
 
 export const useSimulationManager = () => {
   const { toast } = useToast();
 
-  const synchronizeTransactions = async (transactions: Transaction[]) => {
+  const synchronizeTransactions = async (
+    transactions: BundleTransaction[],
+    assertionOverrides: Record<number, AssertionOverrides> = {},
+    strategy: SimulationStrategy = 'auto'
+  ) => {
     try {
       // Get latest blockhash for transaction validity
-      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash({
-        commitment: 'confirmed'
-      });
+      const { blockhash, lastValidBlockHeight } = await fetchLatestBlockhash('confirmed');
       console.log('Synchronizing transactions with blockhash:', blockhash);
       
-      return Promise.all(transactions.map(async (tx, index) => {
-        // Update original transaction with new blockhash
-        tx.recentBlockhash = blockhash;
-        tx.lastValidBlockHeight = lastValidBlockHeight;
-        
-        // Validate each transaction individually first
-        const validationResult = await jitoService.simulateTransactions([tx], { skipLighthouseCheck: true });
+      // Work on copies with the new blockhash, the originals stay in bundle state
+      const synced = transactions.map(original => setRecentBlockhash(original, blockhash, lastValidBlockHeight));
+
+      // Simulate the unguarded bundle once, so each transaction's assertions pin what it
+      // leaves behind after the transactions before it rather than what it does alone
+      const baseline = await jitoService.simulateTransactions(synced, { skipLighthouseCheck: true, strategy });
+      
+      const groups = await Promise.all(synced.map(async (tx, index): Promise<SynchronizedGroup> => {
+        const baselineResult = baseline.results?.[index];
         
         // Check for malicious patterns in this specific transaction
         const maliciousCheck = await lighthouseService.detectMaliciousPatterns(tx);
@@ -35,23 +57,33 @@ export const useSimulationManager = () => {
             transactions: [tx], 
             index, 
             malicious: true, 
-            error: maliciousCheck.reason 
+            error: maliciousCheck.reason,
+            assertionPlacement: 'none',
+            securityReport: maliciousCheck.report
           };
         }
         
-        if (!validationResult.isValid && !validationResult.normalErrors) {
-          console.error(`Transaction validation failed: ${validationResult.error}`);
+        if (!baselineResult?.success) {
+          const error = baselineResult?.message || baseline.error;
+          console.error(`Transaction ${index} failed in bundle simulation: ${error}`);
           // Return the transaction by itself, without assertion if it's invalid
           return { 
             transactions: [tx], 
             index, 
             malicious: false, 
-            error: validationResult.error 
+            error,
+            assertionPlacement: 'none',
+            securityReport: maliciousCheck.report
           };
         }
         
         // Build assertions for valid transactions
-        const assertionResult = await lighthouseService.buildAssertions(tx);
+        const assertionResult = await lighthouseService.buildAssertions(
+          tx,
+          undefined,
+          assertionOverrides[index],
+          toBundlePostState(baselineResult, index)
+        );
         
         // Check if Lighthouse program is available
         if (!assertionResult.isProgramAvailable) {
@@ -59,7 +91,9 @@ export const useSimulationManager = () => {
           return { 
             transactions: [tx], 
             index, 
-            malicious: false 
+            malicious: false,
+            assertionPlacement: 'none',
+            securityReport: maliciousCheck.report
           };
         }
         
@@ -67,15 +101,21 @@ export const useSimulationManager = () => {
         if (assertionResult.success && assertionResult.assertionTransaction) {
           assertionResult.assertionTransaction.recentBlockhash = blockhash;
           assertionResult.assertionTransaction.lastValidBlockHeight = lastValidBlockHeight;
-          if (tx.feePayer) {
-            assertionResult.assertionTransaction.feePayer = tx.feePayer;
+          const feePayer = getFeePayer(tx);
+          if (feePayer) {
+            assertionResult.assertionTransaction.feePayer = feePayer;
           }
           
-          // Only include assertion transaction if it was successfully created
+          // Inline the assertions when they fit, otherwise add the assertion transaction after the original
+          const placed = await placeAssertions(tx, assertionResult.assertionTransaction, {
+            unitsConsumed: assertionResult.unitsConsumed
+          });
           return { 
-            transactions: [tx, assertionResult.assertionTransaction], 
+            transactions: placed.transactions, 
             index,
-            malicious: false
+            malicious: false,
+            assertionPlacement: placed.placement,
+            securityReport: maliciousCheck.report
           };
         }
         
@@ -83,16 +123,66 @@ export const useSimulationManager = () => {
         return { 
           transactions: [tx], 
           index, 
-          malicious: false 
+          malicious: false,
+          assertionPlacement: 'none',
+          securityReport: maliciousCheck.report
         };
       }));
+
+      // Separate assertion transactions can push the bundle past the Jito limit
+      const { placed, dropped } = fitBundleLimit(
+        groups.map(group => ({ transactions: group.transactions, placement: group.assertionPlacement }))
+      );
+      if (dropped.length > 0) {
+        toast({
+          title: "Assertions Dropped",
+          description: `Transaction${dropped.length === 1 ? '' : 's'} ${dropped.map(index => index + 1).join(', ')} ` +
+            `will run without Lighthouse assertions to keep the bundle within ${MAX_BUNDLE_TRANSACTIONS} transactions`,
+          variant: "destructive",
+        });
+      }
+      return groups.map((group, index) => ({
+        ...group,
+        transactions: placed[index].transactions,
+        assertionPlacement: placed[index].placement
+      }));
     } catch (error) {
       console.error("Error synchronizing transactions:", error);
       throw error;
     }
   };
 
-  const calculateComputeUnits = (transactions: Transaction[]): number => {
+  // Map results of the flattened bundle (originals plus assertion transactions)
+  // back onto the transactions the user added
+  const mapToOriginalResults = (
+    groups: SynchronizedGroup[],
+    results: SimulationResult[] = []
+  ): (SimulationResult | undefined)[] => {
+    let offset = 0;
+    return groups.map(group => {
+      const result = results[offset];
+      // A separate assertion transaction fails on its own, report that against the guarded one
+      const assertionFailure = results
+        .slice(offset, offset + group.transactions.length)
+        .find(groupResult => groupResult?.assertionFailure);
+      offset += group.transactions.length;
+
+      if (!result) return undefined;
+      if (!result.assertionFailure && assertionFailure) {
+        return {
+          ...result,
+          success: false,
+          message: assertionFailure.message,
+          assertionFailure: assertionFailure.assertionFailure,
+          securityReport: group.securityReport,
+          assertionPlacement: group.assertionPlacement
+        };
+      }
+      return { ...result, securityReport: group.securityReport, assertionPlacement: group.assertionPlacement };
+    });
+  };
+
+  const calculateComputeUnits = (transactions: BundleTransaction[]): number => {
     // Default compute units per tx if not specified
     const DEFAULT_COMPUTE_UNITS = 200_000;
     
@@ -102,13 +192,12 @@ export const useSimulationManager = () => {
       let txUnits = DEFAULT_COMPUTE_UNITS;
       
       // Check for compute budget instructions
-      for (const ix of tx.instructions) {
-        if (ix.programId.toString() === ComputeBudgetProgram.programId.toString()) {
-          try {
-            // This is a simplified estimation - in a real app we would parse the instruction data
-            txUnits = 400_000; // Assume a higher value was requested
-          } catch (error) {
-            console.error("Error parsing compute budget instruction:", error);
+      for (const ix of getProgramInstructions(tx)) {
+        if (ix.programId.equals(ComputeBudgetProgram.programId)) {
+          const decoded = decodeInstruction(ix);
+          const units = getNumericParam(decoded, 'units');
+          if (decoded.type === 'SetComputeUnitLimit' && units !== null) {
+            txUnits = Number(units);
           }
         }
       }
@@ -119,7 +208,7 @@ export const useSimulationManager = () => {
     return totalUnits;
   };
 
-  const estimateTransactionFees = (transactions: Transaction[]): number => {
+  const estimateTransactionFees = (transactions: BundleTransaction[]): number => {
     // Simplified fee estimation based on current Solana fee structure
     // Current base fee is approximately 0.000005 SOL per signature
     const BASE_FEE_PER_SIG = 0.000005;
@@ -136,11 +225,13 @@ export const useSimulationManager = () => {
   };
 
   const simulateBundle = async (
-    transactions: Transaction[],
+    transactions: BundleTransaction[],
     publicKey: string,
     setLoading: (loading: boolean) => void,
-    setSimulationStatus: (status: 'idle' | 'success' | 'failed') => void
-  ): Promise<{results: SimulationResult[], details: any}> => {
+    setSimulationStatus: (status: 'idle' | 'success' | 'failed') => void,
+    assertionOverrides: Record<number, AssertionOverrides> = {},
+    strategy: SimulationStrategy = 'auto'
+  ): Promise<{results: SimulationResult[], details: any, guarded?: BundleTransaction[][]}> => {
     if (transactions.length === 0) {
       toast({
         title: "Error",
@@ -160,9 +251,8 @@ export const useSimulationManager = () => {
       await setWalletContext(publicKey);
 
       // Check if bundle has too many transactions
-      const MAX_JITO_TRANSACTIONS = 5;
-      if (transactions.length > MAX_JITO_TRANSACTIONS) {
-        console.error(`Bundle exceeds maximum transaction count (${MAX_JITO_TRANSACTIONS})`);
+      if (transactions.length > MAX_BUNDLE_TRANSACTIONS) {
+        console.error(`Bundle exceeds maximum transaction count (${MAX_BUNDLE_TRANSACTIONS})`);
         setSimulationStatus('failed');
         
         // Calculate details for logging/UI
@@ -182,14 +272,14 @@ export const useSimulationManager = () => {
         
         toast({
           title: "Simulation Failed",
-          description: `Jito bundles are limited to ${MAX_JITO_TRANSACTIONS} transactions. Your bundle has ${transactions.length}.`,
+          description: `Jito bundles are limited to ${MAX_BUNDLE_TRANSACTIONS} transactions. Your bundle has ${transactions.length}.`,
           variant: "destructive",
         });
         
         return {
           results: transactions.map(() => ({ 
             success: false, 
-            message: `Bundle exceeds maximum size of ${MAX_JITO_TRANSACTIONS} transactions`
+            message: `Bundle exceeds maximum size of ${MAX_BUNDLE_TRANSACTIONS} transactions`
           })),
           details: simulationDetails
         };
@@ -197,7 +287,7 @@ export const useSimulationManager = () => {
 
       // Validate each transaction before simulation
       for (const tx of transactions) {
-        if (!tx.feePayer) {
+        if (!getFeePayer(tx)) {
           setSimulationStatus('failed');
           toast({
             title: "Invalid Transaction",
@@ -213,7 +303,7 @@ export const useSimulationManager = () => {
           };
         }
 
-        if (!tx.instructions || tx.instructions.length === 0) {
+        if (getProgramInstructions(tx).length === 0) {
           setSimulationStatus('failed');
           toast({
             title: "Invalid Transaction",
@@ -231,7 +321,7 @@ export const useSimulationManager = () => {
       }
 
       // Synchronize transactions with latest blockhash
-      const synchronizedResults = await synchronizeTransactions(transactions);
+      const synchronizedResults = await synchronizeTransactions(transactions, assertionOverrides, strategy);
       
       // Check for malicious transactions
       const hasMaliciousTransactions = synchronizedResults.some(result => result.malicious);
@@ -247,9 +337,10 @@ export const useSimulationManager = () => {
         });
         
         return {
-          results: transactions.map(() => ({
+          results: synchronizedResults.map(group => ({
             success: false,
-            message: "Malicious activity detected in bundle"
+            message: group.malicious ? group.error : "Malicious activity detected in bundle",
+            securityReport: group.securityReport
           })),
           details: {
             hasMaliciousTransactions: true,
@@ -260,9 +351,12 @@ export const useSimulationManager = () => {
 
       // Simulate the synchronized transactions
       const simulationResult = await jitoService.simulateTransactions(
-        synchronizedResults.flatMap(result => result.transactions)
+        synchronizedResults.flatMap(result => result.transactions),
+        { strategy }
       );
 
+      const originalResults = mapToOriginalResults(synchronizedResults, simulationResult.results);
+
       if (!simulationResult.isValid) {
         setSimulationStatus('failed');
         toast({
@@ -272,14 +366,43 @@ export const useSimulationManager = () => {
         });
         
         return {
-          results: transactions.map(() => ({
+          results: transactions.map((_, index) => ({
+            ...originalResults[index],
             success: false,
-            message: simulationResult.error || "Transaction simulation failed"
+            message: originalResults[index]?.success === false && originalResults[index]?.message
+              ? originalResults[index].message
+              : simulationResult.error || "Transaction simulation failed",
+            securityReport: synchronizedResults[index]?.securityReport
           })),
           details: simulationResult.details
         };
       }
 
+      // Net outflow from the wallet only shows once the whole bundle has run
+      const bundleReport = await securityService.validateBundle(publicKey, originalResults);
+      if (!bundleReport.isValid) {
+        console.error('Bundle flagged as malicious:', bundleReport.reason);
+        setSimulationStatus('failed');
+        toast({
+          title: "Malicious Activity Detected",
+          description: bundleReport.reason,
+          variant: "destructive",
+        });
+
+        return {
+          results: transactions.map((_, index) => ({
+            ...originalResults[index],
+            success: false,
+            message: "Malicious activity detected in bundle"
+          })),
+          details: {
+            hasMaliciousTransactions: true,
+            error: bundleReport.reason,
+            securityReport: bundleReport
+          }
+        };
+      }
+
       // Calculate simulation details
       const computeUnits = calculateComputeUnits(transactions);
       const estimatedFees = estimateTransactionFees(transactions);
@@ -292,7 +415,8 @@ export const useSimulationManager = () => {
         timestamp: new Date().toISOString(),
         hasMaliciousTransactions: false,
         transactionErrors: {},
-        isExecutable: true
+        isExecutable: true,
+        securityReport: bundleReport
       };
 
       setSimulationStatus('success');
@@ -302,11 +426,14 @@ export const useSimulationManager = () => {
       });
       
       return {
-        results: transactions.map(() => ({
+        results: transactions.map((_, index) => ({
+          ...originalResults[index],
           success: true,
           message: "Transaction simulated successfully"
         })),
-        details: simulationDetails
+        details: simulationDetails,
+        // Exactly what was simulated, per transaction the user added, for execution to sign
+        guarded: synchronizedResults.map(result => result.transactions)
       };
     } catch (error) {
       console.error("Error simulating bundle:", error);
@@ -6,14 +6,22 @@ import {
   PublicKey, 
   SystemProgram,
   LAMPORTS_PER_SOL,
+  TransactionInstruction,
 } from "@solana/web3.js";
 import { useToast } from "@/hooks/use-toast";
 import { connection } from "@/lib/solana";
+import { BundleTransaction } from "@/types/transaction";
+import { decodeSerializedTransaction, rebuildTransaction, validateBundleTransaction } from "@/utils/transactionUtils";
+import { jitoService } from "@/services/jitoService";
+import { BUNDLE_ID_PATTERN } from "@/config/jito";
 
 // Use a well-known address (Solana Foundation) as a default recipient
 // This ensures the account exists and avoids "ProgramAccountNotFound" errors
 const DEFAULT_RECIPIENT = new PublicKey("Fg6PaFpoGXkYsidMpWTK6W2BeZ7FEfcYkg476zPFsLnS");
 
+// Signatures are 64 bytes in base58
+const SIGNATURE_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{64,88}$/;
+
 export const useTransactionManager = (publicKey: PublicKey | null) => {
   const { toast } = useToast();
 
@@ -172,8 +180,171 @@ export const useTransactionManager = (publicKey: PublicKey | null) => {
     }
   }, [toast, publicKey, verifyAccountExists, getMinimumTransferAmount]);
 
+  // Import serialized transactions (base64 or base58), one per line
+  const importTransactions = useCallback(async (input: string): Promise<BundleTransaction[]> => {
+    const lines = input
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0);
+
+    if (lines.length === 0) {
+      toast({
+        title: "Nothing to Import",
+        description: "Paste at least one serialized transaction",
+        variant: "destructive",
+      });
+      return [];
+    }
+
+    const imported: BundleTransaction[] = [];
+    const errors: string[] = [];
+
+    lines.forEach((line, index) => {
+      try {
+        const tx = decodeSerializedTransaction(line);
+        const validationError = validateBundleTransaction(tx);
+        if (validationError) {
+          errors.push(`Line ${index + 1}: ${validationError}`);
+          return;
+        }
+        imported.push(tx);
+      } catch (error) {
+        errors.push(`Line ${index + 1}: ${error instanceof Error ? error.message : "Invalid transaction"}`);
+      }
+    });
+
+    if (errors.length > 0) {
+      console.error("Errors importing transactions:", errors);
+      toast({
+        title: imported.length > 0 ? "Some Transactions Skipped" : "Import Failed",
+        description: errors.join("\n"),
+        variant: "destructive",
+      });
+    }
+
+    if (imported.length > 0) {
+      toast({
+        title: "Transactions Imported",
+        description: `Added ${imported.length} transaction${imported.length === 1 ? '' : 's'} to the bundle`,
+      });
+    }
+
+    console.log(`Imported ${imported.length} of ${lines.length} serialized transactions`);
+    return imported;
+  }, [toast]);
+
+  // Fetch landed transactions by signature or Jito bundle ID and rebuild them for re-simulation
+  const importFromChain = useCallback(async (input: string): Promise<BundleTransaction[]> => {
+    const identifiers = input
+      .split(/[\s,]+/)
+      .map(value => value.trim())
+      .filter(value => value.length > 0);
+
+    const errors: string[] = [];
+    const signatures: string[] = [];
+
+    try {
+      const bundleIds = identifiers.filter(value => BUNDLE_ID_PATTERN.test(value));
+      const bundleStatuses = bundleIds.length > 0
+        ? await jitoService.getBundleStatuses(bundleIds)
+        : [];
+
+      for (const identifier of identifiers) {
+        if (BUNDLE_ID_PATTERN.test(identifier)) {
+          const status = bundleStatuses[bundleIds.indexOf(identifier)];
+          if (!status) {
+            errors.push(`Bundle ${identifier.slice(0, 8)}... not found`);
+            continue;
+          }
+          signatures.push(...status.transactions);
+        } else if (SIGNATURE_PATTERN.test(identifier)) {
+          signatures.push(identifier);
+        } else {
+          errors.push(`"${identifier.slice(0, 12)}..." is not a signature or bundle ID`);
+        }
+      }
+
+      const responses = await Promise.all(signatures.map(signature =>
+        connection.getTransaction(signature, {
+          commitment: 'confirmed',
+          maxSupportedTransactionVersion: 0
+        })
+      ));
+
+      const imported: BundleTransaction[] = [];
+      responses.forEach((response, index) => {
+        if (!response) {
+          errors.push(`Transaction ${signatures[index].slice(0, 8)}... not found`);
+          return;
+        }
+        imported.push(rebuildTransaction(response));
+      });
+
+      if (errors.length > 0) {
+        console.error("Errors importing on-chain transactions:", errors);
+        toast({
+          title: imported.length > 0 ? "Some Transactions Skipped" : "Import Failed",
+          description: errors.join("\n"),
+          variant: "destructive",
+        });
+      }
+
+      if (imported.length > 0) {
+        toast({
+          title: "Transactions Fetched",
+          description: `Rebuilt ${imported.length} landed transaction${imported.length === 1 ? '' : 's'} for re-simulation`,
+        });
+      }
+
+      return imported;
+    } catch (error) {
+      console.error("Error fetching on-chain transactions:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fetch transactions",
+        variant: "destructive",
+      });
+      return [];
+    }
+  }, [toast]);
+
+  // Wrap instructions composed in the instruction builder into a transaction paid by the wallet
+  const buildTransaction = useCallback((instructions: TransactionInstruction[]): Transaction | null => {
+    if (!publicKey) {
+      toast({
+        title: "Error",
+        description: "Please connect your wallet first",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    const transaction = new Transaction();
+    transaction.add(...instructions);
+    transaction.feePayer = publicKey;
+
+    const validationError = validateBundleTransaction(transaction);
+    if (validationError) {
+      toast({
+        title: "Invalid Transaction",
+        description: validationError,
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    toast({
+      title: "Transaction Added",
+      description: `Built transaction with ${instructions.length} instruction${instructions.length === 1 ? '' : 's'}`,
+    });
+    return transaction;
+  }, [toast, publicKey]);
+
   return {
     addTransaction,
-    addMaliciousTransaction
+    addMaliciousTransaction,
+    importTransactions,
+    importFromChain,
+    buildTransaction
   };
 };
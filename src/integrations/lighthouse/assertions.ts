@@ -0,0 +1,369 @@
+import { PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { keccak_256 } from "@noble/hashes/sha3";
+import { Buffer } from 'buffer';
+import {
+  AccountState,
+  AssertionCheck,
+  AssertionField,
+  AssertionOperator,
+  AssertionOverrides,
+  AssertionStrategy,
+  LighthouseAssertion,
+  TokenAccountState
+} from "@/types/lighthouse";
+import { BundlePostState, SimulationResult } from "@/types/simulation";
+import { getAccountType, isTokenAccountState } from "@/utils/accountDiff";
+import {
+  AccountInfoAssertion,
+  createAssertAccountInfoMultiInstruction,
+  createAssertTokenAccountMultiInstruction,
+  EquatableOperator,
+  IntegerOperator,
+  LogLevel,
+  TokenAccountAssertion
+} from "./instructions";
+
+export const DEFAULT_ASSERTION_STRATEGY: AssertionStrategy = {
+  balanceTolerance: 1,
+  requireOwnerMatch: true,
+  requireDelegateMatch: true,
+  requireDataMatch: false
+};
+
+// The assertion transaction pays its own fee before the assertions run, so the
+// fee payer always gets at least this much slack below its simulated balance
+const ASSERTION_FEE_ALLOWANCE = 10_000;
+
+// Base fee of one signature, what each earlier assertion transaction costs the fee payer
+const SIGNATURE_FEE_LAMPORTS = 5_000;
+
+/**
+ * Fee payer slack for a transaction at this position of the bundle. Post-states
+ * come from simulating the unguarded bundle, so every earlier transaction may
+ * have been followed by an assertion transaction whose fee that run never paid.
+ */
+export const feePayerAllowance = (transactionIndex = 0): number =>
+  ASSERTION_FEE_ALLOWANCE + transactionIndex * SIGNATURE_FEE_LAMPORTS;
+
+// Post-state of a transaction that ran successfully in a bundle simulation
+export const toBundlePostState = (
+  result: SimulationResult | undefined,
+  transactionIndex: number
+): BundlePostState | undefined =>
+  result?.success && result.postExecutionAccounts
+    ? { transactionIndex, accounts: result.postExecutionAccounts, unitsConsumed: result.unitsConsumed }
+    : undefined;
+
+export const hashAccountData = (data: Uint8Array): string =>
+  Buffer.from(keccak_256(data)).toString('hex');
+
+const toleranceRange = (value: bigint, tolerance: number): [bigint, bigint] => {
+  // Parts per million, rounded up so small allowances never collapse to zero
+  const delta = value * BigInt(Math.ceil(tolerance * 10_000)) / BigInt(1_000_000);
+  const lower = value - delta;
+  return [lower < BigInt(0) ? BigInt(0) : lower, value + delta];
+};
+
+// A zero tolerance pins the exact value, anything else asserts both bounds
+const rangeAssertions = <K extends string>(kind: K, value: bigint, tolerance: number) => {
+  const [lower, upper] = toleranceRange(value, tolerance);
+  if (lower === upper) {
+    return [{ kind, value, operator: IntegerOperator.Equal }];
+  }
+  return [
+    { kind, value: lower, operator: IntegerOperator.GreaterThanOrEqual },
+    { kind, value: upper, operator: IntegerOperator.LessThanOrEqual }
+  ];
+};
+
+/**
+ * Pins the simulated post-state of each account according to the strategy.
+ * Token accounts are pinned field by field rather than by data hash so their
+ * amount can still move within the tolerance.
+ */
+export const deriveAssertions = (
+  states: (AccountState | TokenAccountState)[],
+  strategy: AssertionStrategy = DEFAULT_ASSERTION_STRATEGY,
+  feePayer?: PublicKey,
+  feeAllowance: number = ASSERTION_FEE_ALLOWANCE
+): LighthouseAssertion[] =>
+  states.map(state => {
+    let balanceTolerance = strategy.balanceTolerance;
+    if (feePayer && state.pubkey.equals(feePayer) && state.balance > 0) {
+      balanceTolerance = Math.max(balanceTolerance, (feeAllowance * 100) / state.balance);
+    }
+
+    const assertion: LighthouseAssertion = {
+      accountPubkey: state.pubkey,
+      expectedBalance: state.balance,
+      balanceTolerance,
+      type: getAccountType(state)
+    };
+
+    if (strategy.requireOwnerMatch) {
+      assertion.expectedOwner = state.owner;
+    }
+
+    if (isTokenAccountState(state)) {
+      assertion.expectedTokenAmount = state.amount;
+      if (strategy.requireOwnerMatch) assertion.expectedTokenOwner = state.tokenOwner;
+      if (strategy.requireDelegateMatch) assertion.expectedDelegate = state.delegate;
+    } else if (strategy.requireDataMatch && state.data.length > 0) {
+      assertion.expectedDataLength = state.data.length;
+      assertion.expectedDataHash = hashAccountData(state.data);
+    }
+
+    return assertion;
+  });
+
+// Flattens a pinned account state into the individual checks shown in the editor
+export const toAssertionChecks = (assertion: LighthouseAssertion): AssertionCheck[] => {
+  const account = assertion.accountPubkey.toBase58();
+  const tolerance = assertion.balanceTolerance ?? 0;
+  const check = (field: AssertionField, value: string, extra: Partial<AssertionCheck> = {}): AssertionCheck => ({
+    id: `${account}:${field}`,
+    source: 'auto',
+    account,
+    field,
+    operator: 'eq',
+    value,
+    ...extra
+  });
+  const ranged = (field: AssertionField, value: bigint | number) =>
+    check(field, value.toString(), tolerance > 0 ? { operator: 'within', tolerance } : {});
+
+  const checks: AssertionCheck[] = [];
+  if (assertion.expectedBalance !== undefined) checks.push(ranged('lamports', assertion.expectedBalance));
+  if (assertion.expectedOwner) checks.push(check('owner', assertion.expectedOwner.toBase58()));
+  if (assertion.expectedDataLength !== undefined) {
+    checks.push(check('dataLength', assertion.expectedDataLength.toString()));
+  }
+  if (assertion.expectedDataHash) {
+    checks.push(check('dataHash', assertion.expectedDataHash, { dataLength: assertion.expectedDataLength }));
+  }
+
+  if (assertion.type === 'token') {
+    if (assertion.expectedTokenAmount !== undefined) checks.push(ranged('tokenAmount', assertion.expectedTokenAmount));
+    if (assertion.expectedTokenOwner) checks.push(check('tokenOwner', assertion.expectedTokenOwner.toBase58()));
+    if (assertion.expectedDelegate !== undefined) {
+      checks.push(check('tokenDelegate', assertion.expectedDelegate?.toBase58() ?? ''));
+    }
+  }
+  return checks;
+};
+
+// Removed checks are dropped, edited ones replace the generated check with the same id
+export const applyAssertionOverrides = (
+  checks: AssertionCheck[],
+  overrides?: AssertionOverrides
+): AssertionCheck[] => {
+  if (!overrides) return checks;
+  const removed = new Set(overrides.removed);
+  const edited = new Map(overrides.checks.map(check => [check.id, check]));
+
+  const merged = checks
+    .filter(check => !removed.has(check.id))
+    .map(check => edited.get(check.id) ?? check);
+  const generatedIds = new Set(checks.map(check => check.id));
+  return [
+    ...merged,
+    ...overrides.checks.filter(check => !generatedIds.has(check.id) && !removed.has(check.id))
+  ];
+};
+
+const INTEGER_FIELDS: AssertionField[] = ['lamports', 'dataLength', 'tokenAmount'];
+
+export const isIntegerField = (field: AssertionField): boolean => INTEGER_FIELDS.includes(field);
+
+const isTokenField = (field: AssertionField): boolean =>
+  field === 'tokenAmount' || field === 'tokenOwner' || field === 'tokenDelegate';
+
+const isPublicKey = (value: string): boolean => {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const validateAssertionCheck = (check: AssertionCheck): string | null => {
+  if (!isPublicKey(check.account)) return "Invalid account address";
+
+  if (isIntegerField(check.field)) {
+    if (!/^\d+$/.test(check.value)) return "Value must be a non-negative integer";
+    if (check.operator === 'within' && !(check.tolerance !== undefined && check.tolerance >= 0)) {
+      return "Tolerance must be a non-negative percentage";
+    }
+    return null;
+  }
+
+  if (check.field === 'dataHash') {
+    if (check.operator !== 'eq') return "Data hashes can only be matched exactly";
+    if (!/^[0-9a-f]{64}$/i.test(check.value)) return "Data hash must be 32 bytes of hex";
+    if (check.dataLength === undefined) return "Data hash needs the number of bytes it covers";
+    return null;
+  }
+
+  if (check.operator !== 'eq' && check.operator !== 'ne') return "Addresses can only be compared with == or !=";
+  if (check.field === 'tokenDelegate' && check.value === '') return null;
+  return isPublicKey(check.value) ? null : "Value must be a valid address";
+};
+
+const INTEGER_OPERATORS: Record<Exclude<AssertionOperator, 'within'>, IntegerOperator> = {
+  eq: IntegerOperator.Equal,
+  ne: IntegerOperator.NotEqual,
+  gt: IntegerOperator.GreaterThan,
+  lt: IntegerOperator.LessThan,
+  gte: IntegerOperator.GreaterThanOrEqual,
+  lte: IntegerOperator.LessThanOrEqual
+};
+
+const integerAssertions = <K extends string>(kind: K, check: AssertionCheck) =>
+  check.operator === 'within'
+    ? rangeAssertions(kind, BigInt(check.value), check.tolerance ?? 0)
+    : [{ kind, value: BigInt(check.value), operator: INTEGER_OPERATORS[check.operator] }];
+
+const equatableOperator = (check: AssertionCheck): EquatableOperator =>
+  check.operator === 'ne' ? EquatableOperator.NotEqual : EquatableOperator.Equal;
+
+export interface CheckInstruction {
+  instruction: TransactionInstruction;
+  // The checks encoded into this instruction, in assertion order
+  checks: AssertionCheck[];
+}
+
+// One multi-assertion instruction per account and assertion kind keeps the transaction compact
+export const createCheckInstructionGroups = (checks: AssertionCheck[]): CheckInstruction[] => {
+  const byAccount = new Map<string, {
+    info: AccountInfoAssertion[];
+    token: TokenAccountAssertion[];
+    infoChecks: AssertionCheck[];
+    tokenChecks: AssertionCheck[];
+  }>();
+
+  for (const check of checks) {
+    const error = validateAssertionCheck(check);
+    if (error) throw new Error(`Invalid assertion on ${check.account}: ${error}`);
+
+    const group = byAccount.get(check.account) ?? { info: [], token: [], infoChecks: [], tokenChecks: [] };
+    byAccount.set(check.account, group);
+
+    switch (check.field) {
+      case 'lamports':
+        group.info.push(...integerAssertions('Lamports', check));
+        break;
+      case 'dataLength':
+        group.info.push(...integerAssertions('DataLength', check));
+        break;
+      case 'owner':
+        group.info.push({ kind: 'Owner', value: new PublicKey(check.value), operator: equatableOperator(check) });
+        break;
+      case 'dataHash':
+        group.info.push({
+          kind: 'VerifyDatahash',
+          expectedHash: Buffer.from(check.value, 'hex'),
+          start: 0,
+          length: check.dataLength ?? 0
+        });
+        break;
+      case 'tokenAmount':
+        group.token.push(...integerAssertions('Amount', check));
+        break;
+      case 'tokenOwner':
+        group.token.push({ kind: 'Owner', value: new PublicKey(check.value), operator: equatableOperator(check) });
+        break;
+      case 'tokenDelegate':
+        group.token.push({
+          kind: 'Delegate',
+          value: check.value ? new PublicKey(check.value) : null,
+          operator: equatableOperator(check)
+        });
+        break;
+    }
+    (isTokenField(check.field) ? group.tokenChecks : group.infoChecks).push(check);
+  }
+
+  // Failed assertions log the actual value, which the simulation view shows next to the expected one
+  return [...byAccount.entries()].flatMap(([account, group]) => {
+    const target = new PublicKey(account);
+    const instructions: CheckInstruction[] = [];
+    if (group.info.length > 0) {
+      instructions.push({
+        instruction: createAssertAccountInfoMultiInstruction(target, group.info, LogLevel.FailedPlaintextMessage),
+        checks: group.infoChecks
+      });
+    }
+    if (group.token.length > 0) {
+      instructions.push({
+        instruction: createAssertTokenAccountMultiInstruction(target, group.token, LogLevel.FailedPlaintextMessage),
+        checks: group.tokenChecks
+      });
+    }
+    return instructions;
+  });
+};
+
+export const createCheckInstructions = (checks: AssertionCheck[]): TransactionInstruction[] =>
+  createCheckInstructionGroups(checks).map(group => group.instruction);
+
+export const createAssertionInstructions = (assertion: LighthouseAssertion): TransactionInstruction[] =>
+  createCheckInstructions(toAssertionChecks(assertion));
+
+const compareIntegers = (actual: bigint, check: AssertionCheck): boolean => {
+  const expected = BigInt(check.value);
+  switch (check.operator) {
+    case 'eq': return actual === expected;
+    case 'ne': return actual !== expected;
+    case 'gt': return actual > expected;
+    case 'lt': return actual < expected;
+    case 'gte': return actual >= expected;
+    case 'lte': return actual <= expected;
+    case 'within': {
+      const [lower, upper] = toleranceRange(expected, check.tolerance ?? 0);
+      return actual >= lower && actual <= upper;
+    }
+  }
+};
+
+/**
+ * Reads the checked field from an account snapshot and compares it the same way
+ * the on-chain assertion would. Token fields have no actual value when the
+ * snapshot is not a token account.
+ */
+export const evaluateAssertionCheck = (
+  check: AssertionCheck,
+  state: AccountState | TokenAccountState
+): { actual?: string; passed?: boolean } => {
+  let actual: string;
+  switch (check.field) {
+    case 'lamports':
+      actual = state.balance.toString();
+      break;
+    case 'dataLength':
+      actual = state.data.length.toString();
+      break;
+    case 'owner':
+      actual = state.owner.toBase58();
+      break;
+    case 'dataHash':
+      actual = hashAccountData(state.data.subarray(0, check.dataLength ?? state.data.length));
+      break;
+    case 'tokenAmount':
+    case 'tokenOwner':
+    case 'tokenDelegate':
+      if (!isTokenAccountState(state)) return {};
+      actual = check.field === 'tokenAmount'
+        ? state.amount.toString()
+        : check.field === 'tokenOwner'
+          ? state.tokenOwner.toBase58()
+          : state.delegate?.toBase58() ?? '';
+      break;
+  }
+
+  if (isIntegerField(check.field)) {
+    return { actual, passed: compareIntegers(BigInt(actual), check) };
+  }
+  const equal = actual === check.value;
+  return { actual, passed: check.operator === 'ne' ? !equal : equal };
+};
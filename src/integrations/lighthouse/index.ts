@@ -1,7 +1,15 @@
 
-import { PublicKey, Transaction } from "@solana/web3.js";
+import { PublicKey } from "@solana/web3.js";
 import { lighthouseService } from "@/services/lighthouseService";
-import { connection } from "@/lib/solana";
+import { jitoService } from "@/services/jitoService";
+import { BundleTransaction } from "@/types/transaction";
+import { AssertionPlacement, GuardrailOptions } from "@/types/lighthouse";
+import { fetchLatestBlockhash, setRecentBlockhash } from "@/utils/transactionUtils";
+import { fitBundleLimit, PlacedAssertions, placeAssertions } from "./placement";
+import { toBundlePostState } from "./assertions";
+
+export { fitBundleLimit, MAX_BUNDLE_TRANSACTIONS, placeAssertions } from "./placement";
+export type { PlacedAssertions } from "./placement";
 
 /**
  * Lighthouse integration for Solana transaction protection
@@ -16,17 +24,23 @@ import { connection } from "@/lib/solana";
  * 
  * @param transactions Array of transactions to protect
  * @param feePayer PublicKey that will pay for the assertion transaction
- * @returns Object containing the original transactions and any assertion transactions
+ * @param options Assertion strategy and whether assertions may be inlined into the guarded transaction
+ * @returns Object containing the protected transactions and where each transaction's assertions were placed
  */
 export const createLighthouseGuardrail = async (
-  transactions: Transaction[],
-  feePayer: PublicKey
+  transactions: BundleTransaction[],
+  feePayer: PublicKey,
+  options: GuardrailOptions = {}
 ): Promise<{
   success: boolean;
-  protectedTransactions: Transaction[];
+  protectedTransactions: BundleTransaction[];
   assertionCount: number;
+  // One entry per input transaction
+  assertionPlacements: AssertionPlacement[];
   error?: string;
 }> => {
+  const unprotected = transactions.map((): AssertionPlacement => 'none');
+
   try {
     // Check if Lighthouse program is available
     const programCheck = await lighthouseService.checkProgramAvailability();
@@ -37,28 +51,30 @@ export const createLighthouseGuardrail = async (
         success: true,
         protectedTransactions: [...transactions], // Return original transactions without protection
         assertionCount: 0,
+        assertionPlacements: unprotected,
         error: "Lighthouse program not available on this network"
       };
     }
 
     // Get latest blockhash for all transactions
-    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash({
-      commitment: 'confirmed'
-    });
+    const { blockhash, lastValidBlockHeight } = await fetchLatestBlockhash('confirmed');
+    
+    const placedGroups: PlacedAssertions[] = [];
     
-    // Initialize protected transactions array
-    const protectedTransactions: Transaction[] = [];
-    let assertionCount = 0;
+    const synced = transactions.map(original => setRecentBlockhash(original, blockhash, lastValidBlockHeight));
+
+    // Later transactions see what earlier ones wrote, so expected values come from the whole bundle
+    const baseline = await jitoService.simulateTransactions(synced, { skipLighthouseCheck: true });
     
     // Process each transaction with Lighthouse protection
-    for (const tx of transactions) {
-      // Add the original transaction
-      tx.recentBlockhash = blockhash;
-      tx.lastValidBlockHeight = lastValidBlockHeight;
-      protectedTransactions.push(tx);
-      
+    for (const [index, tx] of synced.entries()) {
       // Build assertion transaction for this tx
-      const assertionResult = await lighthouseService.buildAssertions(tx);
+      const assertionResult = await lighthouseService.buildAssertions(
+        tx,
+        options.strategy,
+        options.overrides?.[index],
+        toBundlePostState(baseline.results?.[index], index)
+      );
       
       if (assertionResult.success && assertionResult.assertionTransaction) {
         // Set the blockhash and fee payer for the assertion transaction
@@ -66,16 +82,28 @@ export const createLighthouseGuardrail = async (
         assertionResult.assertionTransaction.lastValidBlockHeight = lastValidBlockHeight;
         assertionResult.assertionTransaction.feePayer = feePayer;
         
-        // Add the assertion transaction to the bundle
-        protectedTransactions.push(assertionResult.assertionTransaction);
-        assertionCount++;
+        // Inline the assertions when they fit, otherwise the assertion transaction follows the original
+        const placed = await placeAssertions(tx, assertionResult.assertionTransaction, {
+          inline: options.inlineAssertions,
+          unitsConsumed: assertionResult.unitsConsumed
+        });
+        placedGroups.push(placed);
+      } else {
+        placedGroups.push({ transactions: [tx], placement: 'none' });
       }
     }
+
+    const { placed, dropped } = fitBundleLimit(placedGroups);
+    const assertionPlacements = placed.map(group => group.placement);
     
     return {
       success: true,
-      protectedTransactions,
-      assertionCount
+      protectedTransactions: placed.flatMap(group => group.transactions),
+      assertionCount: assertionPlacements.filter(placement => placement !== 'none').length,
+      assertionPlacements,
+      error: dropped.length > 0
+        ? `Assertions dropped for transaction${dropped.length === 1 ? '' : 's'} ${dropped.map(index => index + 1).join(', ')} to fit the bundle limit`
+        : undefined
     };
   } catch (error) {
     console.error("Error creating Lighthouse guardrail:", error);
@@ -83,6 +111,7 @@ export const createLighthouseGuardrail = async (
       success: false,
       protectedTransactions: [...transactions], // Return original transactions without protection
       assertionCount: 0,
+      assertionPlacements: unprotected,
       error: error instanceof Error ? error.message : "Unknown error creating Lighthouse guardrail"
     };
   }
@@ -95,7 +124,7 @@ export const createLighthouseGuardrail = async (
  * @returns Object containing analysis results
  */
 export const analyzeBundleSecurity = async (
-  transactions: Transaction[]
+  transactions: BundleTransaction[]
 ): Promise<{
   isSafe: boolean;
   maliciousTransactions: number[];
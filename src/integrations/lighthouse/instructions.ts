@@ -0,0 +1,601 @@
+import { PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { Buffer } from 'buffer';
+
+/**
+ * Encoders for Lighthouse assertion instructions.
+ *
+ * Layouts follow the Lighthouse program (lighthouse-sdk 2.x): a u8 instruction
+ * discriminator, a u8 log level, then the assertion as a u8-tagged enum whose
+ * variants are `{ value, operator }` pairs. Vectors and data offsets use the
+ * program's CompactU64 (unsigned LEB128) length prefix.
+ */
+
+export const LIGHTHOUSE_PROGRAM_ID = new PublicKey("L2TExMFKdjpN9kozasaurPirfHy9P8sbXoAN1qA3S95");
+
+export const LighthouseInstructionType = {
+  MemoryWrite: 0,
+  MemoryClose: 1,
+  AssertAccountData: 2,
+  AssertAccountDataMulti: 3,
+  AssertAccountDelta: 4,
+  AssertAccountInfo: 5,
+  AssertAccountInfoMulti: 6,
+  AssertMintAccount: 7,
+  AssertMintAccountMulti: 8,
+  AssertTokenAccount: 9,
+  AssertTokenAccountMulti: 10,
+  AssertStakeAccount: 11,
+  AssertStakeAccountMulti: 12,
+  AssertUpgradeableLoaderAccount: 13,
+  AssertUpgradeableLoaderAccountMulti: 14,
+  AssertSysvarClock: 15,
+  AssertMerkleTreeAccount: 16,
+  AssertBubblegumTreeConfigAccount: 17,
+} as const;
+
+export const LogLevel = {
+  Silent: 0,
+  PlaintextMessage: 1,
+  EncodedMessage: 2,
+  EncodedNoop: 3,
+  FailedPlaintextMessage: 4,
+  FailedEncodedMessage: 5,
+  FailedEncodedNoop: 6,
+} as const;
+export type LogLevel = typeof LogLevel[keyof typeof LogLevel];
+
+// Custom program error codes, as reported in `InstructionError: [index, { Custom: code }]`
+export const LIGHTHOUSE_ERRORS: Record<number, string> = {
+  6000: 'InvalidInstructionData',
+  6001: 'AssertionFailed',
+  6002: 'NotEnoughAccounts',
+  6003: 'BumpNotFound',
+  6004: 'AccountBorrowFailed',
+  6005: 'RangeOutOfBounds',
+  6006: 'IndexOutOfBounds',
+  6007: 'FailedToDeserialize',
+  6008: 'FailedToSerialize',
+  6009: 'AccountOwnerMismatch',
+  6010: 'AccountKeyMismatch',
+  6011: 'AccountNotInitialized',
+  6012: 'AccountOwnerValidationFailed',
+  6013: 'AccountFundedValidationFailed',
+  6014: 'AccountDiscriminatorValidationFailed',
+  6015: 'AccountValidationFailed',
+  6016: 'CrossProgramInvokeViolation',
+};
+
+export const IntegerOperator = {
+  Equal: 0,
+  NotEqual: 1,
+  GreaterThan: 2,
+  LessThan: 3,
+  GreaterThanOrEqual: 4,
+  LessThanOrEqual: 5,
+  Contains: 6,
+  DoesNotContain: 7,
+} as const;
+export type IntegerOperator = typeof IntegerOperator[keyof typeof IntegerOperator];
+
+export const EquatableOperator = {
+  Equal: 0,
+  NotEqual: 1,
+} as const;
+export type EquatableOperator = typeof EquatableOperator[keyof typeof EquatableOperator];
+
+export const KnownProgram = {
+  System: 0,
+  Token: 1,
+  Token2022: 2,
+  Rent: 3,
+  Stake: 4,
+  Vote: 5,
+  BpfLoader: 6,
+  UpgradeableLoader: 7,
+  SysvarConfig: 8,
+} as const;
+export type KnownProgram = typeof KnownProgram[keyof typeof KnownProgram];
+
+export const StakeStateType = {
+  Uninitialized: 0,
+  Initialized: 1,
+  Stake: 2,
+  RewardsPool: 3,
+} as const;
+export type StakeStateType = typeof StakeStateType[keyof typeof StakeStateType];
+
+export const UpgradeableLoaderStateType = {
+  Uninitialized: 0,
+  Buffer: 1,
+  Program: 2,
+  ProgramData: 3,
+} as const;
+export type UpgradeableLoaderStateType = typeof UpgradeableLoaderStateType[keyof typeof UpgradeableLoaderStateType];
+
+type Integer = bigint | number;
+
+interface IntegerAssertion<K extends string> { kind: K; value: Integer; operator: IntegerOperator }
+interface EquatableAssertion<K extends string, V> { kind: K; value: V; operator: EquatableOperator }
+
+export type AccountInfoAssertion =
+  | IntegerAssertion<'Lamports'>
+  | IntegerAssertion<'DataLength'>
+  | EquatableAssertion<'Owner', PublicKey>
+  | EquatableAssertion<'KnownOwner', KnownProgram>
+  | IntegerAssertion<'RentEpoch'>
+  | EquatableAssertion<'IsSigner', boolean>
+  | EquatableAssertion<'IsWritable', boolean>
+  | EquatableAssertion<'Executable', boolean>
+  | { kind: 'VerifyDatahash'; expectedHash: Uint8Array; start: number; length: number };
+
+export type DataValueAssertion =
+  | EquatableAssertion<'Bool', boolean>
+  | IntegerAssertion<'U8'>
+  | IntegerAssertion<'I8'>
+  | IntegerAssertion<'U16'>
+  | IntegerAssertion<'I16'>
+  | IntegerAssertion<'U32'>
+  | IntegerAssertion<'I32'>
+  | IntegerAssertion<'U64'>
+  | IntegerAssertion<'I64'>
+  | IntegerAssertion<'U128'>
+  | IntegerAssertion<'I128'>
+  | EquatableAssertion<'Bytes', Uint8Array>
+  | EquatableAssertion<'Pubkey', PublicKey>;
+
+export interface AccountDataAssertion {
+  offset: number;
+  assertion: DataValueAssertion;
+}
+
+export type MintAccountAssertion =
+  | EquatableAssertion<'MintAuthority', PublicKey | null>
+  | IntegerAssertion<'Supply'>
+  | IntegerAssertion<'Decimals'>
+  | EquatableAssertion<'IsInitialized', boolean>
+  | EquatableAssertion<'FreezeAuthority', PublicKey | null>;
+
+export type TokenAccountAssertion =
+  | EquatableAssertion<'Mint', PublicKey>
+  | EquatableAssertion<'Owner', PublicKey>
+  | IntegerAssertion<'Amount'>
+  | EquatableAssertion<'Delegate', PublicKey | null>
+  | IntegerAssertion<'State'>
+  | EquatableAssertion<'IsNative', Integer | null>
+  | IntegerAssertion<'DelegatedAmount'>
+  | EquatableAssertion<'CloseAuthority', PublicKey | null>
+  | { kind: 'TokenAccountOwnerIsDerived' };
+
+export type StakeMetaAssertion =
+  | IntegerAssertion<'RentExemptReserve'>
+  | EquatableAssertion<'AuthorizedStaker', PublicKey>
+  | EquatableAssertion<'AuthorizedWithdrawer', PublicKey>
+  | IntegerAssertion<'LockupUnixTimestamp'>
+  | IntegerAssertion<'LockupEpoch'>
+  | EquatableAssertion<'LockupCustodian', PublicKey>;
+
+export type StakeDelegationAssertion =
+  | EquatableAssertion<'DelegationVoterPubkey', PublicKey>
+  | IntegerAssertion<'DelegationStake'>
+  | IntegerAssertion<'DelegationActivationEpoch'>
+  | IntegerAssertion<'DelegationDeactivationEpoch'>
+  | IntegerAssertion<'CreditsObserved'>;
+
+export type StakeAccountAssertion =
+  | EquatableAssertion<'State', StakeStateType>
+  | { kind: 'MetaAssertion'; assertion: StakeMetaAssertion }
+  | { kind: 'StakeAssertion'; assertion: StakeDelegationAssertion }
+  | IntegerAssertion<'StakeFlags'>;
+
+export type UpgradeableLoaderStateAssertion =
+  | EquatableAssertion<'State', UpgradeableLoaderStateType>
+  | { kind: 'Buffer'; assertion: EquatableAssertion<'Authority', PublicKey | null> }
+  | { kind: 'Program'; assertion: EquatableAssertion<'ProgramDataAddress', PublicKey> }
+  | {
+      kind: 'ProgramData';
+      assertion: EquatableAssertion<'UpgradeAuthority', PublicKey | null> | IntegerAssertion<'Slot'>;
+    };
+
+export type SysvarClockAssertion =
+  | IntegerAssertion<'Slot'>
+  | IntegerAssertion<'EpochStartTimestamp'>
+  | IntegerAssertion<'Epoch'>
+  | IntegerAssertion<'LeaderScheduleEpoch'>
+  | IntegerAssertion<'UnixTimestamp'>;
+
+class LighthouseWriter {
+  private chunks: Buffer[] = [];
+
+  u8(value: number) {
+    this.chunks.push(Buffer.from([value]));
+    return this;
+  }
+
+  bool(value: boolean) {
+    return this.u8(value ? 1 : 0);
+  }
+
+  int(value: Integer, bytes: number, signed: boolean) {
+    const bits = BigInt(bytes * 8);
+    let remaining = BigInt(value);
+    const min = signed ? -(BigInt(1) << (bits - BigInt(1))) : BigInt(0);
+    const max = signed ? (BigInt(1) << (bits - BigInt(1))) - BigInt(1) : (BigInt(1) << bits) - BigInt(1);
+    if (remaining < min || remaining > max) {
+      throw new Error(`Value ${remaining} does not fit in ${signed ? 'i' : 'u'}${bits}`);
+    }
+    if (remaining < BigInt(0)) remaining += BigInt(1) << bits;
+
+    const buffer = Buffer.alloc(bytes);
+    for (let i = 0; i < bytes; i++) {
+      buffer[i] = Number(remaining & BigInt(0xff));
+      remaining >>= BigInt(8);
+    }
+    this.chunks.push(buffer);
+    return this;
+  }
+
+  // CompactU64: unsigned LEB128
+  compactU64(value: Integer) {
+    let remaining = BigInt(value);
+    const bytes: number[] = [];
+    do {
+      let byte = Number(remaining & BigInt(0x7f));
+      remaining >>= BigInt(7);
+      if (remaining > BigInt(0)) byte |= 0x80;
+      bytes.push(byte);
+    } while (remaining > BigInt(0));
+    this.chunks.push(Buffer.from(bytes));
+    return this;
+  }
+
+  bytes(value: Uint8Array) {
+    this.chunks.push(Buffer.from(value));
+    return this;
+  }
+
+  pubkey(value: PublicKey) {
+    return this.bytes(value.toBuffer());
+  }
+
+  optionPubkey(value: PublicKey | null) {
+    return value ? this.u8(1).pubkey(value) : this.u8(0);
+  }
+
+  optionU64(value: Integer | null) {
+    return value === null ? this.u8(0) : this.u8(1).int(value, 8, false);
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+// Variant tags are the position of the variant in the program's enum
+const variantIndex = (variants: readonly string[], kind: string): number => {
+  const index = variants.indexOf(kind);
+  if (index === -1) throw new Error(`Unknown assertion variant: ${kind}`);
+  return index;
+};
+
+const ACCOUNT_INFO_VARIANTS = [
+  'Lamports', 'DataLength', 'Owner', 'KnownOwner', 'RentEpoch', 'IsSigner', 'IsWritable', 'Executable', 'VerifyDatahash'
+] as const;
+
+const writeAccountInfoAssertion = (writer: LighthouseWriter, assertion: AccountInfoAssertion) => {
+  writer.u8(variantIndex(ACCOUNT_INFO_VARIANTS, assertion.kind));
+  switch (assertion.kind) {
+    case 'Lamports':
+    case 'DataLength':
+    case 'RentEpoch':
+      writer.int(assertion.value, 8, false).u8(assertion.operator);
+      break;
+    case 'Owner':
+      writer.pubkey(assertion.value).u8(assertion.operator);
+      break;
+    case 'KnownOwner':
+      writer.u8(assertion.value).u8(assertion.operator);
+      break;
+    case 'IsSigner':
+    case 'IsWritable':
+    case 'Executable':
+      writer.bool(assertion.value).u8(assertion.operator);
+      break;
+    case 'VerifyDatahash':
+      if (assertion.expectedHash.length !== 32) throw new Error("Data hash must be 32 bytes");
+      writer.bytes(assertion.expectedHash).compactU64(assertion.start).compactU64(assertion.length);
+      break;
+  }
+};
+
+const DATA_VALUE_VARIANTS = [
+  'Bool', 'U8', 'I8', 'U16', 'I16', 'U32', 'I32', 'U64', 'I64', 'U128', 'I128', 'Bytes', 'Pubkey'
+] as const;
+
+const INTEGER_WIDTHS: Record<string, { bytes: number; signed: boolean }> = {
+  U8: { bytes: 1, signed: false },
+  I8: { bytes: 1, signed: true },
+  U16: { bytes: 2, signed: false },
+  I16: { bytes: 2, signed: true },
+  U32: { bytes: 4, signed: false },
+  I32: { bytes: 4, signed: true },
+  U64: { bytes: 8, signed: false },
+  I64: { bytes: 8, signed: true },
+  U128: { bytes: 16, signed: false },
+  I128: { bytes: 16, signed: true },
+};
+
+const writeDataValueAssertion = (writer: LighthouseWriter, assertion: DataValueAssertion) => {
+  writer.u8(variantIndex(DATA_VALUE_VARIANTS, assertion.kind));
+  switch (assertion.kind) {
+    case 'Bool':
+      writer.bool(assertion.value).u8(assertion.operator);
+      break;
+    case 'Bytes':
+      writer.compactU64(assertion.value.length).bytes(assertion.value).u8(assertion.operator);
+      break;
+    case 'Pubkey':
+      writer.pubkey(assertion.value).u8(assertion.operator);
+      break;
+    default: {
+      const { bytes, signed } = INTEGER_WIDTHS[assertion.kind];
+      writer.int(assertion.value, bytes, signed).u8(assertion.operator);
+    }
+  }
+};
+
+const writeAccountDataAssertion = (writer: LighthouseWriter, { offset, assertion }: AccountDataAssertion) => {
+  writer.compactU64(offset);
+  writeDataValueAssertion(writer, assertion);
+};
+
+const MINT_VARIANTS = ['MintAuthority', 'Supply', 'Decimals', 'IsInitialized', 'FreezeAuthority'] as const;
+
+const writeMintAccountAssertion = (writer: LighthouseWriter, assertion: MintAccountAssertion) => {
+  writer.u8(variantIndex(MINT_VARIANTS, assertion.kind));
+  switch (assertion.kind) {
+    case 'MintAuthority':
+    case 'FreezeAuthority':
+      writer.optionPubkey(assertion.value).u8(assertion.operator);
+      break;
+    case 'Supply':
+      writer.int(assertion.value, 8, false).u8(assertion.operator);
+      break;
+    case 'Decimals':
+      writer.int(assertion.value, 1, false).u8(assertion.operator);
+      break;
+    case 'IsInitialized':
+      writer.bool(assertion.value).u8(assertion.operator);
+      break;
+  }
+};
+
+const TOKEN_ACCOUNT_VARIANTS = [
+  'Mint', 'Owner', 'Amount', 'Delegate', 'State', 'IsNative', 'DelegatedAmount', 'CloseAuthority', 'TokenAccountOwnerIsDerived'
+] as const;
+
+const writeTokenAccountAssertion = (writer: LighthouseWriter, assertion: TokenAccountAssertion) => {
+  writer.u8(variantIndex(TOKEN_ACCOUNT_VARIANTS, assertion.kind));
+  switch (assertion.kind) {
+    case 'Mint':
+    case 'Owner':
+      writer.pubkey(assertion.value).u8(assertion.operator);
+      break;
+    case 'Amount':
+    case 'DelegatedAmount':
+      writer.int(assertion.value, 8, false).u8(assertion.operator);
+      break;
+    case 'Delegate':
+    case 'CloseAuthority':
+      writer.optionPubkey(assertion.value).u8(assertion.operator);
+      break;
+    case 'State':
+      writer.int(assertion.value, 1, false).u8(assertion.operator);
+      break;
+    case 'IsNative':
+      writer.optionU64(assertion.value).u8(assertion.operator);
+      break;
+    case 'TokenAccountOwnerIsDerived':
+      break;
+  }
+};
+
+const STAKE_VARIANTS = ['State', 'MetaAssertion', 'StakeAssertion', 'StakeFlags'] as const;
+const STAKE_META_VARIANTS = [
+  'RentExemptReserve', 'AuthorizedStaker', 'AuthorizedWithdrawer', 'LockupUnixTimestamp', 'LockupEpoch', 'LockupCustodian'
+] as const;
+const STAKE_DELEGATION_VARIANTS = [
+  'DelegationVoterPubkey', 'DelegationStake', 'DelegationActivationEpoch', 'DelegationDeactivationEpoch', 'CreditsObserved'
+] as const;
+
+const writeStakeAccountAssertion = (writer: LighthouseWriter, assertion: StakeAccountAssertion) => {
+  writer.u8(variantIndex(STAKE_VARIANTS, assertion.kind));
+  switch (assertion.kind) {
+    case 'State':
+      writer.u8(assertion.value).u8(assertion.operator);
+      break;
+    case 'StakeFlags':
+      writer.int(assertion.value, 1, false).u8(assertion.operator);
+      break;
+    case 'MetaAssertion': {
+      const meta = assertion.assertion;
+      writer.u8(variantIndex(STAKE_META_VARIANTS, meta.kind));
+      if (meta.kind === 'AuthorizedStaker' || meta.kind === 'AuthorizedWithdrawer' || meta.kind === 'LockupCustodian') {
+        writer.pubkey(meta.value).u8(meta.operator);
+      } else {
+        writer.int(meta.value, 8, meta.kind === 'LockupUnixTimestamp').u8(meta.operator);
+      }
+      break;
+    }
+    case 'StakeAssertion': {
+      const stake = assertion.assertion;
+      writer.u8(variantIndex(STAKE_DELEGATION_VARIANTS, stake.kind));
+      if (stake.kind === 'DelegationVoterPubkey') {
+        writer.pubkey(stake.value).u8(stake.operator);
+      } else {
+        writer.int(stake.value, 8, false).u8(stake.operator);
+      }
+      break;
+    }
+  }
+};
+
+const UPGRADEABLE_LOADER_VARIANTS = ['State', 'Buffer', 'Program', 'ProgramData'] as const;
+
+const writeUpgradeableLoaderAssertion = (writer: LighthouseWriter, assertion: UpgradeableLoaderStateAssertion) => {
+  writer.u8(variantIndex(UPGRADEABLE_LOADER_VARIANTS, assertion.kind));
+  switch (assertion.kind) {
+    case 'State':
+      writer.u8(assertion.value).u8(assertion.operator);
+      break;
+    case 'Buffer':
+      // UpgradableBufferAssertion has a single variant, Authority
+      writer.u8(0).optionPubkey(assertion.assertion.value).u8(assertion.assertion.operator);
+      break;
+    case 'Program':
+      writer.u8(0).pubkey(assertion.assertion.value).u8(assertion.assertion.operator);
+      break;
+    case 'ProgramData': {
+      const inner = assertion.assertion;
+      if (inner.kind === 'UpgradeAuthority') {
+        writer.u8(0).optionPubkey(inner.value).u8(inner.operator);
+      } else {
+        writer.u8(1).int(inner.value, 8, false).u8(inner.operator);
+      }
+      break;
+    }
+  }
+};
+
+const SYSVAR_CLOCK_VARIANTS = ['Slot', 'EpochStartTimestamp', 'Epoch', 'LeaderScheduleEpoch', 'UnixTimestamp'] as const;
+
+const writeSysvarClockAssertion = (writer: LighthouseWriter, assertion: SysvarClockAssertion) => {
+  const signed = assertion.kind === 'EpochStartTimestamp' || assertion.kind === 'UnixTimestamp';
+  writer.u8(variantIndex(SYSVAR_CLOCK_VARIANTS, assertion.kind)).int(assertion.value, 8, signed).u8(assertion.operator);
+};
+
+const header = (type: number, logLevel: LogLevel) => new LighthouseWriter().u8(type).u8(logLevel);
+
+// Every account assertion reads a single, read-only target account
+const targetInstruction = (target: PublicKey, data: Buffer) =>
+  new TransactionInstruction({
+    programId: LIGHTHOUSE_PROGRAM_ID,
+    keys: [{ pubkey: target, isSigner: false, isWritable: false }],
+    data
+  });
+
+const writeAll = <T>(
+  writer: LighthouseWriter,
+  assertions: T[],
+  write: (writer: LighthouseWriter, assertion: T) => void
+) => {
+  if (assertions.length === 0) throw new Error("At least one assertion is required");
+  writer.compactU64(assertions.length);
+  assertions.forEach(assertion => write(writer, assertion));
+  return writer;
+};
+
+export const createAssertAccountInfoInstruction = (
+  target: PublicKey,
+  assertion: AccountInfoAssertion,
+  logLevel: LogLevel = LogLevel.Silent
+) => {
+  const writer = header(LighthouseInstructionType.AssertAccountInfo, logLevel);
+  writeAccountInfoAssertion(writer, assertion);
+  return targetInstruction(target, writer.toBuffer());
+};
+
+export const createAssertAccountInfoMultiInstruction = (
+  target: PublicKey,
+  assertions: AccountInfoAssertion[],
+  logLevel: LogLevel = LogLevel.Silent
+) => targetInstruction(
+  target,
+  writeAll(header(LighthouseInstructionType.AssertAccountInfoMulti, logLevel), assertions, writeAccountInfoAssertion).toBuffer()
+);
+
+export const createAssertAccountDataInstruction = (
+  target: PublicKey,
+  assertion: AccountDataAssertion,
+  logLevel: LogLevel = LogLevel.Silent
+) => {
+  const writer = header(LighthouseInstructionType.AssertAccountData, logLevel);
+  writeAccountDataAssertion(writer, assertion);
+  return targetInstruction(target, writer.toBuffer());
+};
+
+export const createAssertAccountDataMultiInstruction = (
+  target: PublicKey,
+  assertions: AccountDataAssertion[],
+  logLevel: LogLevel = LogLevel.Silent
+) => targetInstruction(
+  target,
+  writeAll(header(LighthouseInstructionType.AssertAccountDataMulti, logLevel), assertions, writeAccountDataAssertion).toBuffer()
+);
+
+export const createAssertMintAccountInstruction = (
+  target: PublicKey,
+  assertion: MintAccountAssertion,
+  logLevel: LogLevel = LogLevel.Silent
+) => {
+  const writer = header(LighthouseInstructionType.AssertMintAccount, logLevel);
+  writeMintAccountAssertion(writer, assertion);
+  return targetInstruction(target, writer.toBuffer());
+};
+
+export const createAssertMintAccountMultiInstruction = (
+  target: PublicKey,
+  assertions: MintAccountAssertion[],
+  logLevel: LogLevel = LogLevel.Silent
+) => targetInstruction(
+  target,
+  writeAll(header(LighthouseInstructionType.AssertMintAccountMulti, logLevel), assertions, writeMintAccountAssertion).toBuffer()
+);
+
+export const createAssertTokenAccountInstruction = (
+  target: PublicKey,
+  assertion: TokenAccountAssertion,
+  logLevel: LogLevel = LogLevel.Silent
+) => {
+  const writer = header(LighthouseInstructionType.AssertTokenAccount, logLevel);
+  writeTokenAccountAssertion(writer, assertion);
+  return targetInstruction(target, writer.toBuffer());
+};
+
+export const createAssertTokenAccountMultiInstruction = (
+  target: PublicKey,
+  assertions: TokenAccountAssertion[],
+  logLevel: LogLevel = LogLevel.Silent
+) => targetInstruction(
+  target,
+  writeAll(header(LighthouseInstructionType.AssertTokenAccountMulti, logLevel), assertions, writeTokenAccountAssertion).toBuffer()
+);
+
+export const createAssertStakeAccountInstruction = (
+  target: PublicKey,
+  assertion: StakeAccountAssertion,
+  logLevel: LogLevel = LogLevel.Silent
+) => {
+  const writer = header(LighthouseInstructionType.AssertStakeAccount, logLevel);
+  writeStakeAccountAssertion(writer, assertion);
+  return targetInstruction(target, writer.toBuffer());
+};
+
+export const createAssertUpgradeableLoaderAccountInstruction = (
+  target: PublicKey,
+  assertion: UpgradeableLoaderStateAssertion,
+  logLevel: LogLevel = LogLevel.Silent
+) => {
+  const writer = header(LighthouseInstructionType.AssertUpgradeableLoaderAccount, logLevel);
+  writeUpgradeableLoaderAssertion(writer, assertion);
+  return targetInstruction(target, writer.toBuffer());
+};
+
+// The clock is read through the sysvar syscall, so this instruction takes no accounts
+export const createAssertSysvarClockInstruction = (
+  assertion: SysvarClockAssertion,
+  logLevel: LogLevel = LogLevel.Silent
+) => {
+  const writer = header(LighthouseInstructionType.AssertSysvarClock, logLevel);
+  writeSysvarClockAssertion(writer, assertion);
+  return new TransactionInstruction({ programId: LIGHTHOUSE_PROGRAM_ID, keys: [], data: writer.toBuffer() });
+};
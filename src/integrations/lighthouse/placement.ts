@@ -0,0 +1,107 @@
+import { ComputeBudgetProgram, PACKET_DATA_SIZE, Transaction } from "@solana/web3.js";
+import { BundleTransaction } from "@/types/transaction";
+import { AssertionPlacement } from "@/types/lighthouse";
+import {
+  appendInstructions,
+  getProgramInstructions,
+  getRequiredSignatures,
+  getSerializedSize
+} from "@/utils/transactionUtils";
+import { decodeInstruction, getNumericParam } from "@/utils/instructionDecoder";
+
+export const INLINE_ASSERTIONS_BY_DEFAULT = true;
+
+// Jito rejects bundles with more transactions than this
+export const MAX_BUNDLE_TRANSACTIONS = 5;
+
+// Rough cost of one Lighthouse assertion instruction, used against an explicit compute limit
+const ASSERTION_COMPUTE_UNITS = 5_000;
+
+export interface PlacedAssertions {
+  transactions: BundleTransaction[];
+  placement: AssertionPlacement;
+}
+
+const getComputeUnitLimit = (tx: BundleTransaction): number | null => {
+  for (const ix of getProgramInstructions(tx)) {
+    if (!ix.programId.equals(ComputeBudgetProgram.programId)) continue;
+    const decoded = decodeInstruction(ix);
+    const units = getNumericParam(decoded, 'units');
+    if (decoded.type === 'SetComputeUnitLimit' && units !== null) {
+      return Number(units);
+    }
+  }
+  return null;
+};
+
+/**
+ * Puts the assertions inside the guarded transaction when it still fits a packet
+ * and its compute limit, otherwise keeps the trailing assertion transaction.
+ * Transactions with signers besides the fee payer are never rewritten, since the
+ * extra signatures could not be collected again.
+ */
+export const placeAssertions = async (
+  tx: BundleTransaction,
+  assertionTx: Transaction,
+  options: { inline?: boolean; unitsConsumed?: number } = {}
+): Promise<PlacedAssertions> => {
+  const separate: PlacedAssertions = { transactions: [tx, assertionTx], placement: 'separate' };
+  if (!(options.inline ?? INLINE_ASSERTIONS_BY_DEFAULT)) {
+    return separate;
+  }
+
+  if (getRequiredSignatures(tx) > 1) {
+    console.log("Transaction has additional signers, keeping assertions in a separate transaction");
+    return separate;
+  }
+
+  const computeLimit = getComputeUnitLimit(tx);
+  if (computeLimit !== null) {
+    const required = (options.unitsConsumed ?? computeLimit) +
+      assertionTx.instructions.length * ASSERTION_COMPUTE_UNITS;
+    if (required > computeLimit) {
+      console.log(`Assertions don't fit the compute limit (${required} > ${computeLimit}), using a separate transaction`);
+      return separate;
+    }
+  }
+
+  try {
+    const inlined = await appendInstructions(tx, assertionTx.instructions);
+    const size = getSerializedSize(inlined);
+    if (size > PACKET_DATA_SIZE) {
+      console.log(`Inlined transaction would be ${size} bytes, using a separate assertion transaction`);
+      return separate;
+    }
+    return { transactions: [inlined], placement: 'inline' };
+  } catch (error) {
+    console.warn("Could not inline assertions, using a separate transaction:", error);
+    return separate;
+  }
+};
+
+/**
+ * Keeps placed transactions within the bundle limit by dropping separate assertion
+ * transactions, last guarded transaction first. An assertion transaction checks the
+ * state right after the transaction it guards, so it can't be merged into another's.
+ * Returns the indexes of the transactions that lost their assertions.
+ */
+export const fitBundleLimit = (
+  placed: PlacedAssertions[],
+  maxTransactions: number = MAX_BUNDLE_TRANSACTIONS
+): { placed: PlacedAssertions[]; dropped: number[] } => {
+  const fitted = [...placed];
+  const dropped: number[] = [];
+  let count = fitted.reduce((total, group) => total + group.transactions.length, 0);
+
+  for (let index = fitted.length - 1; index >= 0 && count > maxTransactions; index--) {
+    if (fitted[index].placement !== 'separate') continue;
+    fitted[index] = { transactions: fitted[index].transactions.slice(0, 1), placement: 'none' };
+    dropped.unshift(index);
+    count--;
+  }
+
+  if (dropped.length > 0) {
+    console.warn(`Dropped assertions of transactions ${dropped.map(index => index + 1).join(', ')} to stay within ${maxTransactions} transactions`);
+  }
+  return { placed: fitted, dropped };
+};
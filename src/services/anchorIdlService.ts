@@ -0,0 +1,118 @@
+import { PublicKey } from "@solana/web3.js";
+import { Buffer } from 'buffer';
+import { z } from "zod";
+import { connection } from "@/lib/solana";
+import { AnchorIdl, StoredIdl } from "@/types/idl";
+
+const IDL_STORAGE_KEY = "anchor_idls";
+const IDL_ACCOUNT_SEED = "anchor:idl";
+
+// IDL account layout: 8 byte discriminator, 32 byte authority, u32 length, zlib data
+const IDL_DATA_OFFSET = 8 + 32;
+
+// Only the parts of the IDL the coder relies on are checked, the rest passes through
+const idlSchema = z.object({
+  instructions: z.array(z.object({
+    name: z.string(),
+    discriminator: z.array(z.number()).optional(),
+    accounts: z.array(z.object({ name: z.string() }).passthrough()),
+    args: z.array(z.object({ name: z.string(), type: z.unknown() })),
+  }).passthrough()),
+  types: z.array(z.object({
+    name: z.string(),
+    type: z.object({ kind: z.enum(['struct', 'enum', 'type']) }).passthrough(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+class AnchorIdlService {
+  private connection: typeof connection;
+  private memoryStorage: Record<string, StoredIdl> = {};
+
+  constructor() {
+    this.connection = connection;
+  }
+
+  parseIdl(json: string): AnchorIdl {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch (error) {
+      throw new Error("IDL is not valid JSON");
+    }
+
+    const parsed = idlSchema.safeParse(raw);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Not an Anchor IDL: ${issue.path.join('.') || 'root'} ${issue.message}`);
+    }
+    return parsed.data as unknown as AnchorIdl;
+  }
+
+  // Address Anchor's `idl init` writes to: createWithSeed(PDA([], program), "anchor:idl", program)
+  async getIdlAddress(programId: PublicKey): Promise<PublicKey> {
+    const [base] = PublicKey.findProgramAddressSync([], programId);
+    return PublicKey.createWithSeed(base, IDL_ACCOUNT_SEED, programId);
+  }
+
+  async fetchOnChainIdl(programId: PublicKey): Promise<AnchorIdl> {
+    const idlAddress = await this.getIdlAddress(programId);
+    console.log(`Fetching IDL for ${programId.toBase58()} from ${idlAddress.toBase58()}`);
+
+    const accountInfo = await this.connection.getAccountInfo(idlAddress);
+    if (!accountInfo) {
+      throw new Error("Program has no on-chain IDL account");
+    }
+
+    const data = Buffer.from(accountInfo.data);
+    const length = data.readUInt32LE(IDL_DATA_OFFSET);
+    const compressed = data.subarray(IDL_DATA_OFFSET + 4, IDL_DATA_OFFSET + 4 + length);
+
+    const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate'));
+    const json = await new Response(stream).text();
+    return this.parseIdl(json);
+  }
+
+  private isLocalStorageAvailable(): boolean {
+    try {
+      const testKey = "__test__";
+      localStorage.setItem(testKey, testKey);
+      localStorage.removeItem(testKey);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  getStoredIdls(): Record<string, StoredIdl> {
+    try {
+      if (!this.isLocalStorageAvailable()) return { ...this.memoryStorage };
+      const stored = localStorage.getItem(IDL_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error("Error reading stored IDLs:", error);
+      return {};
+    }
+  }
+
+  private writeStoredIdls(idls: Record<string, StoredIdl>) {
+    if (this.isLocalStorageAvailable()) {
+      localStorage.setItem(IDL_STORAGE_KEY, JSON.stringify(idls));
+    } else {
+      this.memoryStorage = idls;
+    }
+  }
+
+  saveIdl(programId: string, idl: AnchorIdl, source: StoredIdl['source']): StoredIdl {
+    const entry: StoredIdl = { programId, idl, source, updatedAt: Date.now() };
+    this.writeStoredIdls({ ...this.getStoredIdls(), [programId]: entry });
+    return entry;
+  }
+
+  removeIdl(programId: string) {
+    const idls = this.getStoredIdls();
+    delete idls[programId];
+    this.writeStoredIdls(idls);
+  }
+}
+
+export const anchorIdlService = new AnchorIdlService();
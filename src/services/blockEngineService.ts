@@ -0,0 +1,171 @@
+import { env } from "@/config/env";
+import {
+  BLOCK_ENGINE_REGIONS,
+  CUSTOM_REGION_ID,
+  REGION_ERROR_COOLDOWN_MS,
+  REGION_RATE_LIMIT_COOLDOWN_MS
+} from "@/config/jito";
+import { BlockEngineRegion, BlockEngineSettings, RegionLatency } from "@/types/jito";
+
+const SETTINGS_STORAGE_KEY = "block_engine_settings";
+const PROBE_TIMEOUT = 3_000;
+
+/**
+ * Block engine regions and the order requests try them in. Regions can be
+ * pinned or raced by probed latency; regions that just failed or rate-limited
+ * a request are moved to the back for a while.
+ */
+class BlockEngineService {
+  private settings: BlockEngineSettings;
+  private latencies = new Map<string, RegionLatency>();
+  // Region URL to the time it may be tried first again
+  private cooldowns = new Map<string, number>();
+
+  constructor() {
+    this.settings = this.readSettings() ?? this.getDefaultSettings();
+  }
+
+  // JITO_BLOCK_ENGINE pins a region id or URL, otherwise regions are raced
+  private getDefaultSettings(): BlockEngineSettings {
+    const configured = env.JITO_BLOCK_ENGINE;
+    const defaults: BlockEngineSettings = { mode: 'fastest', regionId: 'mainnet', customUrl: '', failover: true };
+    if (!configured) return defaults;
+    if (BLOCK_ENGINE_REGIONS.some(region => region.id === configured)) {
+      return { ...defaults, mode: 'pinned', regionId: configured };
+    }
+    return { ...defaults, mode: 'pinned', regionId: CUSTOM_REGION_ID, customUrl: configured };
+  }
+
+  private readSettings(): BlockEngineSettings | null {
+    try {
+      const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      return stored ? { ...this.getDefaultSettings(), ...JSON.parse(stored) } : null;
+    } catch (error) {
+      console.error("Error reading block engine settings:", error);
+      return null;
+    }
+  }
+
+  getSettings(): BlockEngineSettings {
+    return this.settings;
+  }
+
+  updateSettings(changes: Partial<BlockEngineSettings>): BlockEngineSettings {
+    const settings = { ...this.settings, ...changes };
+    if (settings.regionId === CUSTOM_REGION_ID) {
+      // Throws for anything that isn't an absolute URL
+      const url = new URL(settings.customUrl.trim());
+      settings.customUrl = url.origin;
+    }
+
+    this.settings = settings;
+    try {
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error("Error storing block engine settings:", error);
+    }
+    console.log("Block engine settings updated:", settings);
+    return settings;
+  }
+
+  // Built-in regions, plus the custom URL once one is set
+  getRegions(): BlockEngineRegion[] {
+    const custom = this.settings.customUrl
+      ? [{ id: CUSTOM_REGION_ID, name: 'Custom', url: this.settings.customUrl }]
+      : [];
+    return [...BLOCK_ENGINE_REGIONS, ...custom];
+  }
+
+  // Whether a URL points at one of the block engines, the only hosts that get the Jito API key
+  isBlockEngineUrl(url: string): boolean {
+    try {
+      const { origin } = new URL(url);
+      return this.getRegions().some(region => new URL(region.url).origin === origin);
+    } catch {
+      return false;
+    }
+  }
+
+  getLatencies(): RegionLatency[] {
+    return [...this.latencies.values()];
+  }
+
+  private async probeRegion(region: BlockEngineRegion): Promise<RegionLatency> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), PROBE_TIMEOUT);
+    const started = performance.now();
+
+    try {
+      // getTipAccounts is the cheapest call every block engine answers
+      const response = await fetch(`${region.url}/api/v1/bundles`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: 'getTipAccounts', params: [] }),
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP error: ${response.status}`);
+      }
+      return { regionId: region.id, latencyMs: Math.round(performance.now() - started), measuredAt: Date.now() };
+    } catch (error) {
+      const message = error instanceof Error && error.name === 'AbortError'
+        ? `No answer within ${PROBE_TIMEOUT}ms`
+        : error instanceof Error ? error.message : "Probe failed";
+      return { regionId: region.id, latencyMs: null, error: message, measuredAt: Date.now() };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  // Measures every region at once and keeps the results for ordering
+  async probeLatency(): Promise<RegionLatency[]> {
+    const results = await Promise.all(this.getRegions().map(region => this.probeRegion(region)));
+    results.forEach(result => this.latencies.set(result.regionId, result));
+    console.log("Block engine latencies:", results);
+    return results;
+  }
+
+  private getLatency(region: BlockEngineRegion): number {
+    return this.latencies.get(region.id)?.latencyMs ?? Number.MAX_SAFE_INTEGER;
+  }
+
+  /**
+   * Base URLs in the order a request should try them. A pinned region comes
+   * first, the rest follow by latency when failover is on; cooling down regions
+   * go last.
+   */
+  async getEndpoints(): Promise<string[]> {
+    const regions = this.getRegions();
+    if (this.settings.mode === 'fastest' && this.latencies.size === 0) {
+      await this.probeLatency();
+    }
+
+    const pinned = this.settings.mode === 'pinned'
+      ? regions.find(region => region.id === this.settings.regionId)
+      : undefined;
+    if (pinned && !this.settings.failover) {
+      return [pinned.url];
+    }
+
+    const now = Date.now();
+    const isCooling = (region: BlockEngineRegion) => (this.cooldowns.get(region.url) ?? 0) > now;
+    const ordered = regions
+      .filter(region => region !== pinned)
+      .sort((a, b) => this.getLatency(a) - this.getLatency(b))
+      .sort((a, b) => Number(isCooling(a)) - Number(isCooling(b)));
+
+    const endpoints = pinned ? [pinned, ...ordered] : ordered;
+    return (this.settings.failover ? endpoints : endpoints.slice(0, 1)).map(region => region.url);
+  }
+
+  reportFailure(url: string, rateLimited: boolean) {
+    const cooldown = rateLimited ? REGION_RATE_LIMIT_COOLDOWN_MS : REGION_ERROR_COOLDOWN_MS;
+    this.cooldowns.set(url, Date.now() + cooldown);
+  }
+
+  reportSuccess(url: string) {
+    this.cooldowns.delete(url);
+  }
+}
+
+export const blockEngineService = new BlockEngineService();
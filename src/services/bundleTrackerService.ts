@@ -0,0 +1,152 @@
+import { BUNDLE_ID_PATTERN } from "@/config/jito";
+import { BundleStatus, InflightBundleStatus, TrackedBundle } from "@/types/jito";
+import { jitoService } from "./jitoService";
+
+const HISTORY_STORAGE_KEY = "bundle_history";
+const MAX_HISTORY = 50;
+
+// Both status methods take at most five bundle IDs per request
+const STATUS_BATCH_SIZE = 5;
+
+// The inflight endpoint forgets bundles after about five minutes
+const INFLIGHT_WINDOW_MS = 5 * 60_000;
+
+/**
+ * Follows submitted bundles until they land or fail. Fresh bundles are looked
+ * up with getInflightBundleStatuses, landed ones with getBundleStatuses for
+ * their slot, signatures and confirmation level. The history is persisted so
+ * outcomes survive a reload.
+ */
+class BundleTrackerService {
+  private history: TrackedBundle[];
+
+  constructor() {
+    this.history = this.readHistory();
+  }
+
+  private isLocalStorageAvailable(): boolean {
+    try {
+      const testKey = "__test__";
+      localStorage.setItem(testKey, testKey);
+      localStorage.removeItem(testKey);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  private readHistory(): TrackedBundle[] {
+    try {
+      if (!this.isLocalStorageAvailable()) return [];
+      const stored = localStorage.getItem(HISTORY_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error("Error reading bundle history:", error);
+      return [];
+    }
+  }
+
+  private writeHistory(history: TrackedBundle[]) {
+    this.history = history.slice(0, MAX_HISTORY);
+    if (this.isLocalStorageAvailable()) {
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(this.history));
+    }
+  }
+
+  getHistory(): TrackedBundle[] {
+    return this.history;
+  }
+
+  // Still worth polling: not yet decided, or landed but not finalized
+  isActive(bundle: TrackedBundle): boolean {
+    return bundle.status === 'Pending' ||
+      (bundle.status === 'Landed' && bundle.confirmationStatus !== 'finalized');
+  }
+
+  track(bundleId: string, transactions: string[] = []): TrackedBundle {
+    if (!BUNDLE_ID_PATTERN.test(bundleId)) {
+      throw new Error("Bundle IDs are 64 hex characters");
+    }
+
+    const now = Date.now();
+    const bundle: TrackedBundle = { bundleId, status: 'Pending', submittedAt: now, updatedAt: now, transactions };
+    this.writeHistory([bundle, ...this.history.filter(entry => entry.bundleId !== bundleId)]);
+    console.log(`Tracking bundle ${bundleId}`);
+    return bundle;
+  }
+
+  remove(bundleId: string) {
+    this.writeHistory(this.history.filter(entry => entry.bundleId !== bundleId));
+  }
+
+  clear() {
+    this.writeHistory([]);
+  }
+
+  private applyStatus(
+    bundle: TrackedBundle,
+    inflight: InflightBundleStatus | null,
+    landed: BundleStatus | null
+  ): TrackedBundle {
+    const updatedAt = Date.now();
+
+    if (landed) {
+      const failed = !('Ok' in landed.err);
+      return {
+        ...bundle,
+        status: failed ? 'Failed' : 'Landed',
+        slot: landed.slot,
+        confirmationStatus: landed.confirmation_status,
+        transactions: landed.transactions.length > 0 ? landed.transactions : bundle.transactions,
+        error: failed ? JSON.stringify(landed.err) : undefined,
+        updatedAt
+      };
+    }
+
+    if (inflight) {
+      return { ...bundle, status: inflight.status, slot: inflight.landed_slot ?? bundle.slot, updatedAt };
+    }
+
+    if (updatedAt - bundle.submittedAt > INFLIGHT_WINDOW_MS) {
+      return { ...bundle, status: 'Invalid', error: "The block engine has no record of this bundle", updatedAt };
+    }
+    return bundle;
+  }
+
+  // Polls every active bundle once and returns the updated history
+  async refresh(): Promise<TrackedBundle[]> {
+    const active = this.history.filter(bundle => this.isActive(bundle));
+    const updates = new Map<string, TrackedBundle>();
+
+    for (let start = 0; start < active.length; start += STATUS_BATCH_SIZE) {
+      const batch = active.slice(start, start + STATUS_BATCH_SIZE);
+      const bundleIds = batch.map(bundle => bundle.bundleId);
+
+      try {
+        const inflight = await jitoService.getInflightBundleStatuses(bundleIds);
+        // Landed bundles, and ones that dropped out of the inflight window, are looked up in full
+        const lookupIds = bundleIds.filter((_, index) => !inflight[index] || inflight[index]?.status === 'Landed');
+        const landed = lookupIds.length > 0 ? await jitoService.getBundleStatuses(lookupIds) : [];
+
+        batch.forEach((bundle, index) => {
+          const landedIndex = lookupIds.indexOf(bundle.bundleId);
+          updates.set(bundle.bundleId, this.applyStatus(
+            bundle,
+            inflight[index],
+            landedIndex >= 0 ? landed[landedIndex] : null
+          ));
+        });
+      } catch (error) {
+        console.error("Error polling bundle statuses:", error);
+      }
+    }
+
+    if (updates.size > 0) {
+      // Bundles added or removed while polling are kept as they are now
+      this.writeHistory(this.history.map(bundle => updates.get(bundle.bundleId) ?? bundle));
+    }
+    return this.history;
+  }
+}
+
+export const bundleTrackerService = new BundleTrackerService();
@@ -1,8 +1,37 @@
-import { Transaction, TransactionInstruction, ComputeBudgetProgram, SystemProgram } from "@solana/web3.js";
-import { connection } from "@/lib/solana";
+import { Transaction, TransactionInstruction, ComputeBudgetProgram, SystemProgram, PublicKey } from "@solana/web3.js";
+import { connection, rpcEndpoint } from "@/lib/solana";
 import { Buffer } from 'buffer';
 import { toast } from "sonner";
 import { env } from "@/config/env";
+import { JITO_TIP_ACCOUNTS } from "@/config/jito";
+import { AssertionFailure, SimulatedAccount, SimulationResult, SimulationStrategy } from "@/types/simulation";
+import { diffAccounts, fromAccountInfo, fromSimulatedAccountInfo, toAccountState } from "@/utils/accountDiff";
+import { BundleTransaction } from "@/types/transaction";
+import { BundleStatus, InflightBundleStatus } from "@/types/jito";
+import { lighthouseService } from "./lighthouseService";
+import { LIGHTHOUSE_ERRORS, LIGHTHOUSE_PROGRAM_ID } from "@/integrations/lighthouse/instructions";
+import { evaluateAssertionCheck } from "@/integrations/lighthouse/assertions";
+import { parseSimulationLogs } from "@/utils/logParser";
+import { findBundleTips } from "@/utils/jitoTips";
+import {
+  fetchLatestBlockhash,
+  getFeePayer,
+  getInstructions,
+  getProgramInstructions,
+  getRecentBlockhash,
+  getWritableAccounts,
+  hasFeePayerSignature,
+  isBundleTransaction,
+  isVersionedTransaction,
+  resolveLookupTables,
+  serializeTransaction,
+  setRecentBlockhash,
+  toVersionedTransaction
+} from "@/utils/transactionUtils";
+import { SequentialBundleSimulator } from "./sequentialSimulator";
+import { blockEngineService } from "./blockEngineService";
+
+type JitoEndpoint = 'bundles' | 'transactions' | 'simulation';
 
 interface JitoResponse {
   jsonrpc: "2.0";
@@ -15,26 +44,77 @@ interface JitoResponse {
   id: string | number;
 }
 
+// Non-2xx answer from a JSON-RPC endpoint, the status decides whether another region is tried
+class HttpStatusError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+}
+
 interface SimulationOptions {
   skipLighthouseCheck?: boolean;
+  strategy?: SimulationStrategy;
+}
+
+interface SimulationSummary {
+  isValid: boolean;
+  error?: string;
+  details?: unknown;
+  normalErrors?: boolean;
+  results?: SimulationResult[];
+}
+
+// Account entry returned by simulateBundle (UiAccount with base64 data)
+interface BundleSimulationAccount {
+  lamports: number;
+  owner: string;
+  data: string[];
+  executable: boolean;
+  rentEpoch?: number;
+}
+
+interface BundleSimulationTransactionResult {
+  err: unknown;
+  logs: string[] | null;
+  preExecutionAccounts: (BundleSimulationAccount | null)[] | null;
+  postExecutionAccounts: (BundleSimulationAccount | null)[] | null;
+  unitsConsumed?: number;
+}
+
+interface BundleSimulationValue {
+  summary: 'succeeded' | { failed: { error: unknown; tx_signature: string | null } };
+  transactionResults: BundleSimulationTransactionResult[];
+}
+
+interface TransactionOutcome {
+  success: boolean;
+  error?: string;
+  isNormalError: boolean;
+  isMaliciousActivity: boolean;
+  details?: unknown;
+  result: SimulationResult;
 }
 
 class JitoService {
   private connection: typeof connection;
+  private sequentialSimulator: SequentialBundleSimulator;
   private readonly MAX_TRANSACTIONS = 5;
   private readonly REQUEST_TIMEOUT = 30000;
   private readonly API_VERSION = 'v1';
-  private readonly BASE_URL = 'https://mainnet.block-engine.jito.wtf';
+  private tipAccounts: string[] = [];
+  private tipAccountIndex = 0;
 
   constructor() {
     this.connection = connection;
+    this.sequentialSimulator = new SequentialBundleSimulator();
   }
 
-  private getApiUrl(endpoint: 'bundles' | 'transactions'): string {
-    return `${this.BASE_URL}/api/${this.API_VERSION}/${endpoint}`;
+  private getApiUrl(baseUrl: string, endpoint: 'bundles' | 'transactions'): string {
+    return `${baseUrl}/api/${this.API_VERSION}/${endpoint}`;
   }
 
-  private validateBundleConstraints(transactions: Transaction[], requireSignatures: boolean = false): { isValid: boolean; error?: string } {
+  private validateBundleConstraints(transactions: BundleTransaction[], requireSignatures: boolean = false): { isValid: boolean; error?: string } {
     if (transactions.length > this.MAX_TRANSACTIONS) {
       return {
         isValid: false,
@@ -49,9 +129,9 @@ class JitoService {
       };
     }
 
-    const firstTxBlockhash = transactions[0].recentBlockhash;
+    const firstTxBlockhash = getRecentBlockhash(transactions[0]);
     const validBlockhash = transactions.every(tx => 
-      tx.recentBlockhash === firstTxBlockhash
+      getRecentBlockhash(tx) === firstTxBlockhash
     );
 
     if (!validBlockhash) {
@@ -61,7 +141,7 @@ class JitoService {
       };
     }
 
-    const hasFeePayers = transactions.every(tx => tx.feePayer);
+    const hasFeePayers = transactions.every(tx => getFeePayer(tx));
     if (!hasFeePayers) {
       return {
         isValid: false,
@@ -70,12 +150,7 @@ class JitoService {
     }
 
     if (requireSignatures) {
-      const hasSignatures = transactions.every(tx => {
-        if (!tx.feePayer) return false;
-        return tx.signatures.some(sig => 
-          sig.publicKey.equals(tx.feePayer!) && sig.signature !== null
-        );
-      });
+      const hasSignatures = transactions.every(tx => hasFeePayerSignature(tx));
       
       if (!hasSignatures) {
         return {
@@ -88,7 +163,47 @@ class JitoService {
     return { isValid: true };
   }
 
-  private async makeRequest(endpoint: string, method: string, params: any[]): Promise<JitoResponse> {
+  // simulateBundle is served by Jito-Solana RPCs rather than the block engine: the
+  // configured simulation RPC first, then the main RPC
+  private getSimulationUrls(): string[] {
+    return [...new Set([env.JITO_SIMULATION_URL, rpcEndpoint].filter(Boolean))];
+  }
+
+  /**
+   * Sends a block engine request to the regions in the order the block engine
+   * settings give, moving on when a region times out, errors or rate-limits.
+   * Other HTTP errors are the request's fault and are thrown straight away.
+   * Simulation requests fail over the same way across the simulation RPCs.
+   */
+  private async makeRequest(endpoint: JitoEndpoint, method: string, params: unknown[]): Promise<JitoResponse> {
+    const simulation = endpoint === 'simulation';
+    const baseUrls = simulation ? this.getSimulationUrls() : await blockEngineService.getEndpoints();
+    let lastError: unknown = new Error(`No ${simulation ? 'simulation RPC' : 'block engine region'} configured`);
+
+    for (const baseUrl of baseUrls) {
+      try {
+        const response = await this.postJsonRpc(
+          simulation ? baseUrl : this.getApiUrl(baseUrl, endpoint),
+          method,
+          params
+        );
+        if (!simulation) blockEngineService.reportSuccess(baseUrl);
+        return response;
+      } catch (error) {
+        const status = error instanceof HttpStatusError ? error.status : null;
+        const rateLimited = status === 429;
+        if (status !== null && !rateLimited && status < 500) {
+          throw error;
+        }
+        if (!simulation) blockEngineService.reportFailure(baseUrl, rateLimited);
+        console.warn(`${simulation ? 'Simulation RPC' : 'Block engine'} ${baseUrl} ${rateLimited ? 'rate limited' : 'failed'} ${method}, trying next`);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  private async postJsonRpc(endpoint: string, method: string, params: unknown[]): Promise<JitoResponse> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.REQUEST_TIMEOUT);
 
@@ -96,12 +211,15 @@ class JitoService {
       console.log(`Making request to ${endpoint} with method ${method}`);
       console.log('Request params:', JSON.stringify(params, null, 2));
       
+      // The simulation RPC can be a different provider, which must not see the Jito key
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (env.JITO_API_KEY && blockEngineService.isBlockEngineUrl(endpoint)) {
+        headers['Authorization'] = `Bearer ${env.JITO_API_KEY}`;
+      }
+
       const response = await fetch(endpoint, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${env.JITO_API_KEY}`
-        },
+        headers,
         body: JSON.stringify({
           jsonrpc: "2.0",
           method,
@@ -116,7 +234,7 @@ class JitoService {
       if (!response.ok) {
         const errorText = await response.text();
         console.error(`HTTP error: ${response.status}`, errorText);
-        throw new Error(`HTTP error: ${response.status} - ${errorText}`);
+        throw new HttpStatusError(`HTTP error: ${response.status} - ${errorText}`, response.status);
       }
 
       const jsonResponse = await response.json();
@@ -215,15 +333,274 @@ class JitoService {
     );
   }
 
+  private toSimulatedAccounts(
+    addresses: string[],
+    accounts?: (BundleSimulationAccount | null)[] | null
+  ): SimulatedAccount[] | undefined {
+    if (!accounts) return undefined;
+
+    // Accounts that don't exist yet come back as null - report them as empty system accounts
+    return addresses.map((address, index) => fromSimulatedAccountInfo(address, accounts[index]));
+  }
+
+  private describeBundleFailure(summary: BundleSimulationValue['summary']): string | undefined {
+    if (summary === 'succeeded') return undefined;
+    const error = summary.failed?.error;
+    return typeof error === 'string' ? error : JSON.stringify(error);
+  }
+
+  /**
+   * Simulates the whole ordered bundle in a single simulateBundle call so later
+   * transactions observe the state written by earlier ones.
+   */
+  async simulateBundle(transactions: BundleTransaction[]): Promise<SimulationResult[]> {
+    const accountAddresses = await Promise.all(transactions.map(async tx =>
+      getWritableAccounts(tx, await resolveLookupTables(tx))
+    ));
+    const encodedTransactions = transactions.map(tx =>
+      Buffer.from(serializeTransaction(tx)).toString('base64')
+    );
+    const accountsConfigs = accountAddresses.map(addresses => ({ addresses, encoding: 'base64' }));
+
+    const response = await this.makeRequest(
+      'simulation',
+      'simulateBundle',
+      [
+        { encodedTransactions },
+        {
+          preExecutionAccountsConfigs: accountsConfigs,
+          postExecutionAccountsConfigs: accountsConfigs,
+          transactionEncoding: 'base64',
+          skipSigVerify: true,
+          replaceRecentBlockhash: true
+        }
+      ]
+    );
+
+    if (response.error) {
+      throw new Error(`simulateBundle error: ${response.error.message}`);
+    }
+
+    const value: BundleSimulationValue | undefined = response.result?.value;
+    if (!value || !Array.isArray(value.transactionResults)) {
+      throw new Error("simulateBundle returned an unexpected response");
+    }
+
+    const failureReason = this.describeBundleFailure(value.summary);
+
+    return transactions.map((_, index) => {
+      const txResult = value.transactionResults[index];
+
+      // The block engine stops at the first failing transaction, later ones never execute
+      if (!txResult) {
+        return {
+          success: false,
+          message: `Not executed: bundle failed at an earlier transaction${failureReason ? ` (${failureReason})` : ''}`
+        };
+      }
+
+      const preExecutionAccounts = this.toSimulatedAccounts(accountAddresses[index], txResult.preExecutionAccounts);
+      const postExecutionAccounts = this.toSimulatedAccounts(accountAddresses[index], txResult.postExecutionAccounts);
+
+      return {
+        success: txResult.err === null,
+        message: txResult.err ? JSON.stringify(txResult.err) : undefined,
+        logs: txResult.logs ?? [],
+        unitsConsumed: txResult.unitsConsumed,
+        preExecutionAccounts,
+        postExecutionAccounts,
+        accountDiffs: preExecutionAccounts && postExecutionAccounts
+          ? diffAccounts(preExecutionAccounts, postExecutionAccounts)
+          : undefined
+      };
+    });
+  }
+
+  // Reads `{ InstructionError: [index, { Custom: code }] }`, either raw or JSON encoded
+  private parseCustomInstructionError(err: unknown): { index: number; code: number } | null {
+    let value = err;
+    if (typeof value === 'string') {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        return null;
+      }
+    }
+
+    const instructionError = (value as { InstructionError?: unknown } | null)?.InstructionError;
+    if (!Array.isArray(instructionError)) return null;
+    const [index, detail] = instructionError;
+    const code = (detail as { Custom?: unknown } | null)?.Custom;
+    return typeof index === 'number' && typeof code === 'number' ? { index, code } : null;
+  }
+
+  /**
+   * Maps a Lighthouse error back to the checks encoded in the failing instruction.
+   * Actual values come from the latest known state of the target account, which is
+   * only what the assertion saw when the transaction holds nothing but assertions;
+   * for inlined assertions the Lighthouse log lines are the only actual values.
+   */
+  private async explainAssertionFailure(
+    tx: BundleTransaction,
+    result: SimulationResult,
+    knownAccounts: Map<string, SimulatedAccount>,
+    err: unknown = result.message
+  ): Promise<AssertionFailure | undefined> {
+    const error = this.parseCustomInstructionError(err);
+    if (!error) return undefined;
+
+    try {
+      const instructions = getInstructions(tx, await resolveLookupTables(tx));
+      const instruction = instructions[error.index];
+      if (!instruction || !instruction.programId.equals(LIGHTHOUSE_PROGRAM_ID)) return undefined;
+
+      const explanation = lighthouseService.explainAssertionInstruction(instruction);
+      const account = instruction.keys[0]?.pubkey.toBase58();
+      const assertionsOnly = instructions.every(ix =>
+        ix.programId.equals(LIGHTHOUSE_PROGRAM_ID) || ix.programId.equals(ComputeBudgetProgram.programId)
+      );
+      const known = account && assertionsOnly ? knownAccounts.get(account) : undefined;
+      const state = known ? toAccountState(known) : undefined;
+
+      // Every top-level instruction opens one invocation, so they line up by index
+      const invocation = parseSimulationLogs(result.logs ?? []).invocations[error.index];
+      const logs = (invocation?.entries ?? []).flatMap(entry =>
+        entry.kind === 'log' ? [entry.text.replace(/^Program log: /, '')] : []
+      );
+
+      return {
+        instructionIndex: error.index,
+        errorCode: error.code,
+        errorName: LIGHTHOUSE_ERRORS[error.code] ?? `Custom(${error.code})`,
+        account,
+        reason: explanation
+          ? explanation.reason
+          : "This assertion wasn't built in this session, so its expected values are unknown",
+        checks: (explanation?.checks ?? []).map(check => ({
+          check,
+          ...(state ? evaluateAssertionCheck(check, state) : {})
+        })),
+        logs
+      };
+    } catch (explainError) {
+      console.warn("Could not explain Lighthouse failure:", explainError);
+      return undefined;
+    }
+  }
+
+  private describeAssertionFailure(failure: AssertionFailure): string {
+    const target = failure.account ? ` on ${failure.account}` : '';
+    return `Lighthouse ${failure.errorName} at instruction ${failure.instructionIndex}${target}`;
+  }
+
+  // Attaches failure explanations, carrying post-state forward the same way the bundle executes
+  private async explainBundleResults(
+    transactions: BundleTransaction[],
+    results: SimulationResult[]
+  ): Promise<SimulationResult[]> {
+    const knownAccounts = new Map<string, SimulatedAccount>();
+    const explained: SimulationResult[] = [];
+
+    for (const [index, result] of results.entries()) {
+      if (result.success) {
+        result.postExecutionAccounts?.forEach(account => knownAccounts.set(account.address, account));
+        explained.push(result);
+        continue;
+      }
+
+      const assertionFailure = await this.explainAssertionFailure(transactions[index], result, knownAccounts);
+      explained.push(assertionFailure
+        ? { ...result, assertionFailure, message: this.describeAssertionFailure(assertionFailure) }
+        : result);
+    }
+
+    return explained;
+  }
+
+  private toOutcome(result: SimulationResult, err: unknown, details?: unknown): TransactionOutcome {
+    if (err) {
+      const errorClassification = this.classifySimulationError(err);
+
+      return {
+        success: false,
+        error: errorClassification.message,
+        isNormalError: errorClassification.isNormalError,
+        isMaliciousActivity: errorClassification.isMaliciousActivity,
+        details,
+        result: { ...result, success: false, message: errorClassification.message }
+      };
+    }
+
+    const logs = result.logs ?? [];
+
+    // Check for any warnings in the simulation logs
+    if (logs.some(log => log.includes('Warning') || log.includes('Error'))) {
+      console.warn("Simulation completed with warnings:", logs);
+    }
+
+    const isSuccessful = !logs.some(log =>
+      log.includes('Error') ||
+      log.includes('failed') ||
+      log.includes('rejected')
+    );
+    const isMalicious = this.isMaliciousActivity({ logs });
+
+    return {
+      success: isSuccessful,
+      details,
+      isNormalError: !isSuccessful && !isMalicious,
+      isMaliciousActivity: isMalicious,
+      result: { ...result, success: isSuccessful }
+    };
+  }
+
+  private summarizeOutcomes(outcomes: TransactionOutcome[], options: SimulationOptions): SimulationSummary {
+    const results = outcomes.map(outcome => outcome.result);
+
+    const maliciousActivity = outcomes.some(result =>
+      !result.success && result.isMaliciousActivity === true
+    );
+
+    const hasOnlyNormalErrors = outcomes.some(result =>
+      !result.success && result.isNormalError === true
+    );
+
+    if (maliciousActivity) {
+      const maliciousResults = outcomes.filter(r =>
+        !r.success && r.isMaliciousActivity === true
+      );
+      const errorMessages = maliciousResults.map(r => r.error).join('; ');
+      console.error("Malicious activity detected in transactions:", errorMessages);
+
+      return {
+        isValid: false,
+        error: "Potential malicious activity detected in bundle",
+        details: outcomes,
+        normalErrors: false,
+        results
+      };
+    } else if (hasOnlyNormalErrors && !options.skipLighthouseCheck) {
+      const failedResults = outcomes.filter(r => !r.success);
+      const errorMessages = failedResults.map(r => r.error).join('; ');
+      console.log("Bundle has normal errors (not malicious activity):", errorMessages);
+
+      return {
+        isValid: false,
+        error: "Bundle contains errors that need to be fixed",
+        details: outcomes,
+        normalErrors: true,
+        results
+      };
+    }
+
+    console.log("All transactions simulated successfully");
+    return { isValid: true, details: outcomes, results };
+  }
+
   async simulateTransactions(
-    transactions: Transaction[], 
+    transactions: BundleTransaction[], 
     options: SimulationOptions = {}
-  ): Promise<{
-    isValid: boolean;
-    error?: string;
-    details?: any;
-    normalErrors?: boolean;
-  }> {
+  ): Promise<SimulationSummary> {
     if (!transactions || transactions.length === 0) {
       console.log("No transactions to simulate");
       return { isValid: false, error: "No transactions to simulate" };
@@ -241,9 +618,11 @@ class JitoService {
         };
       }
 
-      // Validate each transaction before simulation
-      for (const tx of transactions) {
-        if (!(tx instanceof Transaction)) {
+      // Validate each transaction before simulation, unsigned ones get a blockhash on a copy
+      const prepared: BundleTransaction[] = [];
+      for (const original of transactions) {
+        let tx = original;
+        if (!isBundleTransaction(tx)) {
           console.error("Invalid transaction object:", tx);
           return {
             isValid: false,
@@ -251,7 +630,7 @@ class JitoService {
             normalErrors: true
           };
         }
-        if (!tx.feePayer) {
+        if (!getFeePayer(tx)) {
           console.error("Transaction missing fee payer:", tx);
           return {
             isValid: false,
@@ -259,7 +638,8 @@ class JitoService {
             normalErrors: true
           };
         }
-        if (!tx.instructions || tx.instructions.length === 0) {
+        const instructions = getProgramInstructions(tx);
+        if (instructions.length === 0) {
           console.error("Transaction has no instructions:", tx);
           return {
             isValid: false,
@@ -268,188 +648,49 @@ class JitoService {
           };
         }
         // Update transaction with latest blockhash if needed
-        if (!tx.recentBlockhash) {
-          const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('finalized');
-          tx.recentBlockhash = blockhash;
-          tx.lastValidBlockHeight = lastValidBlockHeight;
+        if (!getRecentBlockhash(tx)) {
+          const { blockhash, lastValidBlockHeight } = await fetchLatestBlockhash('finalized');
+          tx = setRecentBlockhash(tx, blockhash, lastValidBlockHeight);
         }
         // Log transaction fields for debugging
         console.log("Simulating transaction:", {
-          feePayer: tx.feePayer?.toBase58(),
-          recentBlockhash: tx.recentBlockhash,
-          instructions: tx.instructions.length,
+          feePayer: getFeePayer(tx)?.toBase58(),
+          recentBlockhash: getRecentBlockhash(tx),
+          instructions: instructions.length,
           signatures: tx.signatures.length,
-          isTransaction: tx instanceof Transaction
+          version: isVersionedTransaction(tx) ? tx.version : 'legacy'
         });
+        prepared.push(tx);
       }
 
-      // Get the user's wallet (Phantom)
-      const provider = window?.solana;
-      if (!provider) {
-        throw new Error("Phantom wallet not found");
-      }
-
-      // Prepare all transactions for signing
-      const transactionsToSign = transactions.map(tx => {
-        // Ensure transaction is properly constructed
-        if (!tx.feePayer) {
-          throw new Error("Transaction missing fee payer");
-        }
-
-        // Create a new transaction with the same instructions
-        const newTx = new Transaction();
-        
-        // Set required fields
-        newTx.feePayer = tx.feePayer;
-        newTx.recentBlockhash = tx.recentBlockhash;
-        newTx.lastValidBlockHeight = tx.lastValidBlockHeight;
-        
-        // Add all instructions
-        tx.instructions.forEach(ix => {
-          newTx.add(ix);
-        });
-
-        // Ensure the transaction is properly constructed
-        if (!newTx.recentBlockhash) {
-          throw new Error("Transaction missing recent blockhash");
-        }
-
-        // Initialize the transaction message
-        newTx.signatures = [];
-        const message = newTx.compileMessage();
-        if (!message) {
-          throw new Error("Failed to compile transaction message");
-        }
+      const strategy = options.strategy ?? 'auto';
 
-        // Add the fee payer's signature slot
-        newTx.signatures.push({
-          signature: null,
-          publicKey: newTx.feePayer
-        });
+      if (strategy === 'isolated') {
+        const outcomes = await this.simulateIsolated(prepared);
+        return this.summarizeOutcomes(outcomes, options);
+      }
 
-        return newTx;
-      });
+      let bundleResults: SimulationResult[];
 
-      // Sign all transactions at once
-      const signedTransactions = await provider.signAllTransactions(transactionsToSign);
-
-      // Simulate each signed transaction
-      const simulationResults = await Promise.all(
-        signedTransactions.map(async (signedTx) => {
-          try {
-            // Verify the transaction is properly signed
-            if (!signedTx.signatures || signedTx.signatures.length === 0) {
-              throw new Error("Transaction not properly signed");
-            }
-
-            // Ensure the transaction has a valid signature
-            const hasValidSignature = signedTx.signatures.some(sig => 
-              sig.publicKey.equals(signedTx.feePayer!) && sig.signature !== null
-            );
-
-            if (!hasValidSignature) {
-              throw new Error("Transaction missing valid signature from fee payer");
-            }
-
-            // Verify the transaction message is properly constructed
-            const message = signedTx.compileMessage();
-            if (!message) {
-              throw new Error("Failed to compile signed transaction message");
-            }
-
-            // Perform the actual simulation with strict validation
-            const simulation = await this.connection.simulateTransaction(signedTx, {
-              sigVerify: true, // Enable signature verification
-              replaceRecentBlockhash: true,
-              commitment: 'confirmed'
-            });
-
-            if (simulation.value.err) {
-              const errorClassification = this.classifySimulationError(simulation.value.err);
-              
-              return { 
-                success: false, 
-                error: errorClassification.message,
-                isNormalError: errorClassification.isNormalError,
-                isMaliciousActivity: errorClassification.isMaliciousActivity,
-                details: simulation.value 
-              };
-            }
-
-            // Check for any warnings in the simulation logs
-            const hasWarnings = simulation.value.logs?.some(log => 
-              log.includes('Warning') || log.includes('Error')
-            );
-
-            if (hasWarnings) {
-              console.warn("Simulation completed with warnings:", simulation.value.logs);
-            }
-
-            // Check if the simulation was successful
-            const isSuccessful = simulation.value.err === null && 
-                               !simulation.value.logs?.some(log => 
-                                 log.includes('Error') || 
-                                 log.includes('failed') || 
-                                 log.includes('rejected')
-                               );
-
-            return { 
-              success: isSuccessful, 
-              details: simulation.value,
-              isNormalError: !isSuccessful && !this.isMaliciousActivity(simulation.value),
-              isMaliciousActivity: this.isMaliciousActivity(simulation.value)
-            };
-          } catch (error) {
-            console.error("Error simulating transaction:", error);
-            const errorClassification = this.classifySimulationError(error);
-            
-            return { 
-              success: false,
-              error: errorClassification.message,
-              isNormalError: errorClassification.isNormalError,
-              isMaliciousActivity: errorClassification.isMaliciousActivity,
-              details: error
-            };
+      if (strategy === 'sequential') {
+        bundleResults = await this.sequentialSimulator.simulate(prepared);
+      } else {
+        try {
+          bundleResults = await this.simulateBundle(prepared);
+        } catch (error) {
+          if (strategy === 'bundle') {
+            throw error;
           }
-        })
-      );
+          console.warn("Bundle simulation unavailable, falling back to sequential simulation:", error);
+          bundleResults = await this.sequentialSimulator.simulate(prepared);
+        }
+      }
+      bundleResults = await this.explainBundleResults(prepared, bundleResults);
 
-      const maliciousActivity = simulationResults.some(result => 
-        !result.success && result.isMaliciousActivity === true
+      const outcomes = bundleResults.map(result =>
+        this.toOutcome(result, result.success ? null : result.message || "Simulation failed", result)
       );
-      
-      const hasOnlyNormalErrors = simulationResults.some(result => 
-        !result.success && result.isNormalError === true
-      );
-
-      if (maliciousActivity) {
-        const maliciousResults = simulationResults.filter(r => 
-          !r.success && r.isMaliciousActivity === true
-        );
-        const errorMessages = maliciousResults.map(r => r.error).join('; ');
-        console.error("Malicious activity detected in transactions:", errorMessages);
-        
-        return { 
-          isValid: false, 
-          error: "Potential malicious activity detected in bundle",
-          details: simulationResults,
-          normalErrors: false
-        };
-      } else if (hasOnlyNormalErrors && !options.skipLighthouseCheck) {
-        const failedResults = simulationResults.filter(r => !r.success);
-        const errorMessages = failedResults.map(r => r.error).join('; ');
-        console.log("Bundle has normal errors (not malicious activity):", errorMessages);
-        
-        return { 
-          isValid: false, 
-          error: "Bundle contains errors that need to be fixed",
-          details: simulationResults,
-          normalErrors: true
-        };
-      }
-      
-      console.log("All transactions simulated successfully");
-      return { isValid: true, details: simulationResults };
+      return this.summarizeOutcomes(outcomes, options);
     } catch (error) {
       console.error("Error during transaction simulation:", error);
       const errorClassification = this.classifySimulationError(error);
@@ -462,7 +703,188 @@ class JitoService {
     }
   }
 
-  async submitBundle(transactions: Transaction[]): Promise<any> {
+  // Simulates each transaction on its own against current chain state
+  private async simulateIsolated(transactions: BundleTransaction[]): Promise<TransactionOutcome[]> {
+    // Get the user's wallet (Phantom)
+    const provider = window?.solana;
+    if (!provider) {
+      throw new Error("Phantom wallet not found");
+    }
+
+    // Prepare all transactions for signing
+    const transactionsToSign = transactions.map(tx => {
+      // Versioned transactions are already compiled and go to the wallet as-is
+      if (isVersionedTransaction(tx)) {
+        return tx;
+      }
+
+      // Ensure transaction is properly constructed
+      if (!tx.feePayer) {
+        throw new Error("Transaction missing fee payer");
+      }
+
+      // Create a new transaction with the same instructions
+      const newTx = new Transaction();
+      
+      // Set required fields
+      newTx.feePayer = tx.feePayer;
+      newTx.recentBlockhash = tx.recentBlockhash;
+      newTx.lastValidBlockHeight = tx.lastValidBlockHeight;
+      
+      // Add all instructions
+      tx.instructions.forEach(ix => {
+        newTx.add(ix);
+      });
+
+      // Ensure the transaction is properly constructed
+      if (!newTx.recentBlockhash) {
+        throw new Error("Transaction missing recent blockhash");
+      }
+
+      // Initialize the transaction message
+      newTx.signatures = [];
+      const message = newTx.compileMessage();
+      if (!message) {
+        throw new Error("Failed to compile transaction message");
+      }
+
+      // Add the fee payer's signature slot
+      newTx.signatures.push({
+        signature: null,
+        publicKey: newTx.feePayer
+      });
+
+      return newTx;
+    });
+
+    // Sign all transactions at once
+    const signedTransactions: BundleTransaction[] = await provider.signAllTransactions(transactionsToSign);
+
+    // Simulate each signed transaction
+    return Promise.all(
+      signedTransactions.map(async (signedTx): Promise<TransactionOutcome> => {
+        try {
+          // Verify the transaction is properly signed
+          if (!signedTx.signatures || signedTx.signatures.length === 0) {
+            throw new Error("Transaction not properly signed");
+          }
+
+          // Ensure the transaction has a valid signature
+          if (!hasFeePayerSignature(signedTx)) {
+            throw new Error("Transaction missing valid signature from fee payer");
+          }
+
+          // Capture writable accounts before and after so the diff view has something to show
+          const addresses = getWritableAccounts(signedTx, await resolveLookupTables(signedTx));
+          const preInfos = await this.connection.getMultipleAccountsInfo(
+            addresses.map(address => new PublicKey(address))
+          );
+          const preExecutionAccounts = addresses.map((address, index) => fromAccountInfo(address, preInfos[index]));
+
+          // Perform the actual simulation with strict validation
+          const versionedTx = toVersionedTransaction(signedTx);
+          const simulation = await this.connection.simulateTransaction(versionedTx, {
+            sigVerify: true, // Enable signature verification
+            replaceRecentBlockhash: true,
+            commitment: 'confirmed',
+            accounts: { addresses, encoding: 'base64' }
+          });
+
+          const postExecutionAccounts = addresses.map((address, index) =>
+            fromSimulatedAccountInfo(address, simulation.value.accounts?.[index])
+          );
+
+          const result: SimulationResult = {
+            success: simulation.value.err === null,
+            logs: simulation.value.logs ?? [],
+            unitsConsumed: simulation.value.unitsConsumed,
+            preExecutionAccounts,
+            postExecutionAccounts,
+            accountDiffs: diffAccounts(preExecutionAccounts, postExecutionAccounts)
+          };
+
+          // Each transaction runs against chain state here, so there is no earlier state to compare with
+          const assertionFailure = simulation.value.err
+            ? await this.explainAssertionFailure(signedTx, result, new Map(), simulation.value.err)
+            : undefined;
+
+          return this.toOutcome(
+            assertionFailure ? { ...result, assertionFailure } : result,
+            assertionFailure ? this.describeAssertionFailure(assertionFailure) : simulation.value.err,
+            simulation.value
+          );
+        } catch (error) {
+          console.error("Error simulating transaction:", error);
+          return this.toOutcome({ success: false }, error, error);
+        }
+      })
+    );
+  }
+
+  // Look up landed bundles by ID, returns null for bundles the block engine doesn't know
+  async getBundleStatuses(bundleIds: string[]): Promise<(BundleStatus | null)[]> {
+    const response = await this.makeRequest(
+      'bundles',
+      'getBundleStatuses',
+      [bundleIds]
+    );
+
+    if (response.error) {
+      throw new Error(`Jito API error: ${response.error.message}`);
+    }
+
+    const statuses: (BundleStatus | null)[] = response.result?.value ?? [];
+    return bundleIds.map(bundleId =>
+      statuses.find(status => status?.bundle_id === bundleId) ?? null
+    );
+  }
+
+  // Recent bundles by ID, including ones still in flight; null for bundles the block engine doesn't know
+  async getInflightBundleStatuses(bundleIds: string[]): Promise<(InflightBundleStatus | null)[]> {
+    const response = await this.makeRequest(
+      'bundles',
+      'getInflightBundleStatuses',
+      [bundleIds]
+    );
+
+    if (response.error) {
+      throw new Error(`Jito API error: ${response.error.message}`);
+    }
+
+    const statuses: (InflightBundleStatus | null)[] = response.result?.value ?? [];
+    return bundleIds.map(bundleId =>
+      statuses.find(status => status?.bundle_id === bundleId) ?? null
+    );
+  }
+
+  // Tip accounts from the block engine, fetched once; the built-in list stands in while it can't be reached
+  async getTipAccounts(): Promise<string[]> {
+    if (this.tipAccounts.length > 0) return this.tipAccounts;
+
+    try {
+      const response = await this.makeRequest('bundles', 'getTipAccounts', []);
+      if (response.error) {
+        throw new Error(`Jito API error: ${response.error.message}`);
+      }
+      const accounts: string[] = response.result ?? [];
+      this.tipAccounts = accounts.length > 0 ? accounts : JITO_TIP_ACCOUNTS;
+      return this.tipAccounts;
+    } catch (error) {
+      console.warn("Could not fetch tip accounts, using the built-in list:", error);
+      return JITO_TIP_ACCOUNTS;
+    }
+  }
+
+  // Tip accounts are handed out in turn, so consecutive bundles don't all write-lock the same one
+  async getNextTipAccount(): Promise<PublicKey> {
+    const accounts = await this.getTipAccounts();
+    const account = accounts[this.tipAccountIndex % accounts.length];
+    this.tipAccountIndex++;
+    return new PublicKey(account);
+  }
+
+  // Sends the signed bundle and returns the bundle ID the block engine assigned
+  async submitBundle(transactions: BundleTransaction[]): Promise<string> {
     try {
       console.log("Starting bundle submission process");
       
@@ -474,13 +896,22 @@ class JitoService {
         throw new Error(error);
       }
       
+      const tips = await findBundleTips(transactions);
+      if (tips.length === 0) {
+        console.warn("Bundle pays no Jito tip, the block engine will not land it");
+        toast.warning("Bundle pays no Jito tip and is unlikely to land");
+      }
+
       console.log("Preparing transactions for bundle submission");
       
       for (const tx of transactions) {
-        console.log('Transaction signatures:', tx.signatures.map(sig => ({
-          pubkey: sig.publicKey.toBase58(),
-          signature: sig.signature?.toString('base64') || 'null'
-        })));
+        console.log('Transaction signatures:', isVersionedTransaction(tx)
+          ? tx.signatures.map(sig => Buffer.from(sig).toString('base64'))
+          : tx.signatures.map(sig => ({
+              pubkey: sig.publicKey.toBase58(),
+              signature: sig.signature?.toString('base64') || 'null'
+            }))
+        );
       }
 
       const encodedTransactions = transactions.map(tx => {
@@ -492,7 +923,7 @@ class JitoService {
       console.log("Submitting bundle to Jito API with corrected format");
       
       const response = await this.makeRequest(
-        this.getApiUrl('bundles'),
+        'bundles',
         'sendBundle',
         [encodedTransactions]
       );
@@ -1,19 +1,51 @@
 import { 
   Transaction, 
   PublicKey, 
-  TransactionInstruction,
-  SYSVAR_CLOCK_PUBKEY,
   SystemProgram,
-  ComputeBudgetProgram
+  TransactionInstruction
 } from "@solana/web3.js";
 import { connection } from "@/lib/solana";
-import { Buffer } from 'buffer';
 import { toast } from "sonner";
-import { SecurityService } from "./securityService";
+import { SecurityService, securityService } from "./securityService";
+import { BundleTransaction } from "@/types/transaction";
+import { SecurityReport } from "@/types/security";
+import { BundlePostState } from "@/types/simulation";
+import {
+  AccountState,
+  AssertionCheck,
+  AssertionOverrides,
+  AssertionStrategy,
+  TokenAccountState
+} from "@/types/lighthouse";
+import {
+  getFeePayer,
+  getProgramInstructions,
+  getRecentBlockhash,
+  getWritableAccounts,
+  resolveLookupTables,
+  toVersionedTransaction
+} from "@/utils/transactionUtils";
+import { fromSimulatedAccountInfo, toAccountState } from "@/utils/accountDiff";
+import { decodeInstruction, getNumericParam } from "@/utils/instructionDecoder";
+import { createAssertSysvarClockInstruction, IntegerOperator, LogLevel } from "@/integrations/lighthouse/instructions";
+import {
+  applyAssertionOverrides,
+  createCheckInstructionGroups,
+  DEFAULT_ASSERTION_STRATEGY,
+  deriveAssertions,
+  feePayerAllowance,
+  toAssertionChecks
+} from "@/integrations/lighthouse/assertions";
 
 // Lighthouse Program ID for mainnet
 const LIGHTHOUSE_PROGRAM_ID = "L2TExMFKdjpN9kozasaurPirfHy9P8sbXoAN1qA3S95";
 
+// Slots the assertion transaction may land after it was built (~60s)
+const MAX_ASSERTION_SLOT_WINDOW = 150;
+
+// Built assertion instructions remembered for explaining failed simulations
+const MAX_REGISTERED_INSTRUCTIONS = 500;
+
 // Define behavior
 const LIGHTHOUSE_CONFIG = {
   allowRunningWithoutLighthouse: false, // Don't allow running without Lighthouse
@@ -26,23 +58,30 @@ interface AssertionResult {
   success: boolean;
   failureReason?: string;
   assertionTransaction?: Transaction;
+  assertions?: AssertionCheck[];
+  // Compute used by the guarded transaction in the assertion simulation
+  unitsConsumed?: number;
   isProgramAvailable?: boolean;
 }
 
+export interface AssertionExplanation {
+  checks: AssertionCheck[];
+  reason?: string;
+}
+
 class LighthouseService {
   private connection: typeof connection;
   private securityService: SecurityService;
-  private readonly MAX_COMPUTE_UNITS = 200_000;
-  private readonly MAX_INSTRUCTIONS_PER_TX = 20;
   private programAccountVerified: boolean = false;
   private verificationAttempts: number = 0;
   private verificationInProgress: boolean = false;
   private verificationPromise: Promise<boolean> | null = null;
   private lighthouseProgramId: PublicKey;
+  private builtInstructions = new Map<string, AssertionExplanation>();
 
   constructor() {
     this.connection = connection;
-    this.securityService = new SecurityService();
+    this.securityService = securityService;
     
     try {
       // Use the program ID but with proper validation to prevent errors
@@ -146,69 +185,101 @@ class LighthouseService {
     }
   }
 
-  private isComputeBudgetInstruction(instruction: TransactionInstruction): boolean {
-    return instruction.programId.equals(ComputeBudgetProgram.programId);
-  }
-
-  private hasComputeBudgetInstruction(transaction: Transaction): boolean {
-    if (!transaction || !transaction.instructions) {
-      return false;
-    }
-    return transaction.instructions.some(ix => this.isComputeBudgetInstruction(ix));
-  }
-
-  public async detectMaliciousPatterns(transaction: Transaction): Promise<{ isMalicious: boolean; reason?: string }> {
+  public async detectMaliciousPatterns(transaction: BundleTransaction): Promise<{
+    isMalicious: boolean;
+    reason?: string;
+    report?: SecurityReport;
+  }> {
     try {
       // Use the new security service for comprehensive validation
       const securityCheck = await this.securityService.validateTransaction(transaction);
       
+      // Compute and instruction limits are rules of the active security policy
       if (!securityCheck.isValid) {
         return {
           isMalicious: true,
-          reason: securityCheck.reason
+          reason: securityCheck.reason,
+          report: securityCheck
         };
       }
 
-      // Additional Lighthouse-specific checks
-      if (this.hasComputeBudgetInstruction(transaction)) {
-        for (const ix of transaction.instructions) {
-          if (this.isComputeBudgetInstruction(ix)) {
-            try {
-              const dataView = Buffer.from(ix.data);
-              if (dataView.length >= 5) {
-                const units = dataView.readUInt32LE(1);
-                console.log(`Compute units detected: ${units}`);
-                if (units > this.MAX_COMPUTE_UNITS) {
-                  return { 
-                    isMalicious: true, 
-                    reason: `Excessive compute units detected: ${units} > ${this.MAX_COMPUTE_UNITS}` 
-                  };
-                }
-              }
-            } catch (error) {
-              console.error("Error parsing compute budget instruction:", error);
-            }
-          }
-        }
-      }
-
-      // Check for too many instructions (potential DoS vector)
-      if (transaction.instructions.length > this.MAX_INSTRUCTIONS_PER_TX) {
-        return {
-          isMalicious: true,
-          reason: `Too many instructions in transaction: ${transaction.instructions.length} > ${this.MAX_INSTRUCTIONS_PER_TX}`
-        };
-      }
-
-      // All checks passed
-      return { isMalicious: false };
+      // All checks passed, non-blocking findings are still reported
+      return { isMalicious: false, report: securityCheck };
     } catch (error) {
       console.error("Error in malicious pattern detection:", error);
       return { isMalicious: false };
     }
   }
 
-  private async createAssertionTransaction(transaction: Transaction): Promise<Transaction | undefined> {
+  /**
+   * Post-state of every account the transaction writes. Inside a bundle this is
+   * the bundle simulation's result for the transaction, since accounts earlier
+   * transactions wrote (the fee payer at least) differ from chain state. A
+   * transaction on its own is simulated against chain state.
+   */
+  private async simulatePostState(transaction: BundleTransaction, bundleState?: BundlePostState): Promise<{
+    states: (AccountState | TokenAccountState)[];
+    unitsConsumed?: number;
+  }> {
+    if (bundleState) {
+      return {
+        states: bundleState.accounts.map(toAccountState),
+        unitsConsumed: bundleState.unitsConsumed
+      };
+    }
+
+    const addresses = getWritableAccounts(transaction, await resolveLookupTables(transaction));
+    const simulation = await this.connection.simulateTransaction(toVersionedTransaction(transaction), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: { addresses, encoding: 'base64' }
+    });
+
+    if (simulation.value.err) {
+      throw new Error(`Simulation failed: ${JSON.stringify(simulation.value.err)}`);
+    }
+
+    return {
+      states: addresses.map((address, index) =>
+        toAccountState(fromSimulatedAccountInfo(address, simulation.value.accounts?.[index]))
+      ),
+      unitsConsumed: simulation.value.unitsConsumed
+    };
+  }
+
+  // Auto-generated checks for the simulated post-state, before any user edits
+  async previewAssertions(
+    transaction: BundleTransaction,
+    strategy: AssertionStrategy = DEFAULT_ASSERTION_STRATEGY,
+    bundleState?: BundlePostState
+  ): Promise<AssertionCheck[]> {
+    const postState = await this.simulatePostState(transaction, bundleState);
+    const feeAllowance = feePayerAllowance(bundleState?.transactionIndex);
+    return deriveAssertions(postState.states, strategy, getFeePayer(transaction), feeAllowance).flatMap(toAssertionChecks);
+  }
+
+  // Instructions are identified by target account and encoded data, which covers every asserted value
+  private instructionKey(instruction: TransactionInstruction): string {
+    return `${instruction.keys[0]?.pubkey.toBase58() ?? ''}:${instruction.data.toString('hex')}`;
+  }
+
+  private registerInstruction(instruction: TransactionInstruction, explanation: AssertionExplanation): void {
+    const key = this.instructionKey(instruction);
+    this.builtInstructions.delete(key);
+    this.builtInstructions.set(key, explanation);
+
+    if (this.builtInstructions.size > MAX_REGISTERED_INSTRUCTIONS) {
+      const oldest = this.builtInstructions.keys().next().value;
+      if (oldest !== undefined) this.builtInstructions.delete(oldest);
+    }
+  }
+
+  // Looks up the checks behind an assertion instruction built by this service
+  explainAssertionInstruction(instruction: TransactionInstruction): AssertionExplanation | undefined {
+    return this.builtInstructions.get(this.instructionKey(instruction));
+  }
+
+  private async createAssertionTransaction(assertions: AssertionCheck[]): Promise<Transaction | undefined> {
     try {
       // First verify that the Lighthouse program is available
       const isProgramAvailable = await this.verifyProgramAccount();
@@ -224,28 +295,23 @@ class LighthouseService {
       }
 
       const assertionTx = new Transaction();
-      
-      // Add system clock for validation
-      assertionTx.add(
-        new TransactionInstruction({
-          keys: [
-            { pubkey: SYSVAR_CLOCK_PUBKEY, isSigner: false, isWritable: false }
-          ],
-          programId: this.lighthouseProgramId,
-          data: Buffer.from([])
-        })
+
+      // The assertion transaction only lands while the bundle is still fresh
+      const currentSlot = await this.connection.getSlot('confirmed');
+      const lastSlot = currentSlot + MAX_ASSERTION_SLOT_WINDOW;
+      const clockInstruction = createAssertSysvarClockInstruction(
+        { kind: 'Slot', value: lastSlot, operator: IntegerOperator.LessThanOrEqual },
+        LogLevel.FailedPlaintextMessage
       );
-      
-      // Add compute budget specific assertions if needed
-      if (this.hasComputeBudgetInstruction(transaction)) {
-        console.log("Creating compute budget assertions for mainnet");
-        assertionTx.add(
-          new TransactionInstruction({
-            keys: [],
-            programId: this.lighthouseProgramId,
-            data: Buffer.from([0]) // Compute budget assertion opcode
-          })
-        );
+      assertionTx.add(clockInstruction);
+      this.registerInstruction(clockInstruction, {
+        checks: [],
+        reason: `Bundle landed after slot ${lastSlot}, the assertions expired`
+      });
+
+      for (const { instruction, checks } of createCheckInstructionGroups(assertions)) {
+        assertionTx.add(instruction);
+        this.registerInstruction(instruction, { checks });
       }
 
       // If we get here, the assertion transaction is valid
@@ -257,28 +323,36 @@ class LighthouseService {
     }
   }
 
-  async validateTransaction(transaction: Transaction): Promise<boolean> {
+  // Structural checks, plus a simulation against chain state unless the caller already simulated it in its bundle
+  async validateTransaction(transaction: BundleTransaction, simulate: boolean = true): Promise<boolean> {
     try {
       // Skip validation for empty transactions
-      if (!transaction.instructions || transaction.instructions.length === 0) {
+      if (getProgramInstructions(transaction).length === 0) {
         console.error("No instructions provided in transaction");
         return false;
       }
       
       // Basic validation - check if the transaction has required fields
-      if (!transaction.recentBlockhash) {
+      if (!getRecentBlockhash(transaction)) {
         console.error("Transaction missing recentBlockhash");
         return false;
       }
 
-      if (!transaction.feePayer) {
+      if (!getFeePayer(transaction)) {
         console.error("Transaction missing feePayer");
         return false;
       }
 
+      if (!simulate) {
+        return true;
+      }
+
       // Always simulate real transactions
         try {
-          const simulation = await this.connection.simulateTransaction(transaction);
+          const simulation = await this.connection.simulateTransaction(toVersionedTransaction(transaction), {
+            sigVerify: false,
+            replaceRecentBlockhash: true
+          });
           if (simulation.value.err) {
             console.error("Transaction simulation failed:", simulation.value.err);
           return false;
@@ -318,24 +392,13 @@ class LighthouseService {
     if (transaction.instructions.length === 1) {
       const ix = transaction.instructions[0];
       if (ix.programId.equals(SystemProgram.programId)) {
-        try {
-          const dataView = Buffer.from(ix.data);
-          if (dataView.length >= 12) {
-            const instructionType = dataView.readUInt32LE(0);
-            if (instructionType === 2) { // Transfer instruction
-              const amount = dataView.readBigUInt64LE(4);
-              if (amount === BigInt(0)) {
-                // Check if from and to are the same
-                if (ix.keys.length >= 2 && 
-                    ix.keys[0].pubkey.equals(ix.keys[1].pubkey)) {
-                  return false;
-                }
-              }
-            }
+        const decoded = decodeInstruction(ix);
+        if (decoded.type === 'Transfer' && getNumericParam(decoded, 'lamports') === BigInt(0)) {
+          // Check if from and to are the same
+          if (ix.keys.length >= 2 &&
+              ix.keys[0].pubkey.equals(ix.keys[1].pubkey)) {
+            return false;
           }
-        } catch (error) {
-          console.error("Error parsing instruction in validation check:", error);
-          return false;
         }
       }
     }
@@ -344,13 +407,16 @@ class LighthouseService {
   }
 
   async buildAssertions(
-    transaction: Transaction
+    transaction: BundleTransaction,
+    strategy: AssertionStrategy = DEFAULT_ASSERTION_STRATEGY,
+    overrides?: AssertionOverrides,
+    bundleState?: BundlePostState
   ): Promise<AssertionResult> {
     try {
       console.log("Building Lighthouse assertions for transaction");
 
       // Handle empty or invalid transaction objects
-      if (!transaction || typeof transaction !== 'object') {
+      if (!transaction || typeof transaction !== 'object' || !transaction.signatures) {
         return {
           success: false,
           failureReason: "Empty or invalid transaction object provided",
@@ -368,8 +434,9 @@ class LighthouseService {
         };
       }
       
-      // Validate transaction structure
-      const isValid = await this.validateTransaction(transaction);
+      // Validate transaction structure; a transaction that ran in its bundle depends on
+      // earlier ones and can fail when simulated alone
+      const isValid = await this.validateTransaction(transaction, !bundleState);
       if (!isValid) {
         return {
           success: false,
@@ -379,7 +446,7 @@ class LighthouseService {
       }
       
       // Check for malicious patterns in the transaction
-      if (transaction.instructions && transaction.instructions.length > 0) {
+      if (getProgramInstructions(transaction).length > 0) {
         const maliciousCheck = await this.detectMaliciousPatterns(transaction);
         if (maliciousCheck.isMalicious) {
           console.error("Malicious transaction detected:", maliciousCheck.reason);
@@ -391,8 +458,15 @@ class LighthouseService {
         }
       }
 
+      // Pin the simulated post-state of every writable account
+      const postState = await this.simulatePostState(transaction, bundleState);
+      const feeAllowance = feePayerAllowance(bundleState?.transactionIndex);
+      const derived = deriveAssertions(postState.states, strategy, getFeePayer(transaction), feeAllowance);
+      const assertions = applyAssertionOverrides(derived.flatMap(toAssertionChecks), overrides);
+      console.log(`Derived ${derived.length} account assertions from simulated post-state, ${assertions.length} checks after edits`);
+
       // Create assertion transaction
-      const assertionTransaction = await this.createAssertionTransaction(transaction);
+      const assertionTransaction = await this.createAssertionTransaction(assertions);
       
       if (!assertionTransaction) {
         return {
@@ -406,6 +480,8 @@ class LighthouseService {
       return {
         success: true,
         assertionTransaction,
+        assertions,
+        unitsConsumed: postState.unitsConsumed,
         isProgramAvailable: true
       };
 
@@ -0,0 +1,85 @@
+import { PublicKey } from "@solana/web3.js";
+import { KNOWN_PROGRAMS } from "@/config/programRegistry";
+import { ProgramEntry } from "@/types/security";
+
+const REGISTRY_STORAGE_KEY = "program_registry";
+
+/**
+ * Known programs with names, risk labels and allow/deny status. Built-in entries
+ * come from config; user additions and edits of built-ins are persisted as
+ * overrides keyed by program id and merged on top.
+ */
+class ProgramRegistryService {
+  private overrides: Record<string, ProgramEntry>;
+
+  constructor() {
+    this.overrides = this.readOverrides();
+  }
+
+  private isLocalStorageAvailable(): boolean {
+    try {
+      const testKey = "__test__";
+      localStorage.setItem(testKey, testKey);
+      localStorage.removeItem(testKey);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  private readOverrides(): Record<string, ProgramEntry> {
+    try {
+      if (!this.isLocalStorageAvailable()) return {};
+      const stored = localStorage.getItem(REGISTRY_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error("Error reading program registry:", error);
+      return {};
+    }
+  }
+
+  private writeOverrides(overrides: Record<string, ProgramEntry>) {
+    this.overrides = overrides;
+    if (this.isLocalStorageAvailable()) {
+      localStorage.setItem(REGISTRY_STORAGE_KEY, JSON.stringify(overrides));
+    }
+  }
+
+  getEntries(): ProgramEntry[] {
+    const builtIn = KNOWN_PROGRAMS.map(entry => this.overrides[entry.programId] ?? entry);
+    const custom = Object.values(this.overrides).filter(entry => !entry.builtIn);
+    return [...builtIn, ...custom];
+  }
+
+  getEntry(programId: PublicKey | string): ProgramEntry | undefined {
+    const address = programId.toString();
+    return this.overrides[address] ?? KNOWN_PROGRAMS.find(entry => entry.programId === address);
+  }
+
+  isEdited(programId: string): boolean {
+    return this.overrides[programId]?.builtIn === true;
+  }
+
+  saveEntry(entry: Omit<ProgramEntry, 'builtIn'>): ProgramEntry {
+    // Validates the address, throws for anything that isn't a public key
+    const programId = new PublicKey(entry.programId.trim()).toBase58();
+    const saved: ProgramEntry = {
+      ...entry,
+      programId,
+      name: entry.name.trim() || `${programId.slice(0, 4)}...${programId.slice(-4)}`,
+      labels: entry.labels.map(label => label.trim()).filter(Boolean),
+      builtIn: KNOWN_PROGRAMS.some(known => known.programId === programId)
+    };
+    this.writeOverrides({ ...this.overrides, [programId]: saved });
+    return saved;
+  }
+
+  // Drops the user's entry; built-in programs go back to their shipped settings
+  removeEntry(programId: string) {
+    const overrides = { ...this.overrides };
+    delete overrides[programId];
+    this.writeOverrides(overrides);
+  }
+}
+
+export const programRegistryService = new ProgramRegistryService();
@@ -0,0 +1,405 @@
+import { SystemProgram, ComputeBudgetProgram, LAMPORTS_PER_SOL, TransactionInstruction } from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { connection } from "@/lib/solana";
+import { BundleTransaction } from "@/types/transaction";
+import { SimulationResult } from "@/types/simulation";
+import { SecurityRuleConfig, SecurityRuleId, SecuritySeverity } from "@/types/security";
+import { getBlockhashSlot, getFeePayer, getRecentBlockhash } from "@/utils/transactionUtils";
+import { decodeInstruction, getNumericParam } from "@/utils/instructionDecoder";
+import { WalletOutflow } from "@/utils/accountDiff";
+import { isTipAccount } from "@/utils/jitoTips";
+import { programRegistryService } from "./programRegistryService";
+
+export interface SecurityRuleContext {
+  tx: BundleTransaction;
+  // Instructions with address lookup tables resolved
+  instructions: TransactionInstruction[];
+  // Per fee payer counts of submitted transactions, kept by the service across calls
+  txCounts: Map<string, { count: number; timestamp: number }>;
+}
+
+// What bundle-wide rules see once the whole bundle has been simulated
+export interface BundleRuleContext {
+  // The connected wallet the bundle is simulated for
+  wallet: string;
+  results: (SimulationResult | undefined)[];
+  outflow: WalletOutflow;
+  // Addresses the wallet has paid in earlier accepted bundles
+  knownRecipients: Set<string>;
+}
+
+export interface RuleFinding {
+  message: string;
+  // Overrides the rule's configured severity, e.g. for warnings
+  severity?: SecuritySeverity;
+  // Reported but never blocking, whatever the policy's failOn
+  warning?: boolean;
+  instructionIndex?: number;
+  transactionIndex?: number;
+  accounts?: string[];
+}
+
+export interface SecurityRule<Context = SecurityRuleContext> {
+  id: SecurityRuleId;
+  description: string;
+  // How to fix a transaction the rule flagged
+  remediation: string;
+  defaults: SecurityRuleConfig;
+  // Returns one finding per problem, an empty list when the rule passes
+  check: (context: Context, config: SecurityRuleConfig) => Promise<RuleFinding[]>;
+}
+
+export type BundleSecurityRule = SecurityRule<BundleRuleContext>;
+
+const threshold = (config: SecurityRuleConfig, name: string, fallback: number): number =>
+  config.thresholds[name] ?? fallback;
+
+const rule = <Context = SecurityRuleContext>(
+  id: SecurityRuleId,
+  description: string,
+  remediation: string,
+  defaults: Partial<SecurityRuleConfig>,
+  check: SecurityRule<Context>['check']
+): SecurityRule<Context> => ({
+  id,
+  description,
+  remediation,
+  defaults: { enabled: true, severity: 'medium', thresholds: {}, programs: [], ...defaults },
+  check
+});
+
+const blockhashAgeRule = rule(
+  'blockhash-age',
+  'Flags blockhashes older than maxAgeSlots and rejects expired or unknown ones; blockhashes expire after about 150 slots',
+  'Rebuild the transaction with a recent blockhash',
+  { severity: 'high', thresholds: { maxAgeSlots: 100 } },
+  async ({ tx }, config) => {
+    const recentBlockhash = getRecentBlockhash(tx);
+    if (!recentBlockhash) {
+      return [{ message: "Missing recent blockhash" }];
+    }
+
+    try {
+      const { context, value: isValid } = await connection.isBlockhashValid(recentBlockhash, { commitment: 'confirmed' });
+      if (!isValid) {
+        return [{ message: "Blockhash has expired or is unknown to the cluster" }];
+      }
+
+      // The age is only known for blockhashes fetched in this session, validity covers the rest
+      const blockhashSlot = getBlockhashSlot(recentBlockhash);
+      if (blockhashSlot === undefined) {
+        return [];
+      }
+
+      const blockhashAge = context.slot - blockhashSlot;
+      const maxAge = threshold(config, 'maxAgeSlots', 100);
+      // Callers synchronize blockhashes before validating, so a stale one here is never refreshed silently
+      if (blockhashAge > maxAge) {
+        return [{ message: `Blockhash is ${blockhashAge} slots old, limit is ${maxAge}` }];
+      }
+    } catch (error) {
+      // If we can't verify the blockhash, the simulation will still catch a bad one
+      console.warn("Could not verify blockhash age, proceeding with caution:", error);
+    }
+    return [];
+  }
+);
+
+const computeBudgetRule = rule(
+  'compute-budget',
+  'Flags compute unit limits above maxComputeUnits',
+  'Lower SetComputeUnitLimit to what the transaction actually consumes',
+  { severity: 'high', thresholds: { maxComputeUnits: 200_000 } },
+  async ({ instructions }, config) => {
+    const maxUnits = threshold(config, 'maxComputeUnits', 200_000);
+    return instructions.flatMap((ix, instructionIndex) => {
+      if (!ix.programId.equals(ComputeBudgetProgram.programId)) return [];
+      const units = getNumericParam(decodeInstruction(ix), 'units');
+      return units !== null && units > BigInt(maxUnits)
+        ? [{ message: `Excessive compute units: ${units} > ${maxUnits}`, instructionIndex }]
+        : [];
+    });
+  }
+);
+
+const accountCountRule = rule(
+  'account-count',
+  'Flags transactions touching more than maxAccounts unique accounts',
+  'Split the transaction, or move rarely used accounts into a separate transaction',
+  { thresholds: { maxAccounts: 10 } },
+  async ({ instructions }, config) => {
+    const uniqueAccounts = new Set<string>();
+    for (const ix of instructions) {
+      for (const key of ix.keys) {
+        uniqueAccounts.add(key.pubkey.toString());
+      }
+    }
+
+    const maxAccounts = threshold(config, 'maxAccounts', 10);
+    return uniqueAccounts.size > maxAccounts
+      ? [{ message: `Too many unique accounts: ${uniqueAccounts.size} > ${maxAccounts}` }]
+      : [];
+  }
+);
+
+const instructionCountRule = rule(
+  'instruction-count',
+  'Flags transactions with more than maxInstructions instructions',
+  'Split the instructions across several transactions in the bundle',
+  { severity: 'high', thresholds: { maxInstructions: 20 } },
+  async ({ instructions }, config) => {
+    const maxInstructions = threshold(config, 'maxInstructions', 20);
+    return instructions.length > maxInstructions
+      ? [{ message: `Too many instructions in transaction: ${instructions.length} > ${maxInstructions}` }]
+      : [];
+  }
+);
+
+const programInvocationsRule = rule(
+  'program-invocations',
+  'Flags programs denied in the registry or listed in the policy, and programs the registry does not know',
+  'Remove the instructions calling this program, or review it and allow it in the program registry',
+  { severity: 'high', unknownPrograms: 'warn' },
+  async ({ instructions }, config) => {
+    const denied = new Set(config.programs);
+    return instructions.flatMap((ix, instructionIndex): RuleFinding[] => {
+      const programId = ix.programId.toString();
+      const entry = programRegistryService.getEntry(programId);
+
+      if (denied.has(programId) || entry?.status === 'deny') {
+        return [{
+          message: `Denied program invoked: ${entry?.name ?? programId}`,
+          instructionIndex,
+          accounts: [programId]
+        }];
+      }
+      if (!entry) {
+        // Policies that opt in treat unknown programs like denied ones, others only warn
+        const deny = config.unknownPrograms === 'deny';
+        return [{
+          message: `Unknown program invoked: ${programId}`,
+          severity: deny ? config.severity : 'low',
+          warning: !deny,
+          instructionIndex,
+          accounts: [programId]
+        }];
+      }
+      return [];
+    });
+  }
+);
+
+const feeManipulationRule = rule(
+  'fee-manipulation',
+  'Flags more than maxSystemTransfers SOL transfers in one transaction, Jito tips not counted',
+  'Check every SOL transfer is intended, and merge transfers to the same recipient',
+  { thresholds: { maxSystemTransfers: 1 } },
+  async ({ instructions }, config) => {
+    const transfers = instructions.flatMap((ix, instructionIndex) => {
+      if (!ix.programId.equals(SystemProgram.programId)) return [];
+      const decoded = decodeInstruction(ix);
+      const tip = decoded.accounts[1] && isTipAccount(decoded.accounts[1].pubkey);
+      return decoded.type === 'Transfer' && !tip ? [{ ix, instructionIndex }] : [];
+    });
+
+    // Reported at the first transfer over the limit
+    const excess = transfers[threshold(config, 'maxSystemTransfers', 1)];
+    return excess
+      ? [{
+          message: "Multiple fee payer instructions detected",
+          instructionIndex: excess.instructionIndex,
+          accounts: [...new Set(transfers.flatMap(({ ix }) => ix.keys.slice(0, 2).map(key => key.pubkey.toBase58())))]
+        }]
+      : [];
+  }
+);
+
+const rateLimitRule = rule(
+  'rate-limit',
+  'Limits each fee payer to maxTransactions submitted per windowMs',
+  'Wait for the rate limit window to pass before submitting again',
+  { thresholds: { windowMs: 60_000, maxTransactions: 10 } },
+  async ({ tx, txCounts }, config) => {
+    const feePayer = getFeePayer(tx)?.toString();
+    if (!feePayer) {
+      return [{ message: "Missing fee payer" }];
+    }
+
+    // Only reads the counts, SecurityService.recordSubmitted adds to them once a bundle is sent
+    const userTxData = txCounts.get(feePayer);
+    const inWindow = userTxData && Date.now() - userTxData.timestamp <= threshold(config, 'windowMs', 60_000);
+    if (inWindow && userTxData.count >= threshold(config, 'maxTransactions', 10)) {
+      return [{ message: "Rate limit exceeded", accounts: [feePayer] }];
+    }
+    return [];
+  }
+);
+
+const tokenAccountsRule = rule(
+  'token-accounts',
+  'Checks that token transfer sources exist',
+  'Create the source token account first, or fix the account passed to the transfer',
+  { severity: 'high' },
+  async ({ instructions }) => {
+    const findings: RuleFinding[] = [];
+    for (const [instructionIndex, ix] of instructions.entries()) {
+      if (!ix.programId.equals(TOKEN_PROGRAM_ID) && !ix.programId.equals(TOKEN_2022_PROGRAM_ID)) continue;
+      try {
+        const { type } = decodeInstruction(ix);
+        if (type === 'Transfer' || type === 'TransferChecked') {
+          // Verify the source token account exists
+          const tokenAccount = ix.keys[0].pubkey;
+          const accountInfo = await connection.getAccountInfo(tokenAccount);
+          if (!accountInfo) {
+            findings.push({
+              message: `Invalid token account: ${tokenAccount.toBase58()}`,
+              instructionIndex,
+              accounts: [tokenAccount.toBase58()]
+            });
+          }
+        }
+      } catch (error) {
+        console.error("Error checking token account:", error);
+      }
+    }
+    return findings;
+  }
+);
+
+const U64_MAX = BigInt('18446744073709551615');
+
+// Authority changes that hand control of a token account, or its rent, to someone else
+const DRAINER_AUTHORITY_TYPES = ['AccountOwner', 'CloseAccount'];
+
+const tokenDelegationRule = rule(
+  'token-delegation',
+  'Flags token approvals to delegates outside the allowlist, unlimited approvals, owner or close authority changes and closes sending rent elsewhere',
+  'Remove the instruction unless the delegate or recipient is trusted, then add it to the policy allowlist',
+  { severity: 'high', allowlist: [] },
+  async ({ tx, instructions }, config) => {
+    // The fee payer signs the bundle, so handing something back to it is not a drain
+    const trusted = new Set([...(config.allowlist ?? []), getFeePayer(tx)?.toBase58()]);
+    const maxApproval = config.thresholds.maxApprovalAmount;
+
+    return instructions.flatMap((ix, instructionIndex): RuleFinding[] => {
+      if (!ix.programId.equals(TOKEN_PROGRAM_ID) && !ix.programId.equals(TOKEN_2022_PROGRAM_ID)) return [];
+      const decoded = decodeInstruction(ix);
+      const account = (name: string) => decoded.accounts.find(key => key.name === name)?.pubkey ?? '';
+
+      switch (decoded.type) {
+        case 'Approve':
+        case 'ApproveChecked': {
+          const source = account('Source');
+          const delegate = account('Delegate');
+          const amount = getNumericParam(decoded, 'amount');
+          const findings: RuleFinding[] = [];
+          if (!trusted.has(delegate)) {
+            findings.push({
+              message: `Token approval to non-allowlisted delegate ${delegate}`,
+              instructionIndex,
+              accounts: [source, delegate]
+            });
+          }
+          if (amount !== null && (amount === U64_MAX || (maxApproval !== undefined && amount > BigInt(maxApproval)))) {
+            findings.push({
+              message: amount === U64_MAX
+                ? `Unlimited token approval to ${delegate}`
+                : `Token approval of ${amount} to ${delegate} exceeds ${maxApproval}`,
+              severity: 'high',
+              instructionIndex,
+              accounts: [source, delegate]
+            });
+          }
+          return findings;
+        }
+        case 'SetAuthority': {
+          const authorityType = String(decoded.params.authorityType);
+          const newAuthority = decoded.params.newAuthority;
+          // Clearing the close authority hands it back to the owner
+          if (!DRAINER_AUTHORITY_TYPES.includes(authorityType) || typeof newAuthority !== 'string') return [];
+          if (trusted.has(newAuthority)) return [];
+          return [{
+            message: `${authorityType} authority of ${account('Account')} changed to ${newAuthority}`,
+            instructionIndex,
+            accounts: [account('Account'), newAuthority]
+          }];
+        }
+        case 'CloseAccount': {
+          const destination = account('Destination');
+          if (destination === account('Owner') || trusted.has(destination)) return [];
+          return [{
+            message: `Closing ${account('Account')} sends its rent to ${destination}`,
+            instructionIndex,
+            accounts: [account('Account'), destination]
+          }];
+        }
+        default:
+          return [];
+      }
+    });
+  }
+);
+
+// Rules run in this order; every enabled rule runs even after an earlier one fails
+export const SECURITY_RULES: SecurityRule[] = [
+  blockhashAgeRule,
+  computeBudgetRule,
+  accountCountRule,
+  instructionCountRule,
+  programInvocationsRule,
+  feeManipulationRule,
+  rateLimitRule,
+  tokenAccountsRule,
+  tokenDelegationRule,
+];
+
+const walletOutflowRule = rule<BundleRuleContext>(
+  'wallet-outflow',
+  'Flags bundles whose net outflow from the wallet exceeds maxSolOutflowLamports or maxTokenOutflowPercent of a token balance, and warns about payments to addresses the wallet has not paid before, Jito tip accounts excepted',
+  'Check every transfer out of the wallet is intended; add trusted recipients to the policy allowlist',
+  { severity: 'high', thresholds: { maxSolOutflowLamports: 100_000_000, maxTokenOutflowPercent: 50 }, allowlist: [] },
+  async ({ wallet, outflow, knownRecipients }, config) => {
+    const findings: RuleFinding[] = [];
+
+    const maxLamports = threshold(config, 'maxSolOutflowLamports', 100_000_000);
+    if (outflow.lamports > maxLamports) {
+      findings.push({
+        message: `Wallet loses ${outflow.lamports / LAMPORTS_PER_SOL} SOL across the bundle, limit is ${maxLamports / LAMPORTS_PER_SOL} SOL`,
+        accounts: [wallet]
+      });
+    }
+
+    const maxPercent = threshold(config, 'maxTokenOutflowPercent', 50);
+    for (const token of outflow.tokens) {
+      // A balance the bundle first deposited and then sent on counts as fully lost
+      const percent = token.balanceBefore > BigInt(0)
+        ? Number(token.outflow * BigInt(10_000) / token.balanceBefore) / 100
+        : 100;
+      if (percent > maxPercent) {
+        findings.push({
+          message: `Wallet loses ${percent}% of its ${token.mint} balance across the bundle, limit is ${maxPercent}%`,
+          accounts: [wallet, token.mint]
+        });
+      }
+    }
+
+    // A new recipient is worth a look but not a reason to block, or no first payment could ever pass
+    const trusted = new Set(config.allowlist);
+    for (const recipient of outflow.recipients) {
+      if (trusted.has(recipient.address) || knownRecipients.has(recipient.address) || isTipAccount(recipient.address)) continue;
+      findings.push({
+        message: `Funds sent to previously unseen address ${recipient.address}`,
+        severity: 'low',
+        warning: true,
+        transactionIndex: recipient.transactionIndex,
+        accounts: [recipient.address]
+      });
+    }
+    return findings;
+  }
+);
+
+// Run once per bundle after simulation, on the balances it produced
+export const BUNDLE_SECURITY_RULES: BundleSecurityRule[] = [
+  walletOutflowRule,
+];
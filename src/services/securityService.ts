@@ -1,272 +1,278 @@
-import { Transaction, PublicKey, SystemProgram, ComputeBudgetProgram } from "@solana/web3.js";
-import { connection } from "@/lib/solana";
+import { TransactionInstruction } from "@solana/web3.js";
+import { z } from "zod";
+import { env } from "@/config/env";
+import { PRODUCTION_POLICY, SECURITY_POLICIES } from "@/config/securityPolicies";
+import { BundleTransaction } from "@/types/transaction";
+import { SimulationResult } from "@/types/simulation";
+import {
+  SecurityFinding,
+  SecurityPolicy,
+  SecurityRuleConfig,
+  SecurityRuleId,
+  SecurityReport,
+  SecuritySeverity
+} from "@/types/security";
+import { getFeePayer, resolveTransaction } from "@/utils/transactionUtils";
+import { summarizeWalletOutflow } from "@/utils/accountDiff";
+import { BUNDLE_SECURITY_RULES, BundleSecurityRule, RuleFinding, SECURITY_RULES, SecurityRule } from "./securityRules";
+
+const POLICY_STORAGE_KEY = "security_policy";
+const RECIPIENTS_STORAGE_KEY = "wallet_recipients";
+
+const SEVERITY_RANK: Record<SecuritySeverity, number> = { low: 0, medium: 1, high: 2 };
+
+const severitySchema = z.enum(['low', 'medium', 'high']);
+
+const ruleConfigSchema = z.object({
+  enabled: z.boolean(),
+  severity: severitySchema,
+  thresholds: z.record(z.number().nonnegative()),
+  programs: z.array(z.string()),
+  unknownPrograms: z.enum(['deny', 'warn']),
+  allowlist: z.array(z.string()),
+}).partial().strict();
+
+const policySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  failOn: severitySchema,
+  rules: z.record(
+    z.enum([...SECURITY_RULES, ...BUNDLE_SECURITY_RULES].map(rule => rule.id) as [SecurityRuleId, ...SecurityRuleId[]]),
+    ruleConfigSchema
+  ),
+});
 
 export class SecurityService {
-  private readonly MAX_COMPUTE_UNITS = 200_000;
-  private readonly MAX_INSTRUCTIONS_PER_TX = 20;
-  private readonly MAX_ACCOUNTS_PER_TX = 10;
-  private readonly MAX_RECENT_BLOCKHASH_AGE = 1500; // blocks (increased from 150)
-  private readonly SUSPICIOUS_PROGRAMS = new Set([
-    // Add known malicious program IDs here
-  ]);
-
-  // Rate limiting
-  private readonly RATE_LIMIT_WINDOW = 60000; // 1 minute
-  private readonly MAX_TXS_PER_WINDOW = 10;
+  private policy: SecurityPolicy;
+
+  // Rate limiting state, shared by every policy
   private txCounts: Map<string, { count: number; timestamp: number }> = new Map();
 
-  public async validateTransaction(tx: Transaction): Promise<{
-    isValid: boolean;
-    reason?: string;
-    severity: 'low' | 'medium' | 'high';
-  }> {
+  constructor(policy?: SecurityPolicy) {
+    this.policy = policy ?? this.loadStoredPolicy() ?? this.getDefaultPolicy();
+    console.log(`Security policy: ${this.policy.name}`);
+  }
+
+  private getDefaultPolicy(): SecurityPolicy {
+    const configured = SECURITY_POLICIES.find(policy => policy.id === env.SECURITY_POLICY);
+    return configured ?? PRODUCTION_POLICY;
+  }
+
+  private loadStoredPolicy(): SecurityPolicy | null {
     try {
-      // 1. Basic Transaction Validation
-      if (!tx || !tx.instructions) {
-        return { isValid: false, reason: "Invalid transaction structure", severity: 'high' };
-      }
+      const stored = localStorage.getItem(POLICY_STORAGE_KEY);
+      return stored ? this.parsePolicy(stored) : null;
+    } catch (error) {
+      console.error("Ignoring stored security policy:", error);
+      return null;
+    }
+  }
 
-      // 2. Check for Replay Attacks with improved blockhash handling
-      if (!tx.recentBlockhash) {
-        return { isValid: false, reason: "Missing recent blockhash", severity: 'high' };
-      }
+  parsePolicy(json: string): SecurityPolicy {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch (error) {
+      throw new Error("Security policy is not valid JSON");
+    }
 
-      try {
-        const blockhashInfo = await connection.getLatestBlockhash('finalized');
-        const currentSlot = await connection.getSlot('finalized');
-        
-        // Get the slot for the transaction's blockhash
-        const blockhashSlot = await connection.getSlot(tx.recentBlockhash, 'finalized');
-        
-        if (blockhashSlot === null) {
-          return { 
-            isValid: false, 
-            reason: "Invalid blockhash", 
-            severity: 'high' 
-          };
-        }
+    const parsed = policySchema.safeParse(raw);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Invalid security policy: ${issue.path.join('.') || 'root'} ${issue.message}`);
+    }
+    return parsed.data as SecurityPolicy;
+  }
 
-        const blockhashAge = currentSlot - blockhashSlot;
-        
-        if (blockhashAge > this.MAX_RECENT_BLOCKHASH_AGE) {
-          // Try to update the transaction with a new blockhash
-          try {
-            const newBlockhash = await connection.getLatestBlockhash('finalized');
-            tx.recentBlockhash = newBlockhash.blockhash;
-            tx.lastValidBlockHeight = newBlockhash.lastValidBlockHeight;
-            
-            // Return success after updating blockhash
-            return { 
-              isValid: true, 
-              severity: 'low',
-              reason: "Updated transaction with new blockhash"
-            };
-          } catch (error) {
-            return { 
-              isValid: false, 
-              reason: `Blockhash too old: ${blockhashAge} blocks and failed to update`, 
-              severity: 'high' 
-            };
-          }
-        }
-      } catch (error) {
-        console.error("Error checking blockhash:", error);
-        // If we can't verify the blockhash, we'll be more lenient in development
-        return { 
-          isValid: true, 
-          severity: 'low',
-          reason: "Could not verify blockhash age, proceeding with caution"
-        };
-      }
+  getPolicy(): SecurityPolicy {
+    return this.policy;
+  }
 
-      // 3. Check for Compute Budget Attacks
-      const computeCheck = this.checkComputeBudget(tx);
-      if (!computeCheck.isValid) {
-        return computeCheck;
-      }
+  // Switches policy for all later validations and remembers it across reloads
+  setPolicy(policy: SecurityPolicy): void {
+    this.policy = policy;
+    try {
+      localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(policy));
+    } catch (error) {
+      console.error("Error storing security policy:", error);
+    }
+    console.log(`Security policy set to ${policy.name}`);
+  }
 
-      // 4. Check for Account Enumeration Attacks
-      const accountCheck = this.checkAccountEnumeration(tx);
-      if (!accountCheck.isValid) {
-        return accountCheck;
-      }
+  loadPolicy(json: string): SecurityPolicy {
+    const policy = this.parsePolicy(json);
+    this.setPolicy(policy);
+    return policy;
+  }
 
-      // 5. Check for Program Invocation Attacks
-      const programCheck = this.checkProgramInvocations(tx);
-      if (!programCheck.isValid) {
-        return programCheck;
-      }
+  getRules(): (SecurityRule | BundleSecurityRule)[] {
+    return [...SECURITY_RULES, ...BUNDLE_SECURITY_RULES];
+  }
 
-      // 6. Check for Fee Manipulation
-      const feeCheck = this.checkFeeManipulation(tx);
-      if (!feeCheck.isValid) {
-        return feeCheck;
-      }
+  // Rule defaults with the policy's overrides applied on top
+  getRuleConfig(rule: SecurityRule | BundleSecurityRule): SecurityRuleConfig {
+    const override = this.policy.rules[rule.id] ?? {};
+    return {
+      ...rule.defaults,
+      ...override,
+      thresholds: { ...rule.defaults.thresholds, ...override.thresholds },
+      programs: override.programs ?? rule.defaults.programs,
+      allowlist: override.allowlist ?? rule.defaults.allowlist
+    };
+  }
+
+  private isBlocking(severity: SecuritySeverity): boolean {
+    return SEVERITY_RANK[severity] >= SEVERITY_RANK[this.policy.failOn];
+  }
+
+  private toFinding(rule: SecurityRule | BundleSecurityRule, config: SecurityRuleConfig, finding: RuleFinding): SecurityFinding {
+    const severity = finding.severity ?? config.severity;
+    return {
+      ruleId: rule.id,
+      severity,
+      message: finding.message,
+      instructionIndex: finding.instructionIndex,
+      transactionIndex: finding.transactionIndex,
+      accounts: finding.accounts ?? [],
+      remediation: rule.remediation,
+      blocking: !finding.warning && this.isBlocking(severity)
+    };
+  }
+
+  private structureFinding(message: string): SecurityFinding {
+    return { ruleId: 'structure', severity: 'high', message, accounts: [], blocking: this.isBlocking('high') };
+  }
 
-      // 7. Check for Rate Limiting
-      const rateCheck = this.checkRateLimit(tx);
-      if (!rateCheck.isValid) {
-        return rateCheck;
+  private summarize(findings: SecurityFinding[]): SecurityReport {
+    const blocking = findings.filter(finding => finding.blocking);
+    const severity = findings.reduce<SecuritySeverity>(
+      (highest, finding) => SEVERITY_RANK[finding.severity] > SEVERITY_RANK[highest] ? finding.severity : highest,
+      'low'
+    );
+
+    return {
+      isValid: blocking.length === 0,
+      reason: blocking[0]?.message ?? findings[0]?.message,
+      severity,
+      findings,
+      policyId: this.policy.id
+    };
+  }
+
+  // Runs every enabled rule of the active policy and reports all findings
+  public async validateTransaction(tx: BundleTransaction): Promise<SecurityReport> {
+    try {
+      if (!tx || !tx.signatures) {
+        return this.summarize([this.structureFinding("Invalid transaction structure")]);
       }
 
-      // 8. Check for Token Account Attacks
-      const tokenCheck = await this.checkTokenAccountAttacks(tx);
-      if (!tokenCheck.isValid) {
-        return tokenCheck;
+      // Resolve address lookup tables so every check sees the full account list
+      let instructions: TransactionInstruction[];
+      try {
+        instructions = (await resolveTransaction(tx)).instructions;
+      } catch (error) {
+        console.error("Error resolving address lookup tables:", error);
+        return this.summarize([this.structureFinding("Could not resolve address lookup tables")]);
       }
 
-      return { isValid: true, severity: 'low' };
-    } catch (error) {
-      console.error("Error in transaction validation:", error);
-      return { 
-        isValid: false, 
-        reason: "Error during validation", 
-        severity: 'high' 
-      };
-    }
-  }
+      const findings: SecurityFinding[] = [];
+      for (const rule of SECURITY_RULES) {
+        const config = this.getRuleConfig(rule);
+        if (!config.enabled) continue;
 
-  private checkComputeBudget(tx: Transaction): { isValid: boolean; reason?: string; severity: 'low' | 'medium' | 'high' } {
-    for (const ix of tx.instructions) {
-      if (ix.programId.equals(ComputeBudgetProgram.programId)) {
         try {
-          const dataView = Buffer.from(ix.data);
-          if (dataView.length >= 5) {
-            const units = dataView.readUInt32LE(1);
-            if (units > this.MAX_COMPUTE_UNITS) {
-              return {
-                isValid: false,
-                reason: `Excessive compute units: ${units} > ${this.MAX_COMPUTE_UNITS}`,
-                severity: 'high'
-              };
-            }
-          }
+          const ruleFindings = await rule.check({ tx, instructions, txCounts: this.txCounts }, config);
+          findings.push(...ruleFindings.map(finding => this.toFinding(rule, config, finding)));
         } catch (error) {
-          console.error("Error parsing compute budget instruction:", error);
+          console.error(`Security rule ${rule.id} failed:`, error);
+          findings.push(this.toFinding(rule, config, { message: `Rule ${rule.id} could not run` }));
         }
       }
-    }
-    return { isValid: true, severity: 'low' };
-  }
 
-  private checkAccountEnumeration(tx: Transaction): { isValid: boolean; reason?: string; severity: 'low' | 'medium' | 'high' } {
-    const uniqueAccounts = new Set<string>();
-    
-    for (const ix of tx.instructions) {
-      for (const key of ix.keys) {
-        uniqueAccounts.add(key.pubkey.toString());
+      if (findings.length > 0) {
+        console.log(`Security policy ${this.policy.id} findings:`, findings);
       }
+      return this.summarize(findings);
+    } catch (error) {
+      console.error("Error in transaction validation:", error);
+      return this.summarize([this.structureFinding("Error during validation")]);
     }
+  }
 
-    if (uniqueAccounts.size > this.MAX_ACCOUNTS_PER_TX) {
-      return {
-        isValid: false,
-        reason: `Too many unique accounts: ${uniqueAccounts.size} > ${this.MAX_ACCOUNTS_PER_TX}`,
-        severity: 'medium'
-      };
-    }
+  // Counts submitted transactions towards the rate-limit rule; simulations and re-checks don't count
+  public recordSubmitted(transactions: BundleTransaction[]) {
+    const rateLimit = SECURITY_RULES.find(rule => rule.id === 'rate-limit');
+    const windowMs = rateLimit ? this.getRuleConfig(rateLimit).thresholds.windowMs ?? 60_000 : 60_000;
+    const now = Date.now();
 
-    return { isValid: true, severity: 'low' };
-  }
+    for (const tx of transactions) {
+      const feePayer = getFeePayer(tx)?.toString();
+      if (!feePayer) continue;
 
-  private checkProgramInvocations(tx: Transaction): { isValid: boolean; reason?: string; severity: 'low' | 'medium' | 'high' } {
-    for (const ix of tx.instructions) {
-      if (this.SUSPICIOUS_PROGRAMS.has(ix.programId.toString())) {
-        return {
-          isValid: false,
-          reason: `Suspicious program invocation detected: ${ix.programId.toString()}`,
-          severity: 'high'
-        };
+      const counted = this.txCounts.get(feePayer);
+      if (!counted || now - counted.timestamp > windowMs) {
+        // Start a new window
+        this.txCounts.set(feePayer, { count: 1, timestamp: now });
+      } else {
+        counted.count++;
       }
     }
-    return { isValid: true, severity: 'low' };
   }
 
-  private checkFeeManipulation(tx: Transaction): { isValid: boolean; reason?: string; severity: 'low' | 'medium' | 'high' } {
-    // Check for multiple fee payer instructions
-    let feePayerCount = 0;
-    for (const ix of tx.instructions) {
-      if (ix.programId.equals(SystemProgram.programId)) {
-        const dataView = Buffer.from(ix.data);
-        if (dataView.length >= 4) {
-          const instructionType = dataView.readUInt32LE(0);
-          if (instructionType === 2) { // Transfer instruction
-            feePayerCount++;
-          }
-        }
-      }
+  private readKnownRecipients(): Record<string, string[]> {
+    try {
+      const stored = localStorage.getItem(RECIPIENTS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error("Error reading known recipients:", error);
+      return {};
     }
+  }
 
-    if (feePayerCount > 1) {
-      return {
-        isValid: false,
-        reason: "Multiple fee payer instructions detected",
-        severity: 'medium'
-      };
+  private rememberRecipients(wallet: string, addresses: string[]) {
+    const known = this.readKnownRecipients();
+    known[wallet] = [...new Set([...(known[wallet] ?? []), ...addresses])];
+    try {
+      localStorage.setItem(RECIPIENTS_STORAGE_KEY, JSON.stringify(known));
+    } catch (error) {
+      console.error("Error storing known recipients:", error);
     }
-
-    return { isValid: true, severity: 'low' };
   }
 
-  private checkRateLimit(tx: Transaction): { isValid: boolean; reason?: string; severity: 'low' | 'medium' | 'high' } {
-    const feePayer = tx.feePayer?.toString();
-    if (!feePayer) {
-      return { isValid: false, reason: "Missing fee payer", severity: 'high' };
-    }
+  /**
+   * Runs the bundle-wide rules on the simulated results of the transactions the
+   * user added, in bundle order. Recipients of a bundle that passes are
+   * remembered, so only new ones are reported next time.
+   */
+  public async validateBundle(wallet: string, results: (SimulationResult | undefined)[]): Promise<SecurityReport> {
+    const outflow = summarizeWalletOutflow(wallet, results.map(result => result?.accountDiffs ?? []));
+    const knownRecipients = new Set(this.readKnownRecipients()[wallet] ?? []);
+    console.log("Wallet outflow across bundle:", outflow);
 
-    const now = Date.now();
-    const userTxData = this.txCounts.get(feePayer);
+    const findings: SecurityFinding[] = [];
+    for (const rule of BUNDLE_SECURITY_RULES) {
+      const config = this.getRuleConfig(rule);
+      if (!config.enabled) continue;
 
-    if (userTxData) {
-      if (now - userTxData.timestamp > this.RATE_LIMIT_WINDOW) {
-        // Reset counter if window has passed
-        this.txCounts.set(feePayer, { count: 1, timestamp: now });
-      } else if (userTxData.count >= this.MAX_TXS_PER_WINDOW) {
-        return {
-          isValid: false,
-          reason: "Rate limit exceeded",
-          severity: 'medium'
-        };
-      } else {
-        userTxData.count++;
-        this.txCounts.set(feePayer, userTxData);
+      try {
+        const ruleFindings = await rule.check({ wallet, results, outflow, knownRecipients }, config);
+        findings.push(...ruleFindings.map(finding => this.toFinding(rule, config, finding)));
+      } catch (error) {
+        console.error(`Security rule ${rule.id} failed:`, error);
+        findings.push(this.toFinding(rule, config, { message: `Rule ${rule.id} could not run` }));
       }
-    } else {
-      this.txCounts.set(feePayer, { count: 1, timestamp: now });
     }
 
-    return { isValid: true, severity: 'low' };
-  }
-
-  private async checkTokenAccountAttacks(tx: Transaction): Promise<{ isValid: boolean; reason?: string; severity: 'low' | 'medium' | 'high' }> {
-    for (const ix of tx.instructions) {
-      // Check for token program instructions
-      if (ix.programId.toString() === "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA") {
-        try {
-          const dataView = Buffer.from(ix.data);
-          if (dataView.length >= 1) {
-            const instructionType = dataView[0];
-            
-            // Check for suspicious token operations
-            if (instructionType === 7) { // Transfer instruction
-              // Verify token account ownership
-              const tokenAccount = ix.keys[0].pubkey;
-              const accountInfo = await connection.getAccountInfo(tokenAccount);
-              
-              if (!accountInfo) {
-                return {
-                  isValid: false,
-                  reason: "Invalid token account",
-                  severity: 'high'
-                };
-              }
-            }
-          }
-        } catch (error) {
-          console.error("Error checking token account:", error);
-        }
-      }
+    if (findings.length > 0) {
+      console.log(`Security policy ${this.policy.id} bundle findings:`, findings);
     }
-    return { isValid: true, severity: 'low' };
+    const report = this.summarize(findings);
+    if (report.isValid) {
+      this.rememberRecipients(wallet, outflow.recipients.map(recipient => recipient.address));
+    }
+    return report;
   }
-} 
\ No newline at end of file
+}
+
+export const securityService = new SecurityService();
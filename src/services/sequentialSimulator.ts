@@ -0,0 +1,258 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from "@solana/web3.js";
+import { connection } from "@/lib/solana";
+import { SimulatedAccount, SimulationResult } from "@/types/simulation";
+import { diffAccounts, fromAccountInfo, fromSimulatedAccountInfo } from "@/utils/accountDiff";
+import { BundleTransaction } from "@/types/transaction";
+import {
+  getAccountKeys,
+  getFeePayer,
+  getInstructions,
+  getRecentBlockhash,
+  getRequiredSignatures,
+  getWritableAccounts,
+  resolveLookupTables,
+  toVersionedTransaction
+} from "@/utils/transactionUtils";
+import { decodeInstruction, getNumericParam } from "@/utils/instructionDecoder";
+
+const LAMPORTS_PER_SIGNATURE = 5_000;
+const DEFAULT_UNITS_PER_INSTRUCTION = 200_000;
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+// A simulated step, kept so later steps can be replayed on top of it
+interface Step {
+  tx: BundleTransaction;
+  lookupTables: AddressLookupTableAccount[];
+  // Instructions without compute budget ones, which may appear once per transaction
+  instructions: TransactionInstruction[];
+  feePayer: string;
+  fee: number;
+  computeUnitLimit: number;
+  // Every account the transaction loads, read-only ones included
+  accounts: Set<string>;
+  written: Set<string>;
+  // Earlier steps this one was replayed after, in bundle order
+  dependsOn: number[];
+  unitsConsumed: number;
+}
+
+const isComputeBudget = (ix: TransactionInstruction) => ix.programId.equals(ComputeBudgetProgram.programId);
+
+// Compute unit limit and fee the transaction would pay, as the runtime derives them
+const getFeeSchedule = (instructions: TransactionInstruction[], signatures: number) => {
+  let limit: number | null = null;
+  let microLamports = BigInt(0);
+  for (const ix of instructions.filter(isComputeBudget)) {
+    const decoded = decodeInstruction(ix);
+    if (decoded.type === 'SetComputeUnitLimit') {
+      limit = Number(getNumericParam(decoded, 'units') ?? 0);
+    } else if (decoded.type === 'SetComputeUnitPrice') {
+      microLamports = getNumericParam(decoded, 'microLamports') ?? BigInt(0);
+    }
+  }
+  const computeUnitLimit = Math.min(
+    limit ?? DEFAULT_UNITS_PER_INSTRUCTION * instructions.filter(ix => !isComputeBudget(ix)).length,
+    MAX_COMPUTE_UNITS
+  );
+  const priorityFee = (microLamports * BigInt(computeUnitLimit) + BigInt(999_999)) / BigInt(1_000_000);
+  return { computeUnitLimit, fee: signatures * LAMPORTS_PER_SIGNATURE + Number(priorityFee) };
+};
+
+// Logs of the top-level instructions after the first `skipped` ones
+const skipInstructionLogs = (logs: string[], skipped: number): string[] => {
+  const starts = logs.flatMap((line, index) => / invoke \[1\]$/.test(line) ? [index] : []);
+  return skipped < starts.length ? logs.slice(starts[skipped]) : [];
+};
+
+/**
+ * Local fallback for bundles when no simulateBundle endpoint is reachable.
+ *
+ * simulateTransaction only runs against chain state, so a transaction that
+ * depends on an earlier one (it loads an account the earlier one wrote) is
+ * simulated as a single transaction holding the instructions of the steps it
+ * depends on followed by its own. Its diffs are taken against the state those
+ * steps left behind, with fees and compute units charged as if each
+ * transaction had run on its own. Independent transactions run as they are.
+ */
+export class SequentialBundleSimulator {
+  private connection: typeof connection;
+
+  constructor() {
+    this.connection = connection;
+  }
+
+  // Chain state of the accounts and the slot it was read at
+  private async loadPreState(addresses: string[]): Promise<{ accounts: SimulatedAccount[]; slot: number }> {
+    const { context, value } = await this.connection.getMultipleAccountsInfoAndContext(
+      addresses.map(address => new PublicKey(address)),
+      'confirmed'
+    );
+    return {
+      accounts: addresses.map((address, index) => fromAccountInfo(address, value[index])),
+      slot: context.slot
+    };
+  }
+
+  private async toStep(tx: BundleTransaction, earlier: Step[]): Promise<Step> {
+    const lookupTables = await resolveLookupTables(tx);
+    const allInstructions = getInstructions(tx, lookupTables);
+    const accounts = new Set(getAccountKeys(tx, lookupTables).map(key => key.toBase58()));
+
+    // Steps that wrote an account this one loads, and whatever those were replayed after
+    const dependsOn = new Set<number>();
+    earlier.forEach((step, index) => {
+      if ([...step.written].some(address => accounts.has(address))) {
+        step.dependsOn.forEach(dependency => dependsOn.add(dependency));
+        dependsOn.add(index);
+      }
+    });
+
+    return {
+      tx,
+      lookupTables,
+      instructions: allInstructions.filter(ix => !isComputeBudget(ix)),
+      feePayer: getFeePayer(tx)?.toBase58() ?? '',
+      ...getFeeSchedule(allInstructions, getRequiredSignatures(tx)),
+      accounts,
+      written: new Set(),
+      dependsOn: [...dependsOn].sort((a, b) => a - b),
+      unitsConsumed: 0
+    };
+  }
+
+  // One transaction running the dependencies' instructions, then the step's own
+  private replayAfter(step: Step, dependencies: Step[]): VersionedTransaction {
+    const lookupTables = [...dependencies, step]
+      .flatMap(dependency => dependency.lookupTables)
+      .filter((table, index, tables) => tables.findIndex(other => other.key.equals(table.key)) === index);
+    const message = new TransactionMessage({
+      payerKey: new PublicKey(step.feePayer),
+      recentBlockhash: getRecentBlockhash(step.tx) ?? PublicKey.default.toBase58(),
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+        ...dependencies.flatMap(dependency => dependency.instructions),
+        ...step.instructions
+      ]
+    }).compileToV0Message(lookupTables);
+
+    const replay = new VersionedTransaction(message);
+    let size: number;
+    try {
+      size = replay.serialize().length;
+    } catch {
+      size = Infinity;
+    }
+    if (size > PACKET_DATA_SIZE) {
+      throw new Error("Too large to simulate after the transactions it depends on, use bundle simulation instead");
+    }
+    return replay;
+  }
+
+  async simulate(transactions: BundleTransaction[]): Promise<SimulationResult[]> {
+    const steps: Step[] = [];
+    // Latest simulated state of every account an earlier step wrote
+    const carried = new Map<string, SimulatedAccount>();
+    const results: SimulationResult[] = [];
+    let bundleFailed = false;
+
+    for (const [index, tx] of transactions.entries()) {
+      // A bundle is all-or-nothing, nothing after a failed step would execute
+      if (bundleFailed) {
+        results.push({
+          success: false,
+          message: "Not executed: an earlier transaction in the bundle failed"
+        });
+        continue;
+      }
+
+      const step = await this.toStep(tx, steps);
+      steps.push(step);
+      const dependencies = step.dependsOn.map(dependency => steps[dependency]);
+      const addresses = getWritableAccounts(tx, step.lookupTables);
+
+      let simulated: VersionedTransaction;
+      try {
+        simulated = dependencies.length > 0 ? this.replayAfter(step, dependencies) : toVersionedTransaction(tx);
+      } catch (error) {
+        bundleFailed = true;
+        results.push({ success: false, message: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+
+      const { accounts: chainAccounts, slot } = await this.loadPreState(addresses);
+      const preExecutionAccounts = chainAccounts.map(account => carried.get(account.address) ?? account);
+
+      // Simulating at or after the slot the pre-state was read at keeps both on the same base
+      const simulation = await this.connection.simulateTransaction(simulated, {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        commitment: 'confirmed',
+        minContextSlot: slot,
+        accounts: { addresses, encoding: 'base64' }
+      });
+
+      // The replay charged one fee to this step's payer, charge each transaction its own instead
+      const feeAdjustments = new Map<string, number>();
+      if (dependencies.length > 0) {
+        const replayFee = getRequiredSignatures(simulated) * LAMPORTS_PER_SIGNATURE;
+        feeAdjustments.set(step.feePayer, replayFee);
+        for (const charged of [...dependencies, step]) {
+          feeAdjustments.set(charged.feePayer, (feeAdjustments.get(charged.feePayer) ?? 0) - charged.fee);
+        }
+      }
+      const postExecutionAccounts = addresses.map((address, accountIndex) => {
+        const account = fromSimulatedAccountInfo(address, simulation.value.accounts?.[accountIndex]);
+        const adjustment = feeAdjustments.get(address) ?? 0;
+        return adjustment === 0 ? account : { ...account, lamports: account.lamports + adjustment };
+      });
+      const accountDiffs = diffAccounts(preExecutionAccounts, postExecutionAccounts);
+
+      step.unitsConsumed = Math.max(0, (simulation.value.unitsConsumed ?? 0) -
+        dependencies.reduce((total, dependency) => total + dependency.unitsConsumed, 0));
+      const logs = dependencies.length > 0
+        ? skipInstructionLogs(simulation.value.logs ?? [], 1 + dependencies.reduce((total, dependency) => total + dependency.instructions.length, 0))
+        : simulation.value.logs ?? [];
+
+      let message: string | undefined;
+      if (simulation.value.err !== null) {
+        message = JSON.stringify(simulation.value.err);
+      } else if (step.unitsConsumed > step.computeUnitLimit) {
+        message = `Consumed ${step.unitsConsumed} compute units, the transaction's limit is ${step.computeUnitLimit}`;
+      }
+
+      const success = message === undefined;
+      if (success) {
+        postExecutionAccounts.forEach(account => carried.set(account.address, account));
+        accountDiffs.forEach(diff => step.written.add(diff.address));
+      } else {
+        bundleFailed = true;
+      }
+
+      console.log(`Sequential simulation step ${index + 1}/${transactions.length}:`, {
+        success,
+        dependsOn: step.dependsOn
+      });
+
+      results.push({
+        success,
+        message,
+        logs,
+        unitsConsumed: step.unitsConsumed,
+        preExecutionAccounts,
+        postExecutionAccounts,
+        accountDiffs,
+        dependsOn: step.dependsOn
+      });
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,77 @@
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { z } from "zod";
+import { env } from "@/config/env";
+import { TIP_FLOOR_CACHE_MS, TIP_FLOOR_URL } from "@/config/jito";
+import { TipFloor } from "@/types/jito";
+
+// Minimal GET client, swapped for a stub when running against a local mock
+export type HttpGet = (url: string) => Promise<unknown>;
+
+const REQUEST_TIMEOUT = 10_000;
+
+const fetchJson: HttpGet = async (url) => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`HTTP error: ${response.status}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+// The endpoint answers with a one element array, tip levels in SOL
+const tipFloorSchema = z.array(z.object({
+  time: z.string(),
+  landed_tips_25th_percentile: z.number(),
+  landed_tips_50th_percentile: z.number(),
+  landed_tips_75th_percentile: z.number(),
+  landed_tips_95th_percentile: z.number(),
+  landed_tips_99th_percentile: z.number(),
+  ema_landed_tips_50th_percentile: z.number(),
+})).min(1);
+
+const toLamports = (sol: number) => Math.round(sol * LAMPORTS_PER_SOL);
+
+export class TipFloorService {
+  private cached: TipFloor | null = null;
+
+  constructor(
+    private readonly httpGet: HttpGet = fetchJson,
+    private readonly url: string = env.JITO_TIP_FLOOR_URL || TIP_FLOOR_URL
+  ) {}
+
+  // Latest tip floor, served from cache while it is fresh unless a refresh is forced
+  async getTipFloor(refresh: boolean = false): Promise<TipFloor> {
+    if (!refresh && this.cached && Date.now() - this.cached.fetchedAt < TIP_FLOOR_CACHE_MS) {
+      return this.cached;
+    }
+
+    const parsed = tipFloorSchema.safeParse(await this.httpGet(this.url));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Unexpected tip floor response: ${issue.path.join('.') || 'root'} ${issue.message}`);
+    }
+
+    const [latest] = parsed.data;
+    this.cached = {
+      time: latest.time,
+      percentiles: {
+        25: toLamports(latest.landed_tips_25th_percentile),
+        50: toLamports(latest.landed_tips_50th_percentile),
+        75: toLamports(latest.landed_tips_75th_percentile),
+        95: toLamports(latest.landed_tips_95th_percentile),
+        99: toLamports(latest.landed_tips_99th_percentile),
+      },
+      emaMedian: toLamports(latest.ema_landed_tips_50th_percentile),
+      fetchedAt: Date.now()
+    };
+    console.log('Tip floor updated:', this.cached);
+    return this.cached;
+  }
+}
+
+export const tipFloorService = new TipFloorService();
@@ -0,0 +1,87 @@
+// Anchor IDL shapes. Both the legacy format (Anchor < 0.30, `isMut`/`isSigner`,
+// `publicKey`, `defined: "Name"`) and the current spec (`writable`/`signer`,
+// `pubkey`, `defined: { name }`, explicit discriminators) are accepted.
+
+export type IdlPrimitiveType =
+  | 'bool'
+  | 'u8' | 'i8' | 'u16' | 'i16' | 'u32' | 'i32' | 'f32'
+  | 'u64' | 'i64' | 'f64' | 'u128' | 'i128'
+  | 'bytes' | 'string' | 'pubkey' | 'publicKey';
+
+export type IdlType =
+  | IdlPrimitiveType
+  | { vec: IdlType }
+  | { option: IdlType }
+  | { coption: IdlType }
+  | { array: [IdlType, number] }
+  | { defined: string | { name: string } };
+
+export interface IdlField {
+  name: string;
+  type: IdlType;
+}
+
+export interface IdlInstructionAccount {
+  name: string;
+  writable?: boolean;
+  signer?: boolean;
+  isMut?: boolean;
+  isSigner?: boolean;
+  optional?: boolean;
+  isOptional?: boolean;
+  address?: string;
+}
+
+export interface IdlInstructionAccountGroup {
+  name: string;
+  accounts: IdlInstructionAccountItem[];
+}
+
+export type IdlInstructionAccountItem = IdlInstructionAccount | IdlInstructionAccountGroup;
+
+export interface IdlInstruction {
+  name: string;
+  discriminator?: number[];
+  accounts: IdlInstructionAccountItem[];
+  args: IdlField[];
+}
+
+export interface IdlEnumVariant {
+  name: string;
+  fields?: (IdlField | IdlType)[];
+}
+
+export type IdlTypeDefBody =
+  | { kind: 'struct'; fields?: (IdlField | IdlType)[] }
+  | { kind: 'enum'; variants: IdlEnumVariant[] }
+  | { kind: 'type'; alias: IdlType };
+
+export interface IdlTypeDef {
+  name: string;
+  type: IdlTypeDefBody;
+}
+
+export interface AnchorIdl {
+  address?: string;
+  name?: string;
+  version?: string;
+  metadata?: { name?: string; version?: string; spec?: string };
+  instructions: IdlInstruction[];
+  accounts?: { name: string; discriminator?: number[]; type?: IdlTypeDefBody }[];
+  types?: IdlTypeDef[];
+}
+
+// IDL remembered for a program, either uploaded or read from its IDL account
+export interface StoredIdl {
+  programId: string;
+  idl: AnchorIdl;
+  source: 'upload' | 'onchain';
+  updatedAt: number;
+}
+
+export interface DecodedAnchorInstruction {
+  programId: string;
+  name: string;
+  args: Record<string, unknown>;
+  accounts: { name: string; pubkey: string }[];
+}
@@ -0,0 +1,43 @@
+// Field types the instruction builder can encode, little-endian like Borsh
+export type DataFieldType = 'u8' | 'u16' | 'u32' | 'u64' | 'i64' | 'bool' | 'pubkey' | 'string' | 'utf8';
+
+export interface DataField {
+  type: DataFieldType;
+  value: string;
+  label?: string;
+}
+
+// 'anchor' encodes a named instruction from the program's IDL
+export type InstructionDataMode = 'hex' | 'base58' | 'fields' | 'anchor';
+
+export interface AccountMetaDraft {
+  pubkey: string;
+  isSigner: boolean;
+  isWritable: boolean;
+  label?: string;
+}
+
+// Instruction as edited in the builder, before it's validated and encoded
+export interface InstructionDraft {
+  programId: string;
+  accounts: AccountMetaDraft[];
+  dataMode: InstructionDataMode;
+  rawData: string;
+  fields: DataField[];
+  anchorInstruction?: string;
+  anchorArgs?: Record<string, string>;
+}
+
+export type DecodedParamValue = string | number | boolean | null;
+
+// Human readable view of a compiled instruction, see utils/instructionDecoder
+export interface DecodedInstruction {
+  programId: string;
+  programName: string;
+  // Instruction variant, e.g. "Transfer" or "SetComputeUnitLimit"; "Unknown" if not recognized
+  type: string;
+  known: boolean;
+  params: Record<string, DecodedParamValue>;
+  accounts: { pubkey: string; name?: string; isSigner: boolean; isWritable: boolean }[];
+  data: string; // hex encoded raw data
+}
@@ -0,0 +1,66 @@
+// Entry returned by the block engine's getBundleStatuses
+export interface BundleStatus {
+  bundle_id: string;
+  transactions: string[];
+  slot: number;
+  confirmation_status: 'processed' | 'confirmed' | 'finalized';
+  err: { Ok: null } | Record<string, unknown>;
+}
+
+// Entry returned by getInflightBundleStatuses, which only knows the last five minutes
+export interface InflightBundleStatus {
+  bundle_id: string;
+  status: 'Invalid' | 'Pending' | 'Failed' | 'Landed';
+  landed_slot: number | null;
+}
+
+export type TrackedBundleStatus = InflightBundleStatus['status'];
+
+// A submitted bundle and the last outcome the block engine reported for it
+export interface TrackedBundle {
+  bundleId: string;
+  status: TrackedBundleStatus;
+  submittedAt: number;
+  updatedAt: number;
+  slot?: number;
+  confirmationStatus?: BundleStatus['confirmation_status'];
+  // Signatures as submitted, replaced by the landed ones once known
+  transactions: string[];
+  error?: string;
+}
+
+export type TipPercentile = 25 | 50 | 75 | 95 | 99;
+
+// Recent landed tip levels from the block engine's tip floor, in lamports
+export interface TipFloor {
+  time: string;
+  percentiles: Record<TipPercentile, number>;
+  // Exponential moving average of the median
+  emaMedian: number;
+  fetchedAt: number;
+}
+
+export interface BlockEngineRegion {
+  id: string;
+  name: string;
+  // Base URL, the JSON-RPC API lives under /api/v1
+  url: string;
+}
+
+export interface BlockEngineSettings {
+  // 'fastest' orders regions by probed latency, 'pinned' always starts with regionId
+  mode: 'fastest' | 'pinned';
+  regionId: string;
+  // Used by the 'custom' region
+  customUrl: string;
+  // Move on to the next region when one errors or rate-limits
+  failover: boolean;
+}
+
+export interface RegionLatency {
+  regionId: string;
+  // null when the probe failed
+  latencyMs: number | null;
+  error?: string;
+  measuredAt: number;
+}
@@ -8,8 +8,10 @@ export interface AccountState {
   data: Buffer;
 }
 
+// `owner` is the token program, `tokenOwner` the wallet that controls the account
 export interface TokenAccountState extends AccountState {
   mint: PublicKey;
+  tokenOwner: PublicKey;
   amount: bigint;
   delegate: PublicKey | null;
   delegatedAmount: bigint;
@@ -38,7 +40,55 @@ export interface LighthouseAssertion {
   accountPubkey: PublicKey;
   expectedBalance?: number;
   expectedOwner?: PublicKey;
-  expectedDelegate?: PublicKey;
-  expectedDataHash?: string;
+  // Token accounts only; null pins the account to having no delegate
+  expectedDelegate?: PublicKey | null;
+  expectedDataLength?: number;
+  expectedDataHash?: string; // hex keccak256 of the first expectedDataLength bytes
+  expectedTokenAmount?: bigint;
+  expectedTokenOwner?: PublicKey;
+  // Percentage the balance and token amount may drift from the expected value
+  balanceTolerance?: number;
   type: AccountType;
 }
+
+export type AssertionField =
+  | 'lamports'
+  | 'dataLength'
+  | 'owner'
+  | 'dataHash'
+  | 'tokenAmount'
+  | 'tokenOwner'
+  | 'tokenDelegate';
+
+// 'within' allows `tolerance` percent either side of the value
+export type AssertionOperator = 'eq' | 'ne' | 'gt' | 'lt' | 'gte' | 'lte' | 'within';
+
+// One editable check on one account; auto-generated checks use `${account}:${field}` as id
+export interface AssertionCheck {
+  id: string;
+  source: 'auto' | 'custom';
+  account: string;
+  field: AssertionField;
+  operator: AssertionOperator;
+  value: string; // integer, base58 pubkey (empty delegate = none) or hex hash
+  tolerance?: number;
+  dataLength?: number; // bytes covered by a dataHash check
+}
+
+// Per-transaction edits layered over the auto-generated checks
+export interface AssertionOverrides {
+  // Edited auto checks (matched by id) and custom checks
+  checks: AssertionCheck[];
+  removed: string[];
+}
+
+// Where a transaction's assertions ended up in the bundle
+export type AssertionPlacement = 'inline' | 'separate' | 'none';
+
+export interface GuardrailOptions {
+  strategy?: AssertionStrategy;
+  // Editor changes keyed by transaction index
+  overrides?: Record<number, AssertionOverrides>;
+  // Append assertions to the guarded transaction when size and compute allow
+  inlineAssertions?: boolean;
+}
@@ -0,0 +1,73 @@
+export type SecuritySeverity = 'low' | 'medium' | 'high';
+
+export type SecurityRuleId =
+  | 'blockhash-age'
+  | 'compute-budget'
+  | 'account-count'
+  | 'instruction-count'
+  | 'program-invocations'
+  | 'fee-manipulation'
+  | 'rate-limit'
+  | 'token-accounts'
+  | 'token-delegation'
+  | 'wallet-outflow';
+
+export interface SecurityRuleConfig {
+  enabled: boolean;
+  severity: SecuritySeverity;
+  // Numeric limits, keyed by the names each rule documents
+  thresholds: Record<string, number>;
+  // Program ids the rule matches against, for rules that take a list
+  programs: string[];
+  // How programs missing from the registry are treated by rules that look at invocations
+  unknownPrograms?: 'deny' | 'warn';
+  // Addresses the rule trusts, e.g. token delegates and rent recipients
+  allowlist?: string[];
+}
+
+export interface SecurityPolicy {
+  id: string;
+  name: string;
+  description?: string;
+  // Findings at or above this severity make the transaction invalid
+  failOn: SecuritySeverity;
+  // Rules left out of the policy run with their defaults
+  rules: Partial<Record<SecurityRuleId, Partial<SecurityRuleConfig>>>;
+}
+
+export interface SecurityFinding {
+  ruleId: SecurityRuleId | 'structure';
+  severity: SecuritySeverity;
+  message: string;
+  // Index into the transaction's instructions, when a single instruction caused it
+  instructionIndex?: number;
+  // Index of the transaction in the bundle, for findings from bundle-wide rules
+  transactionIndex?: number;
+  accounts: string[];
+  remediation?: string;
+  // Whether the finding alone makes the transaction invalid under the active policy
+  blocking: boolean;
+}
+
+export interface SecurityReport {
+  isValid: boolean;
+  // First blocking finding, kept for callers that only show one message
+  reason?: string;
+  // Highest severity among all findings
+  severity: SecuritySeverity;
+  findings: SecurityFinding[];
+  policyId: string;
+}
+
+export type ProgramStatus = 'allow' | 'deny';
+
+export interface ProgramEntry {
+  programId: string;
+  name: string;
+  status: ProgramStatus;
+  // How much damage a call to the program can do when misused
+  risk: SecuritySeverity;
+  labels: string[];
+  // Shipped with the app; user edits to these are stored as overrides
+  builtIn: boolean;
+}
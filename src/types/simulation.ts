@@ -0,0 +1,113 @@
+import { AccountType, AssertionCheck, AssertionPlacement } from "./lighthouse";
+import { SecurityReport } from "./security";
+
+// Account snapshot captured during simulation (pre or post execution)
+export interface SimulatedAccount {
+  address: string;
+  lamports: number;
+  owner: string;
+  data: string; // base64 encoded account data
+  executable: boolean;
+  rentEpoch?: number;
+}
+
+export interface TokenBalanceDiff {
+  mint: string;
+  ownerBefore: string;
+  ownerAfter: string;
+  amountBefore: bigint;
+  amountAfter: bigint;
+  amountDelta: bigint;
+  delegateBefore: string | null;
+  delegateAfter: string | null;
+  delegatedAmountBefore: bigint;
+  delegatedAmountAfter: bigint;
+}
+
+export interface AccountDiff {
+  address: string;
+  accountType: AccountType;
+  lamportsBefore: number;
+  lamportsAfter: number;
+  lamportsDelta: number;
+  ownerBefore: string;
+  ownerAfter: string;
+  dataLengthBefore: number;
+  dataLengthAfter: number;
+  // Set when the account is an SPL token account before or after execution
+  token?: TokenBalanceDiff;
+}
+
+// A check from a failed assertion instruction, compared against the last known account state
+export interface AssertionCheckOutcome {
+  check: AssertionCheck;
+  actual?: string;
+  passed?: boolean;
+}
+
+// Lighthouse error raised by one instruction, mapped back to the checks it encoded
+export interface AssertionFailure {
+  instructionIndex: number;
+  errorCode: number;
+  errorName: string;
+  account?: string;
+  // Set for failures that aren't about account state, e.g. an expired slot window
+  reason?: string;
+  checks: AssertionCheckOutcome[];
+  // Messages Lighthouse logged while the instruction ran
+  logs: string[];
+}
+
+export interface SimulationResult {
+  success: boolean;
+  message?: string;
+  logs?: string[];
+  unitsConsumed?: number;
+  preExecutionAccounts?: SimulatedAccount[];
+  postExecutionAccounts?: SimulatedAccount[];
+  accountDiffs?: AccountDiff[];
+  // Sequential simulation only: earlier transactions in the bundle whose instructions
+  // were replayed before this one, because it loads accounts they wrote
+  dependsOn?: number[];
+  assertionFailure?: AssertionFailure;
+  // Security policy findings for the transaction as the user added it
+  securityReport?: SecurityReport;
+  // Where the transaction's Lighthouse assertions went in the simulated bundle
+  assertionPlacement?: AssertionPlacement;
+}
+
+// What a transaction leaves behind when the whole bundle runs, after the transactions before it
+export interface BundlePostState {
+  transactionIndex: number;
+  // Writable accounts of the transaction, after it executed
+  accounts: SimulatedAccount[];
+  unitsConsumed?: number;
+}
+
+// 'auto' tries the bundle endpoint first and falls back to sequential simulation,
+// 'sequential' skips the bundle endpoint entirely
+export type SimulationStrategy = 'auto' | 'bundle' | 'sequential' | 'isolated';
+
+// Program log line inside an invocation, or a nested (CPI) invocation
+export type InvocationEntry =
+  | { kind: 'log'; text: string; isError: boolean }
+  | { kind: 'invoke'; node: ProgramInvocation };
+
+// One `Program X invoke [n]` ... `Program X success|failed` span of the logs
+export interface ProgramInvocation {
+  programId: string;
+  depth: number;
+  status: 'success' | 'failed' | 'incomplete';
+  error?: string;
+  unitsConsumed?: number;
+  unitsBudget?: number;
+  entries: InvocationEntry[];
+}
+
+export interface ParsedSimulationLogs {
+  invocations: ProgramInvocation[];
+  // Lines that appeared outside any invocation
+  orphanLogs: string[];
+  errors: string[];
+  truncated: boolean;
+}
@@ -0,0 +1,14 @@
+import { AddressLookupTableAccount, PublicKey, Transaction, TransactionInstruction, VersionedTransaction } from "@solana/web3.js";
+
+// Any transaction the bundle can hold: legacy or versioned (v0 with lookup tables)
+export type BundleTransaction = Transaction | VersionedTransaction;
+
+// Transaction with its address lookup tables resolved
+export interface ResolvedTransaction {
+  version: 'legacy' | 0;
+  instructions: TransactionInstruction[];
+  accountKeys: PublicKey[];
+  writableAccounts: PublicKey[];
+  lookupTables: AddressLookupTableAccount[];
+  lookupTableKeyCount: number;
+}
@@ -0,0 +1,250 @@
+import { AccountInfo, PublicKey, SystemProgram } from "@solana/web3.js";
+import { ACCOUNT_SIZE, AccountLayout, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { Buffer } from 'buffer';
+import { AccountDiff, SimulatedAccount, TokenBalanceDiff } from "@/types/simulation";
+import { AccountState, AccountType, TokenAccountState } from "@/types/lighthouse";
+
+// Token-2022 stores the account type right after the base layout (1 = mint, 2 = account)
+const TOKEN_2022_ACCOUNT_TYPE = 2;
+
+// Placeholder for accounts that don't exist on chain yet
+export const emptyAccount = (address: string): SimulatedAccount => ({
+  address,
+  lamports: 0,
+  owner: SystemProgram.programId.toBase58(),
+  data: '',
+  executable: false
+});
+
+export const fromAccountInfo = (address: string, info: AccountInfo<Buffer> | null): SimulatedAccount => {
+  if (!info) return emptyAccount(address);
+
+  return {
+    address,
+    lamports: info.lamports,
+    owner: info.owner.toBase58(),
+    data: Buffer.from(info.data).toString('base64'),
+    executable: info.executable,
+    rentEpoch: info.rentEpoch
+  };
+};
+
+// Convert an account returned by simulateTransaction / simulateBundle (base64 data)
+export const fromSimulatedAccountInfo = (
+  address: string,
+  account: { lamports: number; owner: string; data: string[]; executable: boolean; rentEpoch?: number } | null | undefined
+): SimulatedAccount => {
+  if (!account) return emptyAccount(address);
+
+  return {
+    address,
+    lamports: account.lamports,
+    owner: account.owner,
+    data: account.data?.[0] ?? '',
+    executable: account.executable,
+    rentEpoch: account.rentEpoch
+  };
+};
+
+const dataLength = (account: SimulatedAccount): number =>
+  account.data ? Buffer.from(account.data, 'base64').length : 0;
+
+const isTokenProgram = (owner: string): boolean =>
+  owner === TOKEN_PROGRAM_ID.toBase58() || owner === TOKEN_2022_PROGRAM_ID.toBase58();
+
+export const isTokenAccountState = (state: AccountState): state is TokenAccountState =>
+  'mint' in state;
+
+// Decode a captured account, SPL token accounts (both token programs) get their token fields
+export const toAccountState = (account: SimulatedAccount): AccountState | TokenAccountState => {
+  const data = Buffer.from(account.data ?? '', 'base64');
+  const state: AccountState = {
+    pubkey: new PublicKey(account.address),
+    balance: account.lamports,
+    owner: new PublicKey(account.owner),
+    data
+  };
+
+  const isTokenAccount = isTokenProgram(account.owner) && (
+    data.length === ACCOUNT_SIZE ||
+    (data.length > ACCOUNT_SIZE && data[ACCOUNT_SIZE] === TOKEN_2022_ACCOUNT_TYPE)
+  );
+  if (!isTokenAccount) return state;
+
+  const raw = AccountLayout.decode(data.subarray(0, ACCOUNT_SIZE));
+  return {
+    ...state,
+    mint: raw.mint,
+    tokenOwner: raw.owner,
+    amount: raw.amount,
+    delegate: raw.delegateOption ? raw.delegate : null,
+    delegatedAmount: raw.delegatedAmount
+  };
+};
+
+export const getAccountType = (state: AccountState): AccountType => {
+  if (isTokenAccountState(state)) return 'token';
+  return state.owner.equals(SystemProgram.programId) ? 'system' : 'unknown';
+};
+
+// A token account that was created or closed is compared against an empty balance
+const diffTokenAccounts = (
+  before: AccountState,
+  after: AccountState
+): TokenBalanceDiff | undefined => {
+  const tokenBefore = isTokenAccountState(before) ? before : null;
+  const tokenAfter = isTokenAccountState(after) ? after : null;
+  const reference = tokenAfter ?? tokenBefore;
+  if (!reference) return undefined;
+
+  const amountBefore = tokenBefore?.amount ?? BigInt(0);
+  const amountAfter = tokenAfter?.amount ?? BigInt(0);
+
+  return {
+    mint: reference.mint.toBase58(),
+    ownerBefore: (tokenBefore ?? reference).tokenOwner.toBase58(),
+    ownerAfter: (tokenAfter ?? reference).tokenOwner.toBase58(),
+    amountBefore,
+    amountAfter,
+    amountDelta: amountAfter - amountBefore,
+    delegateBefore: tokenBefore?.delegate?.toBase58() ?? null,
+    delegateAfter: tokenAfter?.delegate?.toBase58() ?? null,
+    delegatedAmountBefore: tokenBefore?.delegatedAmount ?? BigInt(0),
+    delegatedAmountAfter: tokenAfter?.delegatedAmount ?? BigInt(0)
+  };
+};
+
+// Compare pre and post snapshots and keep only accounts that changed
+export const diffAccounts = (pre: SimulatedAccount[], post: SimulatedAccount[]): AccountDiff[] => {
+  const preByAddress = new Map(pre.map(account => [account.address, account]));
+
+  return post.flatMap(after => {
+    const before = preByAddress.get(after.address) ?? emptyAccount(after.address);
+    const stateBefore = toAccountState(before);
+    const stateAfter = toAccountState(after);
+    const diff: AccountDiff = {
+      address: after.address,
+      accountType: getAccountType(isTokenAccountState(stateBefore) ? stateBefore : stateAfter),
+      lamportsBefore: before.lamports,
+      lamportsAfter: after.lamports,
+      lamportsDelta: after.lamports - before.lamports,
+      ownerBefore: before.owner,
+      ownerAfter: after.owner,
+      dataLengthBefore: dataLength(before),
+      dataLengthAfter: dataLength(after),
+      token: diffTokenAccounts(stateBefore, stateAfter)
+    };
+
+    const changed = diff.lamportsDelta !== 0 ||
+      diff.ownerBefore !== diff.ownerAfter ||
+      diff.dataLengthBefore !== diff.dataLengthAfter ||
+      before.data !== after.data;
+
+    return changed ? [diff] : [];
+  });
+};
+
+export interface TokenBalanceChange {
+  mint: string;
+  owner: string;
+  delta: bigint;
+}
+
+// Net token movement per (mint, owner) across a set of diffs, zero sums are dropped
+export const summarizeTokenDeltas = (diffs: AccountDiff[]): TokenBalanceChange[] => {
+  const totals = new Map<string, TokenBalanceChange>();
+
+  for (const diff of diffs) {
+    if (!diff.token || diff.token.amountDelta === BigInt(0)) continue;
+    const key = `${diff.token.mint}:${diff.token.ownerAfter}`;
+    const entry = totals.get(key) ?? { mint: diff.token.mint, owner: diff.token.ownerAfter, delta: BigInt(0) };
+    entry.delta += diff.token.amountDelta;
+    totals.set(key, entry);
+  }
+
+  return [...totals.values()].filter(change => change.delta !== BigInt(0));
+};
+
+export interface OutflowRecipient {
+  address: string;
+  // First transaction of the bundle that paid the address
+  transactionIndex: number;
+  lamports: number;
+  mints: string[];
+}
+
+export interface TokenOutflow {
+  mint: string;
+  // Wallet balance of the mint before the bundle, across all its token accounts
+  balanceBefore: bigint;
+  outflow: bigint;
+}
+
+export interface WalletOutflow {
+  // Net SOL leaving the wallet, fees included; negative when the wallet gained
+  lamports: number;
+  tokens: TokenOutflow[];
+  recipients: OutflowRecipient[];
+}
+
+/**
+ * Net SOL and token movement out of a wallet across a bundle, from each
+ * transaction's diffs in execution order. Token accounts count towards the
+ * wallet while it owns them, so an owner change loses the whole balance.
+ * Recipients are the other system accounts and token owners that were paid in
+ * a transaction where the wallet lost SOL or that mint.
+ */
+export const summarizeWalletOutflow = (wallet: string, transactionDiffs: AccountDiff[][]): WalletOutflow => {
+  const systemProgram = SystemProgram.programId.toBase58();
+  let lamports = 0;
+  const tokens = new Map<string, TokenOutflow>();
+  const seenTokenAccounts = new Set<string>();
+  const recipients = new Map<string, OutflowRecipient>();
+
+  const addRecipient = (address: string, transactionIndex: number, paid: { lamports?: number; mint?: string }) => {
+    const recipient = recipients.get(address) ?? { address, transactionIndex, lamports: 0, mints: [] };
+    recipient.lamports += paid.lamports ?? 0;
+    if (paid.mint && !recipient.mints.includes(paid.mint)) recipient.mints.push(paid.mint);
+    recipients.set(address, recipient);
+  };
+
+  transactionDiffs.forEach((diffs, transactionIndex) => {
+    const walletDiff = diffs.find(diff => diff.address === wallet);
+    const walletLostSol = (walletDiff?.lamportsDelta ?? 0) < 0;
+    lamports -= walletDiff?.lamportsDelta ?? 0;
+
+    const lostMints = new Set<string>();
+    for (const diff of diffs) {
+      if (!diff.token) continue;
+      const walletBefore = diff.token.ownerBefore === wallet ? diff.token.amountBefore : BigInt(0);
+      const walletAfter = diff.token.ownerAfter === wallet ? diff.token.amountAfter : BigInt(0);
+      if (walletBefore === BigInt(0) && walletAfter === BigInt(0)) continue;
+
+      const entry = tokens.get(diff.token.mint) ?? { mint: diff.token.mint, balanceBefore: BigInt(0), outflow: BigInt(0) };
+      if (!seenTokenAccounts.has(diff.address)) {
+        seenTokenAccounts.add(diff.address);
+        entry.balanceBefore += walletBefore;
+      }
+      entry.outflow += walletBefore - walletAfter;
+      tokens.set(diff.token.mint, entry);
+      if (walletAfter < walletBefore) lostMints.add(diff.token.mint);
+    }
+
+    for (const diff of diffs) {
+      if (walletLostSol && diff.address !== wallet && diff.lamportsDelta > 0 && diff.ownerAfter === systemProgram) {
+        addRecipient(diff.address, transactionIndex, { lamports: diff.lamportsDelta });
+      }
+      // Taking over one of the wallet's token accounts counts as being paid its balance
+      const paidTokens = diff.token && (diff.token.amountDelta > BigInt(0) || diff.token.ownerBefore === wallet);
+      if (diff.token && paidTokens && diff.token.ownerAfter !== wallet && lostMints.has(diff.token.mint)) {
+        addRecipient(diff.token.ownerAfter, transactionIndex, { mint: diff.token.mint });
+      }
+    }
+  });
+
+  return {
+    lamports,
+    tokens: [...tokens.values()].filter(token => token.outflow > BigInt(0)),
+    recipients: [...recipients.values()]
+  };
+};
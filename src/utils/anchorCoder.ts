@@ -0,0 +1,436 @@
+import { PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { Buffer } from 'buffer';
+import { createHash } from 'crypto';
+import {
+  AnchorIdl,
+  DecodedAnchorInstruction,
+  IdlField,
+  IdlInstruction,
+  IdlInstructionAccountItem,
+  IdlType,
+  IdlTypeDef
+} from "@/types/idl";
+
+const INTEGER_BITS: Record<string, { bits: number; signed: boolean }> = {
+  u8: { bits: 8, signed: false },
+  i8: { bits: 8, signed: true },
+  u16: { bits: 16, signed: false },
+  i16: { bits: 16, signed: true },
+  u32: { bits: 32, signed: false },
+  i32: { bits: 32, signed: true },
+  u64: { bits: 64, signed: false },
+  i64: { bits: 64, signed: true },
+  u128: { bits: 128, signed: false },
+  i128: { bits: 128, signed: true },
+};
+
+export const toSnakeCase = (name: string): string =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase();
+
+// Legacy IDLs leave the discriminator implicit: sha256("global:<snake_case name>")[..8]
+export const getInstructionDiscriminator = (instruction: IdlInstruction): Buffer => {
+  if (instruction.discriminator) return Buffer.from(instruction.discriminator);
+  return createHash('sha256')
+    .update(`global:${toSnakeCase(instruction.name)}`)
+    .digest()
+    .subarray(0, 8);
+};
+
+export interface FlattenedIdlAccount {
+  name: string;
+  isSigner: boolean;
+  isWritable: boolean;
+  optional: boolean;
+  address?: string;
+}
+
+// Account groups (composite `Accounts` structs) are inlined in declaration order
+export const flattenIdlAccounts = (
+  items: IdlInstructionAccountItem[],
+  prefix = ''
+): FlattenedIdlAccount[] =>
+  items.flatMap(item => {
+    if ('accounts' in item) {
+      return flattenIdlAccounts(item.accounts, `${prefix}${item.name}.`);
+    }
+    return [{
+      name: `${prefix}${item.name}`,
+      isSigner: Boolean(item.signer ?? item.isSigner),
+      isWritable: Boolean(item.writable ?? item.isMut),
+      optional: Boolean(item.optional ?? item.isOptional),
+      address: item.address,
+    }];
+  });
+
+export const describeIdlType = (type: IdlType): string => {
+  if (typeof type === 'string') return type === 'publicKey' ? 'pubkey' : type;
+  if ('vec' in type) return `Vec<${describeIdlType(type.vec)}>`;
+  if ('option' in type) return `Option<${describeIdlType(type.option)}>`;
+  if ('coption' in type) return `COption<${describeIdlType(type.coption)}>`;
+  if ('array' in type) return `[${describeIdlType(type.array[0])}; ${type.array[1]}]`;
+  return typeof type.defined === 'string' ? type.defined : type.defined.name;
+};
+
+const findTypeDef = (idl: AnchorIdl, type: { defined: string | { name: string } }): IdlTypeDef => {
+  const name = typeof type.defined === 'string' ? type.defined : type.defined.name;
+  const typeDef = idl.types?.find(candidate => candidate.name === name);
+  if (!typeDef) {
+    throw new Error(`Type "${name}" is not defined in the IDL`);
+  }
+  return typeDef;
+};
+
+// Struct and enum fields are either named (`{ name, type }`) or positional (tuple)
+const isNamedField = (field: IdlField | IdlType): field is IdlField =>
+  typeof field === 'object' && 'name' in field && 'type' in field;
+
+const toBigInt = (value: unknown, label: string): bigint => {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value);
+  if (typeof value === 'string' && value.trim() !== '') {
+    try {
+      return BigInt(value.trim());
+    } catch (error) {
+      // Fall through to the error below
+    }
+  }
+  throw new Error(`${label}: "${String(value)}" is not an integer`);
+};
+
+const encodeInteger = (value: unknown, typeName: string, label: string): Buffer => {
+  const { bits, signed } = INTEGER_BITS[typeName];
+  const integer = toBigInt(value, label);
+  const min = signed ? -(BigInt(1) << BigInt(bits - 1)) : BigInt(0);
+  const max = signed ? (BigInt(1) << BigInt(bits - 1)) - BigInt(1) : (BigInt(1) << BigInt(bits)) - BigInt(1);
+  if (integer < min || integer > max) {
+    throw new Error(`${label}: ${integer} is out of range for ${typeName}`);
+  }
+
+  // Two's complement, little-endian
+  const bytes = Buffer.alloc(bits / 8);
+  let remaining = integer < BigInt(0) ? (BigInt(1) << BigInt(bits)) + integer : integer;
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number(remaining & BigInt(0xff));
+    remaining >>= BigInt(8);
+  }
+  return bytes;
+};
+
+const encodeLength = (length: number): Buffer => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(length);
+  return buffer;
+};
+
+const toBytes = (value: unknown, label: string): Buffer => {
+  if (value instanceof Uint8Array) return Buffer.from(value);
+  if (Array.isArray(value)) return Buffer.from(value.map(byte => Number(byte)));
+  if (typeof value === 'string') {
+    const hex = value.trim().replace(/^0x/i, '');
+    if (/^[0-9a-f]*$/i.test(hex) && hex.length % 2 === 0) return Buffer.from(hex, 'hex');
+  }
+  throw new Error(`${label}: expected a byte array or hex string`);
+};
+
+const encodeFields = (
+  idl: AnchorIdl,
+  fields: (IdlField | IdlType)[],
+  value: unknown,
+  label: string
+): Buffer => {
+  if (fields.length > 0 && isNamedField(fields[0])) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error(`${label}: expected an object`);
+    }
+    const record = value as Record<string, unknown>;
+    return Buffer.concat((fields as IdlField[]).map(field =>
+      encodeIdlValue(idl, field.type, record[field.name], `${label}.${field.name}`)
+    ));
+  }
+
+  const values = Array.isArray(value) ? value : fields.length === 1 ? [value] : null;
+  if (!values || values.length !== fields.length) {
+    throw new Error(`${label}: expected ${fields.length} values`);
+  }
+  return Buffer.concat((fields as IdlType[]).map((type, index) =>
+    encodeIdlValue(idl, type, values[index], `${label}[${index}]`)
+  ));
+};
+
+export const encodeIdlValue = (idl: AnchorIdl, type: IdlType, value: unknown, label: string): Buffer => {
+  if (typeof type === 'string') {
+    if (type in INTEGER_BITS) return encodeInteger(value, type, label);
+
+    switch (type) {
+      case 'bool':
+        if (typeof value === 'boolean') return Buffer.from([value ? 1 : 0]);
+        if (value === 'true' || value === 'false') return Buffer.from([value === 'true' ? 1 : 0]);
+        throw new Error(`${label}: expected true or false`);
+      case 'f32':
+      case 'f64': {
+        const number = Number(value);
+        if (value === '' || Number.isNaN(number)) throw new Error(`${label}: "${String(value)}" is not a number`);
+        const buffer = Buffer.alloc(type === 'f32' ? 4 : 8);
+        if (type === 'f32') buffer.writeFloatLE(number);
+        else buffer.writeDoubleLE(number);
+        return buffer;
+      }
+      case 'string': {
+        const bytes = Buffer.from(String(value ?? ''), 'utf8');
+        return Buffer.concat([encodeLength(bytes.length), bytes]);
+      }
+      case 'bytes': {
+        const bytes = toBytes(value, label);
+        return Buffer.concat([encodeLength(bytes.length), bytes]);
+      }
+      case 'pubkey':
+      case 'publicKey':
+        try {
+          return (value instanceof PublicKey ? value : new PublicKey(String(value).trim())).toBuffer();
+        } catch (error) {
+          throw new Error(`${label}: invalid public key`);
+        }
+    }
+  }
+
+  if (typeof type === 'object') {
+    if ('vec' in type) {
+      if (!Array.isArray(value)) throw new Error(`${label}: expected an array`);
+      return Buffer.concat([
+        encodeLength(value.length),
+        ...value.map((item, index) => encodeIdlValue(idl, type.vec, item, `${label}[${index}]`))
+      ]);
+    }
+    if ('option' in type) {
+      if (value === null || value === undefined || value === '') return Buffer.from([0]);
+      return Buffer.concat([Buffer.from([1]), encodeIdlValue(idl, type.option, value, label)]);
+    }
+    if ('coption' in type) {
+      if (value === null || value === undefined || value === '') return encodeLength(0);
+      return Buffer.concat([encodeLength(1), encodeIdlValue(idl, type.coption, value, label)]);
+    }
+    if ('array' in type) {
+      const [itemType, length] = type.array;
+      // u8 arrays are commonly entered as hex
+      const items = itemType === 'u8' && !Array.isArray(value) ? [...toBytes(value, label)] : value;
+      if (!Array.isArray(items) || items.length !== length) {
+        throw new Error(`${label}: expected an array of ${length} items`);
+      }
+      return Buffer.concat(items.map((item, index) => encodeIdlValue(idl, itemType, item, `${label}[${index}]`)));
+    }
+    if ('defined' in type) {
+      const typeDef = findTypeDef(idl, type);
+      const body = typeDef.type;
+
+      if (body.kind === 'type') return encodeIdlValue(idl, body.alias, value, label);
+      if (body.kind === 'struct') return encodeFields(idl, body.fields ?? [], value, label);
+
+      // Enums are given as "Variant" or { Variant: fields }
+      const [variantName, variantValue] = typeof value === 'string'
+        ? [value, undefined]
+        : typeof value === 'object' && value !== null
+          ? Object.entries(value)[0] ?? []
+          : [];
+      const variantIndex = body.variants.findIndex(variant => variant.name === variantName);
+      if (variantIndex === -1) {
+        throw new Error(`${label}: unknown ${typeDef.name} variant "${String(variantName)}"`);
+      }
+      const variant = body.variants[variantIndex];
+      const fields = variant.fields ?? [];
+      return Buffer.concat([
+        Buffer.from([variantIndex]),
+        fields.length > 0 ? encodeFields(idl, fields, variantValue, `${label}.${variant.name}`) : Buffer.alloc(0)
+      ]);
+    }
+  }
+
+  throw new Error(`${label}: unsupported type ${JSON.stringify(type)}`);
+};
+
+class IdlReader {
+  private offset = 0;
+
+  constructor(private readonly data: Buffer) {}
+
+  take(length: number): Buffer {
+    if (this.offset + length > this.data.length) {
+      throw new Error("Instruction data is shorter than the IDL layout");
+    }
+    const slice = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  get remaining(): number {
+    return this.data.length - this.offset;
+  }
+}
+
+const decodeInteger = (bytes: Buffer, signed: boolean): bigint => {
+  let value = BigInt(0);
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    value = (value << BigInt(8)) | BigInt(bytes[i]);
+  }
+  const bits = BigInt(bytes.length * 8);
+  if (signed && bytes[bytes.length - 1] & 0x80) {
+    value -= BigInt(1) << bits;
+  }
+  return value;
+};
+
+const decodeFields = (idl: AnchorIdl, fields: (IdlField | IdlType)[], reader: IdlReader): unknown => {
+  if (fields.length > 0 && isNamedField(fields[0])) {
+    return Object.fromEntries((fields as IdlField[]).map(field =>
+      [field.name, decodeIdlValue(idl, field.type, reader)]
+    ));
+  }
+  return (fields as IdlType[]).map(type => decodeIdlValue(idl, type, reader));
+};
+
+// Decoded values are JSON friendly: 64/128-bit integers become decimal strings,
+// public keys base58 and byte strings hex, so they can be fed back to the encoder
+const decodeIdlValue = (idl: AnchorIdl, type: IdlType, reader: IdlReader): unknown => {
+  if (typeof type === 'string') {
+    if (type in INTEGER_BITS) {
+      const { bits, signed } = INTEGER_BITS[type];
+      const value = decodeInteger(reader.take(bits / 8), signed);
+      return bits > 32 ? value.toString() : Number(value);
+    }
+
+    switch (type) {
+      case 'bool':
+        return reader.take(1)[0] !== 0;
+      case 'f32':
+        return reader.take(4).readFloatLE();
+      case 'f64':
+        return reader.take(8).readDoubleLE();
+      case 'string':
+        return reader.take(reader.take(4).readUInt32LE()).toString('utf8');
+      case 'bytes':
+        return reader.take(reader.take(4).readUInt32LE()).toString('hex');
+      case 'pubkey':
+      case 'publicKey':
+        return new PublicKey(reader.take(32)).toBase58();
+    }
+  }
+
+  if (typeof type === 'object') {
+    if ('vec' in type) {
+      const length = reader.take(4).readUInt32LE();
+      return Array.from({ length }, () => decodeIdlValue(idl, type.vec, reader));
+    }
+    if ('option' in type) {
+      return reader.take(1)[0] === 0 ? null : decodeIdlValue(idl, type.option, reader);
+    }
+    if ('coption' in type) {
+      return reader.take(4).readUInt32LE() === 0 ? null : decodeIdlValue(idl, type.coption, reader);
+    }
+    if ('array' in type) {
+      const [itemType, length] = type.array;
+      if (itemType === 'u8') return reader.take(length).toString('hex');
+      return Array.from({ length }, () => decodeIdlValue(idl, itemType, reader));
+    }
+    if ('defined' in type) {
+      const typeDef = findTypeDef(idl, type);
+      const body = typeDef.type;
+
+      if (body.kind === 'type') return decodeIdlValue(idl, body.alias, reader);
+      if (body.kind === 'struct') return decodeFields(idl, body.fields ?? [], reader);
+
+      const variant = body.variants[reader.take(1)[0]];
+      if (!variant) throw new Error(`Invalid ${typeDef.name} variant`);
+      if (!variant.fields || variant.fields.length === 0) return variant.name;
+      return { [variant.name]: decodeFields(idl, variant.fields, reader) };
+    }
+  }
+
+  throw new Error(`Unsupported type ${JSON.stringify(type)}`);
+};
+
+export const findIdlInstruction = (idl: AnchorIdl, name: string): IdlInstruction => {
+  const instruction = idl.instructions.find(candidate => candidate.name === name);
+  if (!instruction) {
+    throw new Error(`Instruction "${name}" is not in the IDL`);
+  }
+  return instruction;
+};
+
+export const encodeAnchorInstructionData = (
+  idl: AnchorIdl,
+  name: string,
+  args: Record<string, unknown>
+): Buffer => {
+  const instruction = findIdlInstruction(idl, name);
+  return Buffer.concat([
+    getInstructionDiscriminator(instruction),
+    ...instruction.args.map(arg => encodeIdlValue(idl, arg.type, args[arg.name], arg.name))
+  ]);
+};
+
+export const decodeAnchorInstructionData = (
+  idl: AnchorIdl,
+  data: Buffer
+): { instruction: IdlInstruction; args: Record<string, unknown> } | null => {
+  const instruction = idl.instructions.find(candidate => {
+    const discriminator = getInstructionDiscriminator(candidate);
+    return data.length >= discriminator.length && data.subarray(0, discriminator.length).equals(discriminator);
+  });
+  if (!instruction) return null;
+
+  const reader = new IdlReader(data.subarray(getInstructionDiscriminator(instruction).length));
+  const args = Object.fromEntries(instruction.args.map(arg =>
+    [arg.name, decodeIdlValue(idl, arg.type, reader)]
+  ));
+  return { instruction, args };
+};
+
+export const decodeAnchorInstruction = (
+  idl: AnchorIdl,
+  instruction: TransactionInstruction
+): DecodedAnchorInstruction | null => {
+  try {
+    const decoded = decodeAnchorInstructionData(idl, Buffer.from(instruction.data));
+    if (!decoded) return null;
+
+    const accountNames = flattenIdlAccounts(decoded.instruction.accounts).map(account => account.name);
+    return {
+      programId: instruction.programId.toBase58(),
+      name: decoded.instruction.name,
+      args: decoded.args,
+      accounts: instruction.keys.map((key, index) => ({
+        name: accountNames[index] ?? `remaining ${index - accountNames.length + 1}`,
+        pubkey: key.pubkey.toBase58()
+      }))
+    };
+  } catch (error) {
+    console.error("Error decoding Anchor instruction:", error);
+    return null;
+  }
+};
+
+// Turns a form input into an encoder value: scalars are passed through as text,
+// composite types (vectors, structs, enums, options of those) are entered as JSON
+export const parseIdlArgInput = (type: IdlType, input: string): unknown => {
+  const value = input.trim();
+  if (typeof type === 'string') return type === 'string' ? input : value;
+  if ('option' in type || 'coption' in type) {
+    if (value === '') return null;
+    const inner = 'option' in type ? type.option : type.coption;
+    return parseIdlArgInput(inner, input);
+  }
+  if ('array' in type && type.array[0] === 'u8' && !value.startsWith('[')) return value;
+
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    // Single word enum variants don't need quoting
+    if ('defined' in type && /^\w+$/.test(value)) return value;
+    throw new Error(`Expected JSON for ${describeIdlType(type)}`);
+  }
+};
+
+export const formatIdlValue = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value);
@@ -1,3 +1,14 @@
+import { PublicKey } from "@solana/web3.js";
+import { Buffer } from 'buffer';
+import { AssertionOverrides } from "@/types/lighthouse";
+import { BundleTransaction } from "@/types/transaction";
+import {
+  deserializeTransaction,
+  getRecentBlockhash,
+  isVersionedTransaction,
+  serializeTransaction,
+  setRecentBlockhash
+} from "@/utils/transactionUtils";
 
 // In-memory storage as fallback if localStorage is not available
 let memoryStorage: Record<string, any> = {};
@@ -47,3 +58,96 @@ export const getWalletContext = (): string | null => {
     return null;
   }
 };
+
+// Transaction identities, kept outside the transaction objects so web3.js types stay untouched
+const transactionIds = new WeakMap<BundleTransaction, string>();
+
+// Stable id of a transaction in the bundle; follows it through reorders, removals and reloads
+export const getTransactionId = (tx: BundleTransaction): string => {
+  let id = transactionIds.get(tx);
+  if (!id) {
+    id = `tx-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    transactionIds.set(tx, id);
+  }
+  return id;
+};
+
+// A rebuilt transaction (e.g. with a tip appended) keeps the identity, and the edits, of the one it replaces
+export const inheritTransactionId = <T extends BundleTransaction>(tx: T, from: BundleTransaction): T => {
+  transactionIds.set(tx, getTransactionId(from));
+  return tx;
+};
+
+const BUNDLE_KEY_PREFIX = "bundle_";
+
+// Unsigned legacy transactions may have no blockhash yet, they are stored with this one
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58();
+
+interface StoredBundle {
+  transactions: { id: string; data: string }[];
+  // Keyed by transaction id
+  assertionOverrides: Record<string, AssertionOverrides>;
+}
+
+export interface SavedBundle {
+  transactions: BundleTransaction[];
+  assertionOverrides: Record<string, AssertionOverrides>;
+}
+
+const encodeTransaction = (tx: BundleTransaction): string => {
+  const withBlockhash = getRecentBlockhash(tx) ? tx : setRecentBlockhash(tx, PLACEHOLDER_BLOCKHASH);
+  return Buffer.from(serializeTransaction(withBlockhash)).toString('base64');
+};
+
+const decodeTransaction = (data: string): BundleTransaction => {
+  const tx = deserializeTransaction(Buffer.from(data, 'base64'));
+  if (!isVersionedTransaction(tx) && tx.recentBlockhash === PLACEHOLDER_BLOCKHASH) {
+    tx.recentBlockhash = undefined;
+  }
+  return tx;
+};
+
+// The wallet's bundle with its assertion edits, edits of transactions no longer in the bundle are dropped
+export const saveBundle = (
+  walletAddress: string,
+  transactions: BundleTransaction[],
+  assertionOverrides: Record<string, AssertionOverrides>
+) => {
+  try {
+    const ids = transactions.map(getTransactionId);
+    const stored: StoredBundle = {
+      transactions: transactions.map((tx, index) => ({ id: ids[index], data: encodeTransaction(tx) })),
+      assertionOverrides: Object.fromEntries(
+        Object.entries(assertionOverrides).filter(([id]) => ids.includes(id))
+      )
+    };
+    const key = `${BUNDLE_KEY_PREFIX}${walletAddress}`;
+    if (isLocalStorageAvailable()) {
+      localStorage.setItem(key, JSON.stringify(stored));
+    } else {
+      memoryStorage[key] = stored;
+    }
+  } catch (error) {
+    console.error("Error saving bundle:", error);
+  }
+};
+
+export const loadBundle = (walletAddress: string): SavedBundle | null => {
+  try {
+    const key = `${BUNDLE_KEY_PREFIX}${walletAddress}`;
+    const raw = isLocalStorageAvailable() ? localStorage.getItem(key) : null;
+    const stored: StoredBundle | undefined = raw ? JSON.parse(raw) : memoryStorage[key];
+    if (!stored) return null;
+
+    const transactions = stored.transactions.map(({ id, data }) => {
+      const tx = decodeTransaction(data);
+      transactionIds.set(tx, id);
+      return tx;
+    });
+    console.log(`Loaded bundle of ${transactions.length} transactions for wallet:`, walletAddress);
+    return { transactions, assertionOverrides: stored.assertionOverrides ?? {} };
+  } catch (error) {
+    console.error("Error loading bundle:", error);
+    return null;
+  }
+};
@@ -0,0 +1,313 @@
+import { AccountMeta, ComputeBudgetProgram, PublicKey, SystemProgram, TransactionInstruction } from "@solana/web3.js";
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { Buffer } from 'buffer';
+import { MEMO_PROGRAM_ID, PROGRAM_PRESETS } from "@/config/programs";
+import { DecodedInstruction, DecodedParamValue } from "@/types/instruction";
+import { StoredIdl } from "@/types/idl";
+import { decodeAnchorInstruction, formatIdlValue } from "@/utils/anchorCoder";
+import { LIGHTHOUSE_PROGRAM_ID, LighthouseInstructionType } from "@/integrations/lighthouse/instructions";
+import { programRegistryService } from "@/services/programRegistryService";
+
+// 'seed' is a bincode string (u64 length prefix), 'optionPubkey' a u8 tag + pubkey
+type FieldKind = 'u8' | 'u32' | 'u64' | 'pubkey' | 'optionPubkey' | 'seed' | 'authorityType';
+
+interface InstructionLayout {
+  type: string;
+  accounts: string[];
+  fields?: [string, FieldKind][];
+}
+
+interface ProgramDecoder {
+  // Width of the leading instruction tag; the System Program uses a u32, the rest a u8
+  tagSize: 1 | 4;
+  layouts: Record<number, InstructionLayout>;
+}
+
+const AUTHORITY_TYPES = [
+  'MintTokens', 'FreezeAccount', 'AccountOwner', 'CloseAccount',
+  'TransferFeeConfig', 'WithheldWithdraw', 'CloseMint', 'InterestRate',
+  'PermanentDelegate', 'ConfidentialTransferMint', 'TransferHookProgramId',
+  'ConfidentialTransferFeeConfig', 'MetadataPointer', 'GroupPointer', 'GroupMemberPointer',
+];
+
+const SYSTEM_DECODER: ProgramDecoder = {
+  tagSize: 4,
+  layouts: {
+    0: { type: 'CreateAccount', accounts: ['From', 'New Account'], fields: [['lamports', 'u64'], ['space', 'u64'], ['owner', 'pubkey']] },
+    1: { type: 'Assign', accounts: ['Account'], fields: [['owner', 'pubkey']] },
+    2: { type: 'Transfer', accounts: ['From', 'To'], fields: [['lamports', 'u64']] },
+    3: {
+      type: 'CreateAccountWithSeed',
+      accounts: ['From', 'New Account', 'Base'],
+      fields: [['base', 'pubkey'], ['seed', 'seed'], ['lamports', 'u64'], ['space', 'u64'], ['owner', 'pubkey']]
+    },
+    4: { type: 'AdvanceNonceAccount', accounts: ['Nonce Account', 'Recent Blockhashes Sysvar', 'Nonce Authority'] },
+    5: {
+      type: 'WithdrawNonceAccount',
+      accounts: ['Nonce Account', 'Recipient', 'Recent Blockhashes Sysvar', 'Rent Sysvar', 'Nonce Authority'],
+      fields: [['lamports', 'u64']]
+    },
+    6: { type: 'InitializeNonceAccount', accounts: ['Nonce Account', 'Recent Blockhashes Sysvar', 'Rent Sysvar'], fields: [['authority', 'pubkey']] },
+    7: { type: 'AuthorizeNonceAccount', accounts: ['Nonce Account', 'Nonce Authority'], fields: [['newAuthority', 'pubkey']] },
+    8: { type: 'Allocate', accounts: ['Account'], fields: [['space', 'u64']] },
+    9: { type: 'AllocateWithSeed', accounts: ['Account', 'Base'], fields: [['base', 'pubkey'], ['seed', 'seed'], ['space', 'u64'], ['owner', 'pubkey']] },
+    10: { type: 'AssignWithSeed', accounts: ['Account', 'Base'], fields: [['base', 'pubkey'], ['seed', 'seed'], ['owner', 'pubkey']] },
+    11: { type: 'TransferWithSeed', accounts: ['From', 'Base', 'To'], fields: [['lamports', 'u64'], ['seed', 'seed'], ['owner', 'pubkey']] },
+    12: { type: 'UpgradeNonceAccount', accounts: ['Nonce Account'] },
+  }
+};
+
+const TOKEN_LAYOUTS: Record<number, InstructionLayout> = {
+  0: { type: 'InitializeMint', accounts: ['Mint', 'Rent Sysvar'], fields: [['decimals', 'u8'], ['mintAuthority', 'pubkey'], ['freezeAuthority', 'optionPubkey']] },
+  1: { type: 'InitializeAccount', accounts: ['Account', 'Mint', 'Owner', 'Rent Sysvar'] },
+  2: { type: 'InitializeMultisig', accounts: ['Multisig', 'Rent Sysvar'], fields: [['m', 'u8']] },
+  3: { type: 'Transfer', accounts: ['Source', 'Destination', 'Owner'], fields: [['amount', 'u64']] },
+  4: { type: 'Approve', accounts: ['Source', 'Delegate', 'Owner'], fields: [['amount', 'u64']] },
+  5: { type: 'Revoke', accounts: ['Source', 'Owner'] },
+  6: { type: 'SetAuthority', accounts: ['Account', 'Current Authority'], fields: [['authorityType', 'authorityType'], ['newAuthority', 'optionPubkey']] },
+  7: { type: 'MintTo', accounts: ['Mint', 'Destination', 'Mint Authority'], fields: [['amount', 'u64']] },
+  8: { type: 'Burn', accounts: ['Account', 'Mint', 'Owner'], fields: [['amount', 'u64']] },
+  9: { type: 'CloseAccount', accounts: ['Account', 'Destination', 'Owner'] },
+  10: { type: 'FreezeAccount', accounts: ['Account', 'Mint', 'Freeze Authority'] },
+  11: { type: 'ThawAccount', accounts: ['Account', 'Mint', 'Freeze Authority'] },
+  12: { type: 'TransferChecked', accounts: ['Source', 'Mint', 'Destination', 'Owner'], fields: [['amount', 'u64'], ['decimals', 'u8']] },
+  13: { type: 'ApproveChecked', accounts: ['Source', 'Mint', 'Delegate', 'Owner'], fields: [['amount', 'u64'], ['decimals', 'u8']] },
+  14: { type: 'MintToChecked', accounts: ['Mint', 'Destination', 'Mint Authority'], fields: [['amount', 'u64'], ['decimals', 'u8']] },
+  15: { type: 'BurnChecked', accounts: ['Account', 'Mint', 'Owner'], fields: [['amount', 'u64'], ['decimals', 'u8']] },
+  16: { type: 'InitializeAccount2', accounts: ['Account', 'Mint', 'Rent Sysvar'], fields: [['owner', 'pubkey']] },
+  17: { type: 'SyncNative', accounts: ['Account'] },
+  18: { type: 'InitializeAccount3', accounts: ['Account', 'Mint'], fields: [['owner', 'pubkey']] },
+  19: { type: 'InitializeMultisig2', accounts: ['Multisig'], fields: [['m', 'u8']] },
+  20: { type: 'InitializeMint2', accounts: ['Mint'], fields: [['decimals', 'u8'], ['mintAuthority', 'pubkey'], ['freezeAuthority', 'optionPubkey']] },
+  21: { type: 'GetAccountDataSize', accounts: ['Mint'] },
+  22: { type: 'InitializeImmutableOwner', accounts: ['Account'] },
+  23: { type: 'AmountToUiAmount', accounts: ['Mint'], fields: [['amount', 'u64']] },
+  24: { type: 'UiAmountToAmount', accounts: ['Mint'] },
+};
+
+// Token-2022 extension instructions are named but their payloads are not decoded
+const TOKEN_2022_EXTENSIONS = [
+  'InitializeMintCloseAuthority', 'TransferFeeExtension', 'ConfidentialTransferExtension',
+  'DefaultAccountStateExtension', 'Reallocate', 'MemoTransferExtension', 'CreateNativeMint',
+  'InitializeNonTransferableMint', 'InterestBearingMintExtension', 'CpiGuardExtension',
+  'InitializePermanentDelegate', 'TransferHookExtension', 'ConfidentialTransferFeeExtension',
+  'WithdrawExcessLamports', 'MetadataPointerExtension', 'GroupPointerExtension',
+  'GroupMemberPointerExtension',
+];
+
+const TOKEN_2022_LAYOUTS: Record<number, InstructionLayout> = {
+  ...TOKEN_LAYOUTS,
+  ...Object.fromEntries(TOKEN_2022_EXTENSIONS.map((type, index) => [25 + index, { type, accounts: [] }])),
+};
+
+const COMPUTE_BUDGET_DECODER: ProgramDecoder = {
+  tagSize: 1,
+  layouts: {
+    0: { type: 'RequestUnits', accounts: [], fields: [['units', 'u32'], ['additionalFee', 'u32']] },
+    1: { type: 'RequestHeapFrame', accounts: [], fields: [['bytes', 'u32']] },
+    2: { type: 'SetComputeUnitLimit', accounts: [], fields: [['units', 'u32']] },
+    3: { type: 'SetComputeUnitPrice', accounts: [], fields: [['microLamports', 'u64']] },
+    4: { type: 'SetLoadedAccountsDataSizeLimit', accounts: [], fields: [['bytes', 'u32']] },
+  }
+};
+
+const ATA_ACCOUNTS = ['Payer', 'Associated Account', 'Wallet', 'Mint', 'System Program', 'Token Program'];
+
+const ATA_DECODER: ProgramDecoder = {
+  tagSize: 1,
+  layouts: {
+    0: { type: 'Create', accounts: ATA_ACCOUNTS },
+    1: { type: 'CreateIdempotent', accounts: ATA_ACCOUNTS },
+    2: {
+      type: 'RecoverNested',
+      accounts: ['Nested Account', 'Nested Mint', 'Destination', 'Owner Account', 'Owner Mint', 'Wallet', 'Token Program']
+    },
+  }
+};
+
+// Only the header is decoded; the assertion body is a nested enum per instruction
+const LIGHTHOUSE_DECODER: ProgramDecoder = {
+  tagSize: 1,
+  layouts: Object.fromEntries(
+    Object.entries(LighthouseInstructionType)
+      .filter(([type]) => type.startsWith('Assert'))
+      .map(([type, tag]) => [tag, {
+        type,
+        accounts: type === 'AssertSysvarClock' ? [] : ['Target Account'],
+        fields: [['logLevel', 'u8']]
+      }])
+  )
+};
+
+const DECODERS: Record<string, ProgramDecoder> = {
+  [SystemProgram.programId.toBase58()]: SYSTEM_DECODER,
+  [TOKEN_PROGRAM_ID.toBase58()]: { tagSize: 1, layouts: TOKEN_LAYOUTS },
+  [TOKEN_2022_PROGRAM_ID.toBase58()]: { tagSize: 1, layouts: TOKEN_2022_LAYOUTS },
+  [ComputeBudgetProgram.programId.toBase58()]: COMPUTE_BUDGET_DECODER,
+  [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()]: ATA_DECODER,
+  [LIGHTHOUSE_PROGRAM_ID.toBase58()]: LIGHTHOUSE_DECODER,
+};
+
+export const getProgramName = (programId: PublicKey | string, idls: Record<string, StoredIdl> = {}): string => {
+  const address = programId.toString();
+  const registered = programRegistryService.getEntry(address);
+  if (registered) return registered.name;
+
+  const preset = PROGRAM_PRESETS.find(candidate => candidate.programId.toBase58() === address);
+  if (preset) return preset.name;
+
+  const idl = idls[address]?.idl;
+  return idl?.metadata?.name ?? idl?.name ?? `${address.slice(0, 4)}...${address.slice(-4)}`;
+};
+
+const readFields = (data: Buffer, offset: number, fields: [string, FieldKind][]): Record<string, DecodedParamValue> => {
+  const params: Record<string, DecodedParamValue> = {};
+  let cursor = offset;
+
+  for (const [name, kind] of fields) {
+    switch (kind) {
+      case 'u8':
+        params[name] = data.readUInt8(cursor);
+        cursor += 1;
+        break;
+      case 'authorityType': {
+        const authorityType = data.readUInt8(cursor);
+        params[name] = AUTHORITY_TYPES[authorityType] ?? authorityType;
+        cursor += 1;
+        break;
+      }
+      case 'u32':
+        params[name] = data.readUInt32LE(cursor);
+        cursor += 4;
+        break;
+      case 'u64':
+        params[name] = data.readBigUInt64LE(cursor).toString();
+        cursor += 8;
+        break;
+      case 'pubkey':
+        params[name] = new PublicKey(data.subarray(cursor, cursor + 32)).toBase58();
+        cursor += 32;
+        break;
+      case 'optionPubkey': {
+        const isSome = data.readUInt8(cursor) !== 0;
+        params[name] = isSome ? new PublicKey(data.subarray(cursor + 1, cursor + 33)).toBase58() : null;
+        cursor += isSome ? 33 : 1;
+        break;
+      }
+      case 'seed': {
+        const length = Number(data.readBigUInt64LE(cursor));
+        params[name] = data.subarray(cursor + 8, cursor + 8 + length).toString('utf8');
+        cursor += 8 + length;
+        break;
+      }
+    }
+  }
+
+  return params;
+};
+
+const decodeWithLayout = (
+  decoder: ProgramDecoder,
+  data: Buffer
+): { layout: InstructionLayout; params: Record<string, DecodedParamValue> } | null => {
+  // Legacy ATA Create instructions carry no data at all
+  if (data.length === 0) {
+    return decoder === ATA_DECODER ? { layout: ATA_DECODER.layouts[0], params: {} } : null;
+  }
+  if (data.length < decoder.tagSize) return null;
+
+  const tag = decoder.tagSize === 4 ? data.readUInt32LE(0) : data.readUInt8(0);
+  const layout = decoder.layouts[tag];
+  if (!layout) return null;
+
+  try {
+    return { layout, params: readFields(data, decoder.tagSize, layout.fields ?? []) };
+  } catch (error) {
+    // Truncated data: report the instruction type without its parameters
+    return { layout, params: {} };
+  }
+};
+
+// Compiled instructions from getProgramInstructions carry no account metas
+type DecodableInstruction = { programId: PublicKey; data: Uint8Array; keys?: AccountMeta[] };
+
+/**
+ * Single entry point for turning raw instructions into something readable.
+ * Native programs are decoded from their known layouts, Anchor programs from
+ * any IDL loaded for them; anything else comes back with type "Unknown".
+ */
+export const decodeInstruction = (
+  instruction: DecodableInstruction,
+  idls: Record<string, StoredIdl> = {}
+): DecodedInstruction => {
+  const programId = instruction.programId.toBase58();
+  const data = Buffer.from(instruction.data);
+  const decoded: DecodedInstruction = {
+    programId,
+    programName: getProgramName(instruction.programId, idls),
+    type: 'Unknown',
+    known: false,
+    params: {},
+    accounts: (instruction.keys ?? []).map(key => ({
+      pubkey: key.pubkey.toBase58(),
+      isSigner: key.isSigner,
+      isWritable: key.isWritable
+    })),
+    data: data.toString('hex')
+  };
+
+  if (instruction.programId.equals(MEMO_PROGRAM_ID)) {
+    return {
+      ...decoded,
+      type: 'Memo',
+      known: true,
+      params: { memo: data.toString('utf8') },
+      accounts: decoded.accounts.map(account => ({ ...account, name: 'Signer' }))
+    };
+  }
+
+  const decoder = DECODERS[programId];
+  if (decoder) {
+    const result = decodeWithLayout(decoder, data);
+    if (!result) return decoded;
+    return {
+      ...decoded,
+      type: result.layout.type,
+      known: true,
+      params: result.params,
+      accounts: decoded.accounts.map((account, index) => ({
+        ...account,
+        // Multisig signers and other trailing accounts are left unnamed
+        name: result.layout.accounts[index]
+      }))
+    };
+  }
+
+  const idl = idls[programId]?.idl;
+  const anchor = idl
+    ? decodeAnchorInstruction(idl, new TransactionInstruction({
+        programId: instruction.programId,
+        keys: instruction.keys ?? [],
+        data
+      }))
+    : null;
+  if (anchor) {
+    return {
+      ...decoded,
+      type: anchor.name,
+      known: true,
+      params: Object.fromEntries(Object.entries(anchor.args).map(([name, value]) => [name, formatIdlValue(value)])),
+      accounts: decoded.accounts.map((account, index) => ({ ...account, name: anchor.accounts[index]?.name }))
+    };
+  }
+
+  return decoded;
+};
+
+// Numeric parameter of a decoded instruction, or null when absent
+export const getNumericParam = (decoded: DecodedInstruction, name: string): bigint | null => {
+  const value = decoded.params[name];
+  if (typeof value === 'number') return BigInt(value);
+  if (typeof value === 'string' && /^\d+$/.test(value)) return BigInt(value);
+  return null;
+};
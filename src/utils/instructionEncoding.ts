@@ -0,0 +1,132 @@
+import { PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { Buffer } from 'buffer';
+import bs58 from 'bs58';
+import { DataField, InstructionDraft } from "@/types/instruction";
+import { AnchorIdl } from "@/types/idl";
+import { encodeAnchorInstructionData, findIdlInstruction, parseIdlArgInput } from "@/utils/anchorCoder";
+
+const parseInteger = (field: DataField, bits: number, signed: boolean): bigint => {
+  let value: bigint;
+  try {
+    value = BigInt(field.value.trim());
+  } catch (error) {
+    throw new Error(`${field.label || field.type}: "${field.value}" is not an integer`);
+  }
+
+  const min = signed ? -(BigInt(1) << BigInt(bits - 1)) : BigInt(0);
+  const max = signed ? (BigInt(1) << BigInt(bits - 1)) - BigInt(1) : (BigInt(1) << BigInt(bits)) - BigInt(1);
+  if (value < min || value > max) {
+    throw new Error(`${field.label || field.type}: ${value} is out of range for ${field.type}`);
+  }
+  return value;
+};
+
+export const encodeDataField = (field: DataField): Buffer => {
+  switch (field.type) {
+    case 'u8': {
+      const buffer = Buffer.alloc(1);
+      buffer.writeUInt8(Number(parseInteger(field, 8, false)));
+      return buffer;
+    }
+    case 'u16': {
+      const buffer = Buffer.alloc(2);
+      buffer.writeUInt16LE(Number(parseInteger(field, 16, false)));
+      return buffer;
+    }
+    case 'u32': {
+      const buffer = Buffer.alloc(4);
+      buffer.writeUInt32LE(Number(parseInteger(field, 32, false)));
+      return buffer;
+    }
+    case 'u64': {
+      const buffer = Buffer.alloc(8);
+      buffer.writeBigUInt64LE(parseInteger(field, 64, false));
+      return buffer;
+    }
+    case 'i64': {
+      const buffer = Buffer.alloc(8);
+      buffer.writeBigInt64LE(parseInteger(field, 64, true));
+      return buffer;
+    }
+    case 'bool': {
+      const value = field.value.trim().toLowerCase();
+      if (value !== 'true' && value !== 'false' && value !== '1' && value !== '0') {
+        throw new Error(`${field.label || 'bool'}: expected true or false`);
+      }
+      return Buffer.from([value === 'true' || value === '1' ? 1 : 0]);
+    }
+    case 'pubkey':
+      return new PublicKey(field.value.trim()).toBuffer();
+    case 'string': {
+      // Borsh string: u32 length prefix followed by UTF-8 bytes
+      const bytes = Buffer.from(field.value, 'utf8');
+      const length = Buffer.alloc(4);
+      length.writeUInt32LE(bytes.length);
+      return Buffer.concat([length, bytes]);
+    }
+    case 'utf8':
+      return Buffer.from(field.value, 'utf8');
+    default:
+      throw new Error(`Unsupported field type: ${field.type}`);
+  }
+};
+
+export const encodeDataFields = (fields: DataField[]): Buffer =>
+  Buffer.concat(fields.map(encodeDataField));
+
+export const decodeRawData = (mode: 'hex' | 'base58', input: string): Buffer => {
+  const value = input.trim().replace(/^0x/i, '').replace(/\s+/g, '');
+  if (value.length === 0) return Buffer.alloc(0);
+
+  if (mode === 'hex') {
+    if (!/^[0-9a-f]*$/i.test(value) || value.length % 2 !== 0) {
+      throw new Error("Instruction data is not valid hex");
+    }
+    return Buffer.from(value, 'hex');
+  }
+  return Buffer.from(bs58.decode(value));
+};
+
+const encodeAnchorDraft = (draft: InstructionDraft, idl?: AnchorIdl): Buffer => {
+  if (!idl) throw new Error("No IDL loaded for this program");
+  if (!draft.anchorInstruction) throw new Error("Select an IDL instruction");
+
+  const instruction = findIdlInstruction(idl, draft.anchorInstruction);
+  const args = Object.fromEntries(instruction.args.map(arg => {
+    try {
+      return [arg.name, parseIdlArgInput(arg.type, draft.anchorArgs?.[arg.name] ?? '')];
+    } catch (error) {
+      throw new Error(`${arg.name}: ${error instanceof Error ? error.message : 'invalid value'}`);
+    }
+  }));
+  return encodeAnchorInstructionData(idl, instruction.name, args);
+};
+
+export const buildInstruction = (draft: InstructionDraft, idl?: AnchorIdl): TransactionInstruction => {
+  let programId: PublicKey;
+  try {
+    programId = new PublicKey(draft.programId.trim());
+  } catch (error) {
+    throw new Error(`Invalid program ID: ${draft.programId}`);
+  }
+
+  const keys = draft.accounts.map((account, index) => {
+    try {
+      return {
+        pubkey: new PublicKey(account.pubkey.trim()),
+        isSigner: account.isSigner,
+        isWritable: account.isWritable
+      };
+    } catch (error) {
+      throw new Error(`Account ${index + 1}${account.label ? ` (${account.label})` : ''}: invalid public key`);
+    }
+  });
+
+  const data = draft.dataMode === 'fields'
+    ? encodeDataFields(draft.fields)
+    : draft.dataMode === 'anchor'
+      ? encodeAnchorDraft(draft, idl)
+      : decodeRawData(draft.dataMode, draft.rawData);
+
+  return new TransactionInstruction({ programId, keys, data });
+};
@@ -0,0 +1,48 @@
+import { PublicKey, SystemProgram, TransactionInstruction } from "@solana/web3.js";
+import { JITO_TIP_ACCOUNTS } from "@/config/jito";
+import { BundleTransaction } from "@/types/transaction";
+import { TipFloor, TipPercentile } from "@/types/jito";
+import { decodeInstruction, getNumericParam } from "./instructionDecoder";
+import { getRequiredSignatures, resolveTransaction } from "./transactionUtils";
+
+export interface TipTransfer {
+  transactionIndex: number;
+  instructionIndex: number;
+  from: string;
+  tipAccount: string;
+  lamports: bigint;
+}
+
+export const isTipAccount = (address: string): boolean => JITO_TIP_ACCOUNTS.includes(address);
+
+// System transfers to a Jito tip account among a transaction's instructions
+export const getTipTransfers = (
+  instructions: TransactionInstruction[],
+  transactionIndex = 0
+): TipTransfer[] =>
+  instructions.flatMap((ix, instructionIndex) => {
+    if (!ix.programId.equals(SystemProgram.programId)) return [];
+    const decoded = decodeInstruction(ix);
+    const lamports = getNumericParam(decoded, 'lamports');
+    const [from, to] = decoded.accounts;
+    if (decoded.type !== 'Transfer' || lamports === null || !to || !isTipAccount(to.pubkey)) return [];
+    return [{ transactionIndex, instructionIndex, from: from.pubkey, tipAccount: to.pubkey, lamports }];
+  });
+
+// Every tip the bundle pays, with lookup tables resolved
+export const findBundleTips = async (transactions: BundleTransaction[]): Promise<TipTransfer[]> => {
+  const resolved = await Promise.all(transactions.map(resolveTransaction));
+  return resolved.flatMap(({ instructions }, transactionIndex) => getTipTransfers(instructions, transactionIndex));
+};
+
+export const createTipInstruction = (from: PublicKey, tipAccount: PublicKey, lamports: number): TransactionInstruction =>
+  SystemProgram.transfer({ fromPubkey: from, toPubkey: tipAccount, lamports });
+
+// Tips go into the last transaction, which can only be rewritten when the fee payer is its only signer
+export const canAppendTip = (tx: BundleTransaction): boolean => getRequiredSignatures(tx) === 1;
+
+export const TIP_PERCENTILES: TipPercentile[] = [25, 50, 75, 95, 99];
+
+// Highest tip floor percentile a tip reaches, null when it is below the 25th
+export const getTipPercentile = (lamports: number | bigint, floor: TipFloor): TipPercentile | null =>
+  [...TIP_PERCENTILES].reverse().find(percentile => BigInt(lamports) >= BigInt(floor.percentiles[percentile])) ?? null;
@@ -0,0 +1,91 @@
+import { InvocationEntry, ParsedSimulationLogs, ProgramInvocation } from "@/types/simulation";
+
+const INVOKE_PATTERN = /^Program (\w+) invoke \[(\d+)\]$/;
+const SUCCESS_PATTERN = /^Program (\w+) success$/;
+const FAILED_PATTERN = /^Program (\w+) failed: (.*)$/;
+const CONSUMED_PATTERN = /^Program (\w+) consumed (\d+) of (\d+) compute units$/;
+const TRUNCATED_LOG = 'Log truncated';
+
+// Program messages that indicate something went wrong even before the runtime reports a failure
+const ERROR_PATTERN = /error|panicked|failed|insufficient|exceeded/i;
+
+/**
+ * Builds the CPI tree out of the runtime's program logs. Each `invoke [n]` opens a
+ * node at depth n and the matching `success`/`failed` line closes it; compute
+ * consumption is attached to the node that reported it.
+ */
+export const parseSimulationLogs = (logs: string[]): ParsedSimulationLogs => {
+  const parsed: ParsedSimulationLogs = { invocations: [], orphanLogs: [], errors: [], truncated: false };
+  const stack: ProgramInvocation[] = [];
+
+  const addEntry = (entry: InvocationEntry) => {
+    const current = stack[stack.length - 1];
+    if (current) {
+      current.entries.push(entry);
+    } else if (entry.kind === 'invoke') {
+      parsed.invocations.push(entry.node);
+    } else {
+      parsed.orphanLogs.push(entry.text);
+    }
+  };
+
+  for (const line of logs) {
+    const invoke = line.match(INVOKE_PATTERN);
+    if (invoke) {
+      const node: ProgramInvocation = {
+        programId: invoke[1],
+        depth: Number(invoke[2]),
+        status: 'incomplete',
+        entries: []
+      };
+      addEntry({ kind: 'invoke', node });
+      stack.push(node);
+      continue;
+    }
+
+    const consumed = line.match(CONSUMED_PATTERN);
+    if (consumed) {
+      const node = [...stack].reverse().find(candidate => candidate.programId === consumed[1]);
+      if (node) {
+        node.unitsConsumed = Number(consumed[2]);
+        node.unitsBudget = Number(consumed[3]);
+      }
+      continue;
+    }
+
+    const success = line.match(SUCCESS_PATTERN);
+    const failed = line.match(FAILED_PATTERN);
+    if (success || failed) {
+      const programId = (success ?? failed)![1];
+      // Pop until the matching program; anything above it never reported back
+      while (stack.length > 0) {
+        const node = stack.pop()!;
+        if (node.programId === programId) {
+          node.status = success ? 'success' : 'failed';
+          if (failed) {
+            node.error = failed[2];
+            parsed.errors.push(`${programId}: ${failed[2]}`);
+          }
+          break;
+        }
+      }
+      continue;
+    }
+
+    if (line === TRUNCATED_LOG) {
+      parsed.truncated = true;
+    }
+
+    const isError = ERROR_PATTERN.test(line);
+    if (isError && !stack.length) {
+      parsed.errors.push(line);
+    }
+    addEntry({ kind: 'log', text: line, isError });
+  }
+
+  return parsed;
+};
+
+// Total compute units consumed by top level invocations (CPI usage is included in its parent)
+export const getTotalUnitsConsumed = (parsed: ParsedSimulationLogs): number =>
+  parsed.invocations.reduce((total, node) => total + (node.unitsConsumed ?? 0), 0);
@@ -0,0 +1,283 @@
+import {
+  AddressLookupTableAccount,
+  BlockhashWithExpiryBlockHeight,
+  Commitment,
+  Message,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+  VersionedTransactionResponse
+} from "@solana/web3.js";
+import { Buffer } from 'buffer';
+import bs58 from 'bs58';
+import { connection } from "@/lib/solana";
+import { BundleTransaction, ResolvedTransaction } from "@/types/transaction";
+
+// Lookup tables rarely change while a bundle is being built, cache them per session
+const lookupTableCache = new Map<string, AddressLookupTableAccount>();
+
+export const isVersionedTransaction = (tx: BundleTransaction): tx is VersionedTransaction =>
+  tx instanceof VersionedTransaction;
+
+export const isBundleTransaction = (tx: unknown): tx is BundleTransaction =>
+  tx instanceof Transaction || tx instanceof VersionedTransaction;
+
+export const getFeePayer = (tx: BundleTransaction): PublicKey | undefined =>
+  isVersionedTransaction(tx) ? tx.message.staticAccountKeys[0] : tx.feePayer;
+
+export const getRecentBlockhash = (tx: BundleTransaction): string | undefined =>
+  isVersionedTransaction(tx) ? tx.message.recentBlockhash : tx.recentBlockhash;
+
+// Slot each blockhash was fetched at, the cluster has no lookup from blockhash to slot
+const blockhashSlots = new Map<string, number>();
+
+// Latest blockhash, remembering the slot it was fetched at for getBlockhashSlot
+export const fetchLatestBlockhash = async (commitment: Commitment = 'confirmed'): Promise<BlockhashWithExpiryBlockHeight> => {
+  const { context, value } = await connection.getLatestBlockhashAndContext(commitment);
+  blockhashSlots.set(value.blockhash, context.slot);
+  return value;
+};
+
+// Undefined for blockhashes this session did not fetch, e.g. ones imported with a transaction
+export const getBlockhashSlot = (blockhash: string): number | undefined => blockhashSlots.get(blockhash);
+
+/**
+ * Copy of the transaction with a new blockhash; the input is left untouched so
+ * transactions held in React state never change underneath it. Changing the
+ * blockhash invalidates existing signatures, so the copy carries none.
+ */
+export const setRecentBlockhash = <T extends BundleTransaction>(
+  tx: T,
+  blockhash: string,
+  lastValidBlockHeight?: number
+): T => {
+  if (isVersionedTransaction(tx)) {
+    const copy = VersionedTransaction.deserialize(tx.serialize());
+    copy.message.recentBlockhash = blockhash;
+    copy.signatures = copy.signatures.map(() => new Uint8Array(64));
+    return copy as T;
+  }
+
+  const copy = new Transaction();
+  copy.feePayer = tx.feePayer;
+  copy.recentBlockhash = blockhash;
+  copy.lastValidBlockHeight = lastValidBlockHeight ?? tx.lastValidBlockHeight;
+  copy.nonceInfo = tx.nonceInfo;
+  copy.minNonceContextSlot = tx.minNonceContextSlot;
+  copy.add(...tx.instructions);
+  copy.signatures = tx.signatures.map(({ publicKey }) => ({ publicKey, signature: null }));
+  return copy as T;
+};
+
+export const hasFeePayerSignature = (tx: BundleTransaction): boolean => {
+  if (isVersionedTransaction(tx)) {
+    // The fee payer always signs first, unsigned slots are all zeros
+    return tx.signatures.length > 0 && tx.signatures[0].some(byte => byte !== 0);
+  }
+  const feePayer = tx.feePayer;
+  if (!feePayer) return false;
+  return tx.signatures.some(sig => sig.publicKey.equals(feePayer) && sig.signature !== null);
+};
+
+// Fee payer signature in base58, the transaction's ID once it lands
+export const getSignature = (tx: BundleTransaction): string | null => {
+  const signature = isVersionedTransaction(tx) ? tx.signatures[0] : tx.signature;
+  return signature && hasFeePayerSignature(tx) ? bs58.encode(signature) : null;
+};
+
+export const serializeTransaction = (tx: BundleTransaction): Uint8Array =>
+  isVersionedTransaction(tx)
+    ? tx.serialize()
+    : tx.serialize({ requireAllSignatures: false, verifySignatures: false });
+
+// Wire size in bytes; legacy transactions without a blockhash yet are measured with a placeholder
+export const getSerializedSize = (tx: BundleTransaction): number => {
+  if (isVersionedTransaction(tx) || tx.recentBlockhash) {
+    return serializeTransaction(tx).length;
+  }
+  const sized = new Transaction({ feePayer: tx.feePayer, recentBlockhash: PublicKey.default.toBase58() });
+  sized.add(...tx.instructions);
+  return serializeTransaction(sized).length;
+};
+
+export const toVersionedTransaction = (tx: BundleTransaction): VersionedTransaction =>
+  isVersionedTransaction(tx) ? tx : VersionedTransaction.deserialize(serializeTransaction(tx));
+
+// Program ids are always static keys, so this works without resolving lookup tables
+export const getProgramInstructions = (tx: BundleTransaction): { programId: PublicKey; data: Buffer }[] => {
+  if (!isVersionedTransaction(tx)) {
+    return tx.instructions.map(ix => ({ programId: ix.programId, data: Buffer.from(ix.data) }));
+  }
+  const keys = tx.message.staticAccountKeys;
+  return tx.message.compiledInstructions.map(ix => ({
+    programId: keys[ix.programIdIndex],
+    data: Buffer.from(ix.data)
+  }));
+};
+
+export const resolveLookupTables = async (tx: BundleTransaction): Promise<AddressLookupTableAccount[]> => {
+  if (!isVersionedTransaction(tx) || tx.message.addressTableLookups.length === 0) {
+    return [];
+  }
+
+  return Promise.all(tx.message.addressTableLookups.map(async lookup => {
+    const key = lookup.accountKey.toBase58();
+    const cached = lookupTableCache.get(key);
+    if (cached) return cached;
+
+    const { value } = await connection.getAddressLookupTable(lookup.accountKey);
+    if (!value) {
+      throw new Error(`Address lookup table ${key} not found`);
+    }
+    lookupTableCache.set(key, value);
+    return value;
+  }));
+};
+
+export const getRequiredSignatures = (tx: BundleTransaction): number =>
+  isVersionedTransaction(tx)
+    ? tx.message.header.numRequiredSignatures
+    : tx.compileMessage().header.numRequiredSignatures;
+
+// Copy of the transaction with extra instructions at the end, existing signatures are dropped
+export const appendInstructions = async (
+  tx: BundleTransaction,
+  instructions: TransactionInstruction[]
+): Promise<BundleTransaction> => {
+  if (isVersionedTransaction(tx)) {
+    const lookupTables = await resolveLookupTables(tx);
+    const message = TransactionMessage.decompile(tx.message, { addressLookupTableAccounts: lookupTables });
+    message.instructions.push(...instructions);
+    return new VersionedTransaction(message.compileToV0Message(lookupTables));
+  }
+
+  const appended = new Transaction();
+  appended.feePayer = tx.feePayer;
+  appended.recentBlockhash = tx.recentBlockhash;
+  appended.lastValidBlockHeight = tx.lastValidBlockHeight;
+  appended.add(...tx.instructions, ...instructions);
+  return appended;
+};
+
+export const getAccountKeys = (
+  tx: BundleTransaction,
+  lookupTables: AddressLookupTableAccount[] = []
+): PublicKey[] => {
+  if (!isVersionedTransaction(tx)) {
+    return tx.compileMessage().accountKeys;
+  }
+  return tx.message
+    .getAccountKeys({ addressLookupTableAccounts: lookupTables })
+    .keySegments()
+    .flat();
+};
+
+export const getInstructions = (
+  tx: BundleTransaction,
+  lookupTables: AddressLookupTableAccount[] = []
+): TransactionInstruction[] => {
+  if (!isVersionedTransaction(tx)) {
+    return tx.instructions;
+  }
+  return TransactionMessage.decompile(tx.message, { addressLookupTableAccounts: lookupTables }).instructions;
+};
+
+// Writable account keys of a transaction, in message order
+export const getWritableAccounts = (
+  tx: BundleTransaction,
+  lookupTables: AddressLookupTableAccount[] = []
+): string[] => {
+  const message = isVersionedTransaction(tx) ? tx.message : tx.compileMessage();
+  return getAccountKeys(tx, lookupTables)
+    .filter((_, index) => message.isAccountWritable(index))
+    .map(key => key.toBase58());
+};
+
+export const resolveTransaction = async (tx: BundleTransaction): Promise<ResolvedTransaction> => {
+  const lookupTables = await resolveLookupTables(tx);
+  const accountKeys = getAccountKeys(tx, lookupTables);
+  const writable = new Set(getWritableAccounts(tx, lookupTables));
+
+  return {
+    version: isVersionedTransaction(tx) ? tx.version : 'legacy',
+    instructions: getInstructions(tx, lookupTables),
+    accountKeys,
+    writableAccounts: accountKeys.filter(key => writable.has(key.toBase58())),
+    lookupTables,
+    lookupTableKeyCount: isVersionedTransaction(tx)
+      ? tx.message.addressTableLookups.reduce(
+          (count, lookup) => count + lookup.writableIndexes.length + lookup.readonlyIndexes.length,
+          0
+        )
+      : 0
+  };
+};
+
+const BASE58_PATTERN = /^[1-9A-HJ-NP-Za-km-z]+$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+// Deserialize a wire-format transaction, keeping legacy transactions as `Transaction`
+export const deserializeTransaction = (bytes: Uint8Array): BundleTransaction => {
+  const versioned = VersionedTransaction.deserialize(bytes);
+  return versioned.version === 'legacy' ? Transaction.from(bytes) : versioned;
+};
+
+/**
+ * Decodes a base64 or base58 serialized transaction. Strings that are valid in
+ * both alphabets are tried as base58 first, the usual format for short payloads.
+ */
+export const decodeSerializedTransaction = (encoded: string): BundleTransaction => {
+  const value = encoded.trim();
+  const decoders: ((input: string) => Uint8Array)[] = [];
+
+  if (BASE58_PATTERN.test(value)) {
+    decoders.push(input => bs58.decode(input));
+  }
+  if (BASE64_PATTERN.test(value)) {
+    decoders.push(input => Buffer.from(input, 'base64'));
+  }
+  if (decoders.length === 0) {
+    throw new Error("Input is neither base64 nor base58");
+  }
+
+  let lastError: unknown;
+  for (const decode of decoders) {
+    try {
+      return deserializeTransaction(decode(value));
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  throw new Error(
+    `Could not deserialize transaction: ${lastError instanceof Error ? lastError.message : String(lastError)}`
+  );
+};
+
+// Rebuild a landed transaction from getTransaction so it can be simulated again
+export const rebuildTransaction = (response: VersionedTransactionResponse): BundleTransaction => {
+  const { message, signatures } = response.transaction;
+
+  if (message.version === 'legacy') {
+    return Transaction.populate(message as Message, signatures);
+  }
+  return new VersionedTransaction(message, signatures.map(signature => bs58.decode(signature)));
+};
+
+// Structural checks before a transaction is added to the bundle
+export const validateBundleTransaction = (tx: BundleTransaction): string | null => {
+  if (!getFeePayer(tx)) {
+    return "Transaction has no fee payer";
+  }
+  if (getProgramInstructions(tx).length === 0) {
+    return "Transaction has no instructions";
+  }
+  const size = getSerializedSize(tx);
+  if (size > PACKET_DATA_SIZE) {
+    return `Transaction is too large: ${size} > ${PACKET_DATA_SIZE} bytes`;
+  }
+  return null;
+};